@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import sharp from "sharp";
+import { isProviderConfigured, runFal } from "@/lib/image-providers";
+import { isMockMode, renderMockMatte } from "@/lib/mock-providers";
+import {
+  getProviderImageUrl,
+  ImageOperationError,
+  loadSourceImage,
+  saveDerivedImage,
+  type SourceImage,
+} from "@/lib/image-operations";
+import { getServerStorage } from "@/lib/storage-server";
+import type { CutoutMethod } from "@/lib/cutout";
+
+// Background removal on large images can take a while
+export const maxDuration = 300;
+
+const BIREFNET_ENDPOINT = "fal-ai/birefnet/v2";
+
+// Stored on generated_images.model for each method
+const CUTOUT_MODEL_NAMES: Record<CutoutMethod, string> = {
+  birefnet: BIREFNET_ENDPOINT,
+  mock: "mock/cutout",
+};
+
+// Ask the model for its matte only; the cutout itself is composed here
+async function getBirefnetMatte(source: SourceImage): Promise<Buffer> {
+  const output = (await runFal(BIREFNET_ENDPOINT, {
+    image_url: await getProviderImageUrl(source),
+    model: "General Use (Heavy)",
+    operating_resolution: "2048x2048",
+    output_format: "png",
+    output_mask: true,
+  })) as { mask_image?: { url?: string } };
+
+  if (!output.mask_image?.url) {
+    throw new Error("No matte returned from the background-removal model");
+  }
+  const response = await fetch(output.mask_image.url, { signal: AbortSignal.timeout(60000) });
+  if (!response.ok) throw new Error(`Failed to download matte (${response.status})`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// Use the matte (white = subject) as the alpha channel of the original
+async function applyAlphaMatte(source: SourceImage, matte: Buffer): Promise<Buffer> {
+  const alpha = await sharp(matte)
+    .resize(source.width, source.height, { fit: "fill" })
+    .flatten({ background: "#000000" })
+    .greyscale()
+    .extractChannel(0)
+    .png()
+    .toBuffer();
+
+  // Flatten to RGB first - sharp drops alpha after joining channels otherwise
+  const { data, info } = await sharp(source.buffer)
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .joinChannel(alpha)
+    .png()
+    .toBuffer();
+}
+
+// POST /api/cutout - Remove an image's background and save a transparent PNG child generation
+export async function POST(request: NextRequest) {
+  try {
+    const { imageId, imageUrl, projectId } = await request.json();
+
+    const storage = getServerStorage();
+    if (!storage) {
+      return NextResponse.json({ error: "Storage is not configured" }, { status: 503 });
+    }
+
+    const source = await loadSourceImage(storage, { imageId, imageUrl });
+    if (!source) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    let method: CutoutMethod;
+    if (isMockMode()) {
+      method = "mock";
+    } else if (isProviderConfigured("fal")) {
+      method = "birefnet";
+    } else {
+      return NextResponse.json({ error: "FAL_KEY is not configured on the server" }, { status: 500 });
+    }
+
+    const matte =
+      method === "birefnet"
+        ? await getBirefnetMatte(source)
+        : await renderMockMatte(source.width, source.height);
+
+    const image = await saveDerivedImage(storage, source, {
+      buffer: await applyAlphaMatte(source, matte),
+      // Transparency needs PNG whatever the source was
+      format: "png",
+      model: CUTOUT_MODEL_NAMES[method],
+      fallbackPrompt: "Subject cutout",
+      projectId: typeof projectId === "string" ? projectId : null,
+    });
+
+    return NextResponse.json({ image, method });
+  } catch (error) {
+    console.error("Cutout error:", error);
+    if (error instanceof ImageOperationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cut out image" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createImageDerivatives } from "@/lib/image-derivatives";
+import { getPathFromStorageUrl } from "@/lib/storage";
+import { getServerStorage } from "@/lib/storage-server";
+
+// POST /api/derivatives - Create (or look up) the thumbnail and preview for a stored image
+export async function POST(request: NextRequest) {
+  try {
+    const { url } = await request.json();
+
+    const path = typeof url === "string" ? getPathFromStorageUrl(url) : null;
+    if (!path) {
+      return NextResponse.json(
+        { error: "url must point to a file in app storage" },
+        { status: 400 }
+      );
+    }
+
+    const storage = getServerStorage();
+    if (!storage) {
+      return NextResponse.json(
+        { error: "Storage is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const derivatives = await createImageDerivatives(storage, path);
+    return NextResponse.json(derivatives);
+  } catch (error) {
+    console.error("Derivatives error:", error);
+    return NextResponse.json(
+      { error: "Failed to create image derivatives" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,24 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { createMockDesign, createMockDesignPatch, isMockMode } from "@/lib/mock-providers";
+import { parseOpenAIUsage, recordUsage } from "@/lib/usage";
+import {
+  applyDesignLocks,
+  DESIGN_CATEGORIES,
+  emptyDesignJSON,
+  getDesignCategory,
+  getDesignCategoryPath,
+  getLockedEntries,
+  hasLockedEntries,
+  isDesignJSON,
+  mergeDesignCategories,
+  parseDesignCategoryPath,
+  type DesignCategoryRef,
+  type DesignJSON,
+  type LockedDesignEntries,
+} from "@/lib/design-json";
+import { parseDesignPatch, withoutLockedChanges } from "@/lib/design-patch";
+
+const OPENAI_MODEL = "gpt-4o-2024-08-06";
 
 // System prompt for interior design assistant
 const SYSTEM_PROMPT = `You are an interior design assistant helping design specific rooms within a project.
@@ -87,6 +107,33 @@ Rules:
 
 When the user is very specific and only asks for limited changes, produce a minimal JSON with only the relevant sections populated.`;
 
+// Default instruction when only some categories are regenerated
+const TARGETED_DEFAULT_INSTRUCTION = "Suggest fresh ideas that fit the rest of the concept.";
+
+// Extra context for targeted regeneration: the current design and what may change
+function buildTargetedPrompt(currentDesign: unknown, targets: DesignCategoryRef[]): string {
+  const paths = targets.map(getDesignCategoryPath).join(", ");
+  return `Current design:
+${JSON.stringify(currentDesign)}
+
+Only rewrite these categories: ${paths}.
+Return the full JSON structure, but only the listed categories will be used; every other category and the meta block are kept exactly as in the current design. Make the rewritten categories fit the existing concept.`;
+}
+
+// Locked entries are fixed constraints; they are also put back after generation
+function buildLockedPrompt(locked: LockedDesignEntries): string {
+  const lines = [
+    ...locked.categories.map(({ category, ...ref }) =>
+      `- ${getDesignCategoryPath(ref)} (whole category): ${JSON.stringify({ materials_overall: category.materials_overall, items: category.items })}`
+    ),
+    ...locked.items.map(({ item, ...ref }) =>
+      `- ${getDesignCategoryPath(ref)} item: ${JSON.stringify({ id: item.id, label: item.label, materials: item.materials, colors: item.colors })}`
+    ),
+  ];
+  return `Locked by the client - keep these exactly as given (same id, label, materials and colors) and design everything else around them:
+${lines.join("\n")}`;
+}
+
 // JSON Schema for structured output
 const DESIGN_JSON_SCHEMA = {
   name: "design_response",
@@ -159,10 +206,332 @@ const DESIGN_JSON_SCHEMA = {
   },
 };
 
+// System prompt for the design chat (one turn refines the current design)
+const CHAT_SYSTEM_PROMPT = `You are an interior design assistant refining an existing room concept through conversation.
+
+You get the room, the current design JSON (meta plus shell and interior categories, each with materials_overall and items) and the conversation so far. Answer the latest message with:
+* "reply": 1-3 short sentences on what you changed and why
+* "patch": only the changes needed; anything not in the patch stays as it is
+
+Patch fields:
+* meta: a new title, summary or style_tags, or null to keep the current value
+* upsert_items: items to add or replace, each with its category path (e.g. "interior.textiles"); reuse an item's id to replace it
+* remove_items: items to drop, by category path and id
+* category_materials: replacement materials_overall lists, by category path
+
+Rules:
+* Keep changes small and focused on the request
+* Items keep the usual shape: short label (max ~5 words), 1-4 materials, 1-4 colors
+* Never change items or categories marked "locked": true
+* If the message is only a question, answer it and return an empty patch`;
+
+// Most recent chat turns sent to the model
+const MAX_CHAT_HISTORY = 20;
+
+const CATEGORY_PATHS = DESIGN_CATEGORIES.map(getDesignCategoryPath);
+
+// JSON Schema for chat turns: a reply and a patch (see src/lib/design-patch.ts)
+const DESIGN_PATCH_SCHEMA = {
+  name: "design_chat_response",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      reply: { type: "string" },
+      patch: {
+        type: "object",
+        properties: {
+          meta: {
+            type: "object",
+            properties: {
+              title: { type: ["string", "null"] },
+              summary: { type: ["string", "null"] },
+              style_tags: { type: ["array", "null"], items: { type: "string" } },
+            },
+            required: ["title", "summary", "style_tags"],
+            additionalProperties: false,
+          },
+          upsert_items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                category: { type: "string", enum: CATEGORY_PATHS },
+                item: { $ref: "#/$defs/item" },
+              },
+              required: ["category", "item"],
+              additionalProperties: false,
+            },
+          },
+          remove_items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                category: { type: "string", enum: CATEGORY_PATHS },
+                id: { type: "string" },
+              },
+              required: ["category", "id"],
+              additionalProperties: false,
+            },
+          },
+          category_materials: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                category: { type: "string", enum: CATEGORY_PATHS },
+                materials_overall: { type: "array", items: { type: "string" } },
+              },
+              required: ["category", "materials_overall"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["meta", "upsert_items", "remove_items", "category_materials"],
+        additionalProperties: false,
+      },
+    },
+    required: ["reply", "patch"],
+    additionalProperties: false,
+    $defs: {
+      item: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          label: { type: "string" },
+          materials: { type: "array", items: { type: "string" } },
+          colors: { type: "array", items: { type: "string" } },
+        },
+        required: ["id", "label", "materials", "colors"],
+        additionalProperties: false,
+      },
+    },
+  },
+};
+
+type ChatTurn = { role: "user" | "assistant"; content: string };
+
+// Recent well-formed turns, or null unless the thread ends with a user message
+function parseChatTurns(value: unknown): ChatTurn[] | null {
+  if (!Array.isArray(value)) return null;
+  const turns = value
+    .filter((turn): turn is ChatTurn =>
+      !!turn &&
+      (turn.role === "user" || turn.role === "assistant") &&
+      typeof turn.content === "string" &&
+      turn.content.trim().length > 0
+    )
+    .map(({ role, content }) => ({ role, content }));
+  if (turns.length === 0 || turns[turns.length - 1].role !== "user") return null;
+  return turns.slice(-MAX_CHAT_HISTORY);
+}
+
+type OpenAIMessageContent =
+  | string
+  | Array<{ type: string; text?: string; image_url?: { url: string; detail?: string } }>;
+
+type OpenAIMessage = { role: "system" | "user" | "assistant"; content: OpenAIMessageContent };
+
+// Call OpenAI Chat Completions with structured output and meter the call
+async function requestStructuredJSON(
+  messages: OpenAIMessage[],
+  jsonSchema: object,
+  projectId: unknown
+): Promise<{ json: unknown } | { errorResponse: NextResponse }> {
+  const startedAt = Date.now();
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
+    },
+    body: JSON.stringify({
+      model: OPENAI_MODEL,
+      messages,
+      response_format: {
+        type: "json_schema",
+        json_schema: jsonSchema,
+      },
+      temperature: 0.7,
+      max_tokens: 4096,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    console.error("OpenAI API error:", errorData);
+    return {
+      errorResponse: NextResponse.json(
+        { error: `OpenAI API error: ${response.status}` },
+        { status: response.status }
+      ),
+    };
+  }
+
+  const data = await response.json();
+  const durationMs = Date.now() - startedAt;
+
+  // Tokens are billed even when the answer is refused or truncated below
+  after(() =>
+    recordUsage({
+      route: "designer",
+      provider: "openai",
+      model: OPENAI_MODEL,
+      projectId: typeof projectId === "string" ? projectId : null,
+      durationMs,
+      ...parseOpenAIUsage(data),
+    })
+  );
+
+  // Check for refusal
+  if (data.choices?.[0]?.message?.refusal) {
+    return {
+      errorResponse: NextResponse.json(
+        { error: data.choices[0].message.refusal },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // Check for incomplete response
+  if (data.choices?.[0]?.finish_reason === "length") {
+    return {
+      errorResponse: NextResponse.json(
+        { error: "Response was too long and got truncated. Please try a simpler prompt." },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // Parse the response content
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) {
+    return {
+      errorResponse: NextResponse.json(
+        { error: "No response content from OpenAI" },
+        { status: 500 }
+      ),
+    };
+  }
+
+  try {
+    return { json: JSON.parse(content) };
+  } catch {
+    console.error("Failed to parse JSON response:", content);
+    return {
+      errorResponse: NextResponse.json(
+        { error: "Invalid JSON response from OpenAI" },
+        { status: 500 }
+      ),
+    };
+  }
+}
+
+// Chat turn: answer the latest message with a reply and a patch for the current design
+async function handleChatTurn(body: Record<string, unknown>): Promise<NextResponse> {
+  const { roomName, projectId } = body;
+  const turns = parseChatTurns(body.messages);
+  if (!turns) {
+    return NextResponse.json(
+      { error: "messages must be a list of chat turns ending with a user message" },
+      { status: 400 }
+    );
+  }
+
+  const currentDesign = body.currentDesign === undefined ? emptyDesignJSON : body.currentDesign;
+  if (!isDesignJSON(currentDesign)) {
+    return NextResponse.json(
+      { error: "currentDesign must be a design JSON object" },
+      { status: 400 }
+    );
+  }
+
+  let reply: string;
+  let rawPatch: unknown;
+  if (isMockMode()) {
+    after(() =>
+      recordUsage({
+        route: "designer",
+        provider: "mock",
+        model: OPENAI_MODEL,
+        projectId: typeof projectId === "string" ? projectId : null,
+      })
+    );
+    ({ reply, patch: rawPatch } = createMockDesignPatch(turns[turns.length - 1].content));
+  } else {
+    if (!process.env.OPENAI_API_KEY) {
+      return NextResponse.json(
+        { error: "OpenAI API key not configured" },
+        { status: 500 }
+      );
+    }
+
+    const context = `${typeof roomName === "string" && roomName ? `Room: ${roomName}\n\n` : ""}Current design:\n${JSON.stringify(currentDesign)}`;
+    const result = await requestStructuredJSON(
+      [
+        { role: "system", content: CHAT_SYSTEM_PROMPT },
+        { role: "system", content: context },
+        ...turns,
+      ],
+      DESIGN_PATCH_SCHEMA,
+      projectId
+    );
+    if ("errorResponse" in result) return result.errorResponse;
+
+    const answer = result.json as { reply?: unknown; patch?: unknown };
+    reply = typeof answer.reply === "string" ? answer.reply : "";
+    rawPatch = answer.patch;
+  }
+
+  return NextResponse.json({
+    success: true,
+    reply,
+    // Locked entries are off limits, whatever the model proposed
+    patch: withoutLockedChanges(currentDesign, parseDesignPatch(rawPatch)),
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { prompt, images, roomName } = body;
+    if (body.messages !== undefined) {
+      return await handleChatTurn(body);
+    }
+
+    const { images, roomName, projectId, currentDesign, targets } = body;
+    let { prompt } = body;
+
+    // Targeted regeneration: only rewrite the listed categories of currentDesign
+    let targetCategories: DesignCategoryRef[] | null = null;
+    if (targets !== undefined) {
+      if (!Array.isArray(targets) || targets.length === 0) {
+        return NextResponse.json(
+          { error: "targets must be a non-empty list of categories like interior.lighting" },
+          { status: 400 }
+        );
+      }
+      targetCategories = [];
+      for (const target of targets) {
+        const category = parseDesignCategoryPath(target);
+        if (!category) {
+          return NextResponse.json(
+            { error: `Unknown design category: ${target}` },
+            { status: 400 }
+          );
+        }
+        targetCategories.push(category);
+      }
+      if (currentDesign === undefined) {
+        return NextResponse.json(
+          { error: "currentDesign is required when targets are given" },
+          { status: 400 }
+        );
+      }
+      if (!prompt || typeof prompt !== "string" || !prompt.trim()) {
+        prompt = TARGETED_DEFAULT_INSTRUCTION;
+      }
+    }
 
     if (!prompt || typeof prompt !== "string") {
       return NextResponse.json(
@@ -171,6 +540,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The current design, when sent, carries the locked entries to keep
+    if (currentDesign !== undefined && !isDesignJSON(currentDesign)) {
+      return NextResponse.json(
+        { error: "currentDesign must be a design JSON object" },
+        { status: 400 }
+      );
+    }
+    const locked = currentDesign ? getLockedEntries(currentDesign) : null;
+    const lockedTarget = targetCategories?.find(
+      ({ section, name }) => getDesignCategory(currentDesign, section, name)?.locked
+    );
+    if (lockedTarget) {
+      return NextResponse.json(
+        { error: `${getDesignCategoryPath(lockedTarget)} is locked` },
+        { status: 400 }
+      );
+    }
+
+    if (isMockMode()) {
+      after(() =>
+        recordUsage({
+          route: "designer",
+          provider: "mock",
+          model: OPENAI_MODEL,
+          projectId: typeof projectId === "string" ? projectId : null,
+        })
+      );
+      let mockDesign = createMockDesign(prompt, roomName);
+      if (targetCategories) {
+        mockDesign = mergeDesignCategories(currentDesign, mockDesign, targetCategories);
+      }
+      return NextResponse.json({
+        success: true,
+        design: currentDesign ? applyDesignLocks(currentDesign, mockDesign) : mockDesign,
+      });
+    }
+
     if (!process.env.OPENAI_API_KEY) {
       return NextResponse.json(
         { error: "OpenAI API key not configured" },
@@ -183,6 +589,12 @@ export async function POST(request: NextRequest) {
     if (roomName) {
       fullPrompt = `Room: ${roomName}\n\nDesign instructions: ${prompt}`;
     }
+    if (targetCategories) {
+      fullPrompt = `${fullPrompt}\n\n${buildTargetedPrompt(currentDesign, targetCategories)}`;
+    }
+    if (locked && hasLockedEntries(locked)) {
+      fullPrompt = `${fullPrompt}\n\n${buildLockedPrompt(locked)}`;
+    }
 
     // Build user message content - can include text and images
     const userContent: Array<{ type: string; text?: string; image_url?: { url: string; detail?: string } }> = [
@@ -204,73 +616,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Call OpenAI Chat Completions API with structured output
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-2024-08-06",
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: userContent },
-        ],
-        response_format: {
-          type: "json_schema",
-          json_schema: DESIGN_JSON_SCHEMA,
-        },
-        temperature: 0.7,
-        max_tokens: 4096,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error("OpenAI API error:", errorData);
-      return NextResponse.json(
-        { error: `OpenAI API error: ${response.status}` },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    
-    // Check for refusal
-    if (data.choices?.[0]?.message?.refusal) {
-      return NextResponse.json(
-        { error: data.choices[0].message.refusal },
-        { status: 400 }
-      );
-    }
-
-    // Check for incomplete response
-    if (data.choices?.[0]?.finish_reason === "length") {
-      return NextResponse.json(
-        { error: "Response was too long and got truncated. Please try a simpler prompt." },
-        { status: 400 }
-      );
-    }
+    const result = await requestStructuredJSON(
+      [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: userContent },
+      ],
+      DESIGN_JSON_SCHEMA,
+      projectId
+    );
+    if ("errorResponse" in result) return result.errorResponse;
+    // Structured output follows DESIGN_JSON_SCHEMA
+    let designJSON = result.json as DesignJSON;
 
-    // Parse the response content
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) {
-      return NextResponse.json(
-        { error: "No response content from OpenAI" },
-        { status: 500 }
-      );
+    // Whatever the model did elsewhere, only the target categories change
+    if (targetCategories) {
+      designJSON = mergeDesignCategories(currentDesign, designJSON, targetCategories);
     }
-
-    let designJSON;
-    try {
-      designJSON = JSON.parse(content);
-    } catch {
-      console.error("Failed to parse JSON response:", content);
-      return NextResponse.json(
-        { error: "Invalid JSON response from OpenAI" },
-        { status: 500 }
-      );
+    // Locked entries come back as they were, even if the model dropped or altered them
+    if (currentDesign) {
+      designJSON = applyDesignLocks(currentDesign, designJSON);
     }
 
     return NextResponse.json({
@@ -1,4 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { getMockVideoStatus, isMockMode, submitMockVideo } from "@/lib/mock-providers";
+import { recordUsage, type UsageProvider } from "@/lib/usage";
 
 // Force dynamic - prevents Next.js from caching this route
 export const dynamic = "force-dynamic";
@@ -36,6 +38,12 @@ async function fetchWithRetry(
   throw lastError;
 }
 
+// Video length in seconds from FAL's duration option (e.g. "8s")
+function parseDurationSeconds(duration: unknown): number | null {
+  const seconds = parseFloat(String(duration));
+  return Number.isFinite(seconds) ? seconds : null;
+}
+
 // POST: Submit a new video generation job
 export async function POST(request: NextRequest) {
   try {
@@ -48,8 +56,23 @@ export async function POST(request: NextRequest) {
       aspectRatio = "auto",
       resolution = "720p",
       generateAudio = false,
+      projectId,
     } = body;
 
+    // Recorded once per submitted job (status polls are free)
+    const meterSubmission = (provider: UsageProvider) =>
+      after(() =>
+        recordUsage({
+          route: "generate-video",
+          provider,
+          model: MODEL_ENDPOINT,
+          projectId: typeof projectId === "string" ? projectId : null,
+          resolution,
+          videoSeconds: parseDurationSeconds(duration),
+          videoAudio: !!generateAudio,
+        })
+      );
+
     if (!firstFrameUrl || !lastFrameUrl || !prompt) {
       return NextResponse.json(
         { error: "firstFrameUrl, lastFrameUrl, and prompt are required" },
@@ -57,6 +80,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Offline mode: fake queue that completes after a few polls
+    if (isMockMode()) {
+      meterSubmission("mock");
+      return NextResponse.json({
+        requestId: submitMockVideo(),
+        status: "SUBMITTED",
+      });
+    }
+
     if (!FAL_API_KEY) {
       return NextResponse.json(
         { error: "FAL API key is not configured" },
@@ -95,7 +127,8 @@ export async function POST(request: NextRequest) {
     }
 
     const submitData = await submitResponse.json();
-    
+    meterSubmission("fal");
+
     // Return the request ID immediately - client will poll for status
     return NextResponse.json({
       requestId: submitData.request_id,
@@ -123,6 +156,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (isMockMode()) {
+      return NextResponse.json(getMockVideoStatus(requestId));
+    }
+
     if (!FAL_API_KEY) {
       return NextResponse.json(
         { error: "FAL API key is not configured" },
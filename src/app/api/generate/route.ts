@@ -1,71 +1,77 @@
-import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { NextRequest, NextResponse, after } from "next/server";
+import { createHash } from "crypto";
 import sharp from "sharp";
-import Replicate from "replicate";
-
-// Use service role key for storage uploads (server-side only)
-const supabaseAdmin =
-  process.env.NEXT_PUBLIC_SUPABASE_URL &&
-  process.env.SUPABASE_SERVICE_ROLE_KEY
-    ? createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL,
-        process.env.SUPABASE_SERVICE_ROLE_KEY
-      )
-    : null;
-
-// Replicate client
-const replicate = process.env.REPLICATE_API_TOKEN
-  ? new Replicate({ auth: process.env.REPLICATE_API_TOKEN })
-  : null;
-
-const BUCKET_NAME = "generated-images";
-
-async function uploadBufferToSupabase(
+import {
+  DEFAULT_IMAGE_MODEL,
+  DEFAULT_INPAINTING_MODEL,
+  getImageModel,
+  mapProviderRequestUrls,
+  parseProviderRequest,
+  supportsMask,
+  type ImageGenerationParams,
+  type ImageModel,
+  type ProviderRequest,
+} from "@/lib/image-models";
+import { getProviderKeyName, isProviderConfigured, runImageModel } from "@/lib/image-providers";
+import { generateMockImages, isMockMode } from "@/lib/mock-providers";
+import { tryCreateImageDerivatives, type ImageDerivativeUrls } from "@/lib/image-derivatives";
+import { compositeMaskedEdit, extendCanvas, parseAspectRatio } from "@/lib/inpainting";
+import {
+  compileAnnotationPrompt,
+  sanitizeAnnotationInstructions,
+  DEFAULT_ANNOTATION_PROMPT,
+  type AnnotationInstruction,
+} from "@/lib/annotations";
+import { getPathFromStorageUrl, getStorageBackend, LOCAL_STORAGE_ROUTE } from "@/lib/storage";
+import { getServerStorage } from "@/lib/storage-server";
+import {
+  createGenerationJob,
+  deleteFinishedGenerationJobs,
+  deleteGeneratedImage,
+  findGeneratedImageIdsByUrl,
+  getGeneratedImage,
+  getGenerationJob,
+  getNormalizedInputPath,
+  saveGeneratedImage,
+  saveNormalizedInputPath,
+  updateGenerationJob,
+} from "@/lib/supabase";
+import type { GeneratedImage, Json } from "@/lib/database.types";
+import type { GenerationJobResult } from "@/lib/generation-jobs";
+import { recordUsage } from "@/lib/usage";
+
+// Background jobs keep running after the response, so allow long provider calls
+export const maxDuration = 300;
+
+// Supabase (service role) or local disk, depending on NEXT_PUBLIC_STORAGE_BACKEND
+const storage = getServerStorage();
+
+async function uploadBufferToStorage(
   buffer: ArrayBuffer | Buffer,
   fileName: string,
   contentType: string,
   retries = 3
 ): Promise<string | null> {
-  if (!supabaseAdmin) {
-    console.warn("Supabase admin client not configured - skipping upload");
+  if (!storage) {
+    console.warn("Storage not configured - skipping upload");
     return null;
   }
 
+  const data = buffer instanceof ArrayBuffer ? buffer : new Uint8Array(buffer);
+
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
       // Wrap upload in a timeout (60 seconds)
-      const uploadPromise = supabaseAdmin.storage
-        .from(BUCKET_NAME)
-        .upload(fileName, buffer, {
-          contentType,
-          cacheControl: "3600",
-          upsert: attempt > 1, // Allow upsert on retries in case partial upload exists
-        });
-
       const timeoutPromise = new Promise<never>((_, reject) => {
         setTimeout(() => reject(new Error("Upload timeout after 60s")), 60000);
       });
 
-      const { error: uploadError } = await Promise.race([uploadPromise, timeoutPromise]);
-
-      if (uploadError) {
-        console.error(`Supabase upload error (attempt ${attempt}/${retries}):`, uploadError);
-        if (attempt === retries) return null;
-        // Wait before retry (exponential backoff)
-        await new Promise((r) => setTimeout(r, 1000 * attempt));
-        continue;
-      }
-
-      // Get public URL
-      const { data: urlData } = supabaseAdmin.storage
-        .from(BUCKET_NAME)
-        .getPublicUrl(fileName);
-
-      return urlData.publicUrl;
+      const stored = await Promise.race([storage.put(fileName, data, contentType), timeoutPromise]);
+      return stored.url;
     } catch (error) {
-      console.error(`Failed to upload to Supabase (attempt ${attempt}/${retries}):`, error);
+      console.error(`Failed to upload to storage (attempt ${attempt}/${retries}):`, error);
       if (attempt === retries) return null;
-      // Wait before retry
+      // Wait before retry (exponential backoff)
       await new Promise((r) => setTimeout(r, 1000 * attempt));
     }
   }
@@ -73,36 +79,40 @@ async function uploadBufferToSupabase(
   return null;
 }
 
-async function uploadImageToSupabaseFromUrl(
-  imageUrl: string,
-  outputFormat: string,
-  prefix: string
-) {
+// Fetch a provider image
+async function downloadImage(imageUrl: string): Promise<Buffer> {
   // Add timeout to prevent hanging on slow/unreachable URLs
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
 
   try {
     const response = await fetch(imageUrl, { signal: controller.signal });
-    clearTimeout(timeoutId);
-
     if (!response.ok) {
       throw new Error("Failed to download image for upload");
     }
-
-    const imageBuffer = await response.arrayBuffer();
-    const fileName = `${prefix}/${Date.now()}-${crypto.randomUUID()}.${outputFormat}`;
-    const contentType = `image/${
-      outputFormat === "jpg" ? "jpeg" : outputFormat
-    }`;
-
-    return uploadBufferToSupabase(imageBuffer, fileName, contentType);
-  } catch (error) {
+    return Buffer.from(await response.arrayBuffer());
+  } finally {
     clearTimeout(timeoutId);
-    throw error;
   }
 }
 
+async function uploadImageToStorageFromUrl(
+  imageUrl: string,
+  outputFormat: string,
+  prefix: string,
+  transform?: (buffer: Buffer) => Promise<Buffer>
+): Promise<{ url: string; path: string; buffer: Buffer } | null> {
+  const downloaded = await downloadImage(imageUrl);
+  const buffer = transform ? await transform(downloaded) : downloaded;
+  const fileName = `${prefix}/${Date.now()}-${crypto.randomUUID()}.${outputFormat}`;
+  const contentType = `image/${
+    outputFormat === "jpg" ? "jpeg" : outputFormat
+  }`;
+
+  const url = await uploadBufferToStorage(buffer, fileName, contentType);
+  return url ? { url, path: fileName, buffer } : null;
+}
+
 function parseDataUrl(dataUrl: string) {
   const match = dataUrl.match(/^data:(.+);base64,(.*)$/);
   if (!match) {
@@ -158,402 +168,687 @@ async function compressAndConvertToPng(
   }
 }
 
+// Normalized inputs are stored by content: inputs/<sha256 of the PNG>.png
+const CONTENT_ADDRESSED_INPUT = /^inputs\/[0-9a-f]{64}\.png$/;
+
+// Source (stored path or raw-bytes hash) -> normalized input path. The
+// normalized_inputs table is the record; this is a cache in front of it
+const normalizedInputPaths = new Map<string, string>();
+const NORMALIZED_INPUT_CACHE_SIZE = 500;
+
+type PreparedInput = {
+  // Recorded on the generation (input_image_urls)
+  url: string;
+  // Sent to the provider
+  providerUrl: string;
+};
+
+function sha256(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+function rememberNormalizedInput(key: string, path: string) {
+  normalizedInputPaths.delete(key);
+  normalizedInputPaths.set(key, path);
+  if (normalizedInputPaths.size > NORMALIZED_INPUT_CACHE_SIZE) {
+    const oldest = normalizedInputPaths.keys().next().value;
+    if (oldest) normalizedInputPaths.delete(oldest);
+  }
+}
+
+// A lookup failure only costs a repeat of the sharp pass, so it doesn't fail the generation
+async function lookUpNormalizedInput(sourceKey: string): Promise<string | null> {
+  try {
+    return await getNormalizedInputPath(sourceKey);
+  } catch (error) {
+    console.warn("Failed to look up normalized input:", error);
+    return null;
+  }
+}
+
+async function readInputBuffer(input: string, storedPath: string | null): Promise<Buffer> {
+  if (storedPath && storage) {
+    const data = await storage.get(storedPath);
+    if (data) return Buffer.from(data);
+  }
+  if (input.startsWith("data:")) {
+    return parseDataUrl(input).buffer;
+  }
+  if (input.startsWith("http")) {
+    const response = await fetch(input, { signal: AbortSignal.timeout(30000) });
+    if (!response.ok) throw new Error(`Failed to download input image (${response.status})`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+  throw new Error(`Input image not found: ${input}`);
+}
+
+/**
+ * Providers can't reach files on our local disk, so the local backend
+ * inlines inputs as data URLs; otherwise they fetch the public URL.
+ */
+async function toPreparedInput(path: string, buffer?: Buffer): Promise<PreparedInput> {
+  const url = storage!.getPublicUrl(path);
+  if (getStorageBackend() !== "local") {
+    return { url, providerUrl: url };
+  }
+  const data = buffer || (await storage!.get(path));
+  if (!data) throw new Error(`Input image not found in storage: ${path}`);
+  return { url, providerUrl: `data:image/png;base64,${Buffer.from(data).toString("base64")}` };
+}
+
+/**
+ * Normalize an input to PNG and store it under its content hash. Inputs that
+ * were already stored (the workspace re-sends the previous output on every
+ * iteration) are reused without compressing or uploading again.
+ */
+async function storeNormalizedInput(input: string): Promise<PreparedInput> {
+  const storedPath = getPathFromStorageUrl(input);
+  if (storedPath && CONTENT_ADDRESSED_INPUT.test(storedPath)) {
+    return toPreparedInput(storedPath);
+  }
+
+  // Stored files never change, so their path is enough to identify them
+  const raw = storedPath ? null : await readInputBuffer(input, storedPath);
+  const sourceKey = storedPath ? `path:${storedPath}` : `sha256:${sha256(raw!)}`;
+
+  const knownPath = normalizedInputPaths.get(sourceKey) ?? (await lookUpNormalizedInput(sourceKey));
+  if (knownPath && (await storage!.exists(knownPath))) {
+    rememberNormalizedInput(sourceKey, knownPath);
+    return toPreparedInput(knownPath);
+  }
+
+  const normalized = await compressAndConvertToPng(raw || (await readInputBuffer(input, storedPath)));
+  const path = `inputs/${sha256(normalized)}.png`;
+
+  if (!(await storage!.exists(path))) {
+    const uploadedUrl = await uploadBufferToStorage(normalized, path, "image/png");
+    // A concurrent generation may have stored the same content first
+    if (!uploadedUrl && !(await storage!.exists(path))) {
+      throw new Error("Failed to upload input image");
+    }
+  }
+
+  rememberNormalizedInput(sourceKey, path);
+  await saveNormalizedInputPath(sourceKey, path).catch((error) =>
+    console.warn("Failed to record normalized input:", error)
+  );
+  return toPreparedInput(path, normalized);
+}
+
 async function ensureImageUrls(
   imageInputs: string[],
   compressImages = true
-): Promise<string[]> {
-  const urls: string[] = [];
+): Promise<PreparedInput[]> {
+  const prepared: PreparedInput[] = [];
 
   for (const input of imageInputs) {
-    if (input.startsWith("http")) {
-      // For HTTP URLs, optionally fetch and compress
-      if (compressImages && supabaseAdmin) {
-        try {
-          const response = await fetch(input, {
-            signal: AbortSignal.timeout(30000),
-          });
-          if (response.ok) {
-            const arrayBuffer = await response.arrayBuffer();
-            const originalBuffer = Buffer.from(arrayBuffer);
-            const compressedBuffer = await compressAndConvertToPng(originalBuffer);
-            const fileName = `inputs/${Date.now()}-${crypto.randomUUID()}.png`;
-            const uploadedUrl = await uploadBufferToSupabase(
-              compressedBuffer,
-              fileName,
-              "image/png"
-            );
-            if (uploadedUrl) {
-              urls.push(uploadedUrl);
-              continue;
-            }
-          }
-        } catch (error) {
-          console.warn("Could not compress HTTP image, using original URL:", error);
-        }
-      }
-      // Fallback to original URL
-      urls.push(input);
-    } else if (input.startsWith("data:")) {
-      const { buffer } = parseDataUrl(input);
-      
-      // Try to compress and upload
-      if (compressImages && supabaseAdmin) {
-        try {
-          const compressedBuffer = await compressAndConvertToPng(buffer);
-          const fileName = `inputs/${Date.now()}-${crypto.randomUUID()}.png`;
-          const uploadedUrl = await uploadBufferToSupabase(
-            compressedBuffer,
-            fileName,
-            "image/png"
-          );
-          if (uploadedUrl) {
-            urls.push(uploadedUrl);
-            continue;
-          }
-        } catch (error) {
-          console.warn("Could not compress data URL image:", error);
-        }
-      }
-      
-      // Fallback: use original data URL (FAL accepts these)
-      urls.push(input);
-    } else {
+    if (!input.startsWith("http") && !input.startsWith("data:") && !input.startsWith(`${LOCAL_STORAGE_ROUTE}/`)) {
       throw new Error("Unsupported image input format. Use URLs or data URIs.");
     }
+
+    if (compressImages && storage) {
+      try {
+        prepared.push(await storeNormalizedInput(input));
+        continue;
+      } catch (error) {
+        console.warn("Could not normalize input image, using original:", error);
+      }
+    }
+
+    // Local files still have to be inlined for the provider
+    if (input.startsWith(`${LOCAL_STORAGE_ROUTE}/`)) {
+      const buffer = await readInputBuffer(input, getPathFromStorageUrl(input));
+      prepared.push({ url: input, providerUrl: `data:image/png;base64,${buffer.toString("base64")}` });
+      continue;
+    }
+
+    // Fallback: use the original URL or data URL (FAL accepts these)
+    prepared.push({ url: input, providerUrl: input });
   }
 
-  return urls;
+  return prepared;
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const {
-      prompt,
-      imageInputs,
-      resolution,
-      aspectRatio,
-      outputFormat,
-      numImages,
-      limitGenerations,
-      enableWebSearch,
-      syncMode,
-      imageSize,
-      compressImages = true,
-      model = "nano-banana-pro", // "nano-banana-pro", "seedream", "google-nano-banana"
-    } = body;
-
-    if (!prompt?.trim()) {
-      return NextResponse.json({ error: "Prompt is required" }, { status: 400 });
-    }
+// Request body accepted by POST /api/generate (stored on generation_jobs.request without inline images)
+type GenerateRequest = {
+  prompt: string;
+  imageInputs?: string[];
+  resolution?: string;
+  aspectRatio?: string;
+  outputFormat?: string;
+  numImages?: number;
+  limitGenerations?: boolean;
+  enableWebSearch?: boolean;
+  syncMode?: boolean;
+  imageSize?: string;
+  compressImages?: boolean;
+  model?: string;
+  // When set, the job saves its images to this project's generated_images
+  projectId?: string;
+  // Explicit lineage for inputs that can't be matched by URL (e.g. annotated copies)
+  parentImageIds?: string[];
+  // Edit-region mask for the first input (white = repaint); routes to an inpainting model
+  maskImage?: string;
+  // Shapes and labels drawn on the first input, compiled into the provider prompt
+  annotationInstructions?: AnnotationInstruction[];
+  // Target aspect ratio (e.g. "16:9"): pad the first input and fill only the new border
+  extendCanvasTo?: string;
+  // Fixed provider seed (models with capabilities.seed only)
+  seed?: number;
+  // generated_images id whose stored provider request should be sent again as-is
+  rerunOf?: string;
+  // Shared by every job of one model comparison run (saved on the images)
+  comparisonGroupId?: string;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Used when an extend-canvas request has no prompt of its own
+const DEFAULT_EXTEND_CANVAS_PROMPT =
+  "Extend the scene beyond the original frame, continuing its content, lighting and perspective seamlessly";
+
+const toPngDataUrl = (buffer: Buffer) => `data:image/png;base64,${buffer.toString("base64")}`;
+
+// Finished jobs are kept this long, then pruned after later generations
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// The request as saved on the job row: data URLs (often several MB each) are
+// dropped, since the row only feeds pending cards in the workspace
+function toJobRequest(body: GenerateRequest): Json {
+  const isInline = (url: string) => url.startsWith("data:");
+  const { imageInputs, maskImage, ...rest } = body;
+  return {
+    ...rest,
+    ...(imageInputs && { imageInputs: imageInputs.filter((url) => !isInline(url)) }),
+    ...(maskImage && !isInline(maskImage) && { maskImage }),
+  } as unknown as Json;
+}
 
-    const format = outputFormat || "png";
-    const hasImages = imageInputs && Array.isArray(imageInputs) && imageInputs.length > 0;
-    
-    const selectedModel = model;
-    
-    // Validate image requirements per model
-    const modelRequiresImages = selectedModel === "nano-banana-pro" || selectedModel === "seedream-edit";
-    if (modelRequiresImages && !hasImages) {
-      return NextResponse.json(
-        { error: `${selectedModel} requires at least one input image` },
-        { status: 400 }
-      );
-    }
+// Everything needed to make one provider call and post-process its output
+type ProviderCall = {
+  params: ImageGenerationParams;
+  input: Record<string, unknown>;
+  inputs: PreparedInput[];
+  mask?: PreparedInput;
+};
+
+// Build a fresh provider call from a validated request
+async function buildProviderCall(imageModel: ImageModel, body: GenerateRequest): Promise<ProviderCall> {
+  const {
+    prompt,
+    imageInputs,
+    resolution,
+    aspectRatio,
+    outputFormat,
+    numImages,
+    limitGenerations,
+    enableWebSearch,
+    syncMode,
+    imageSize,
+    compressImages = true,
+    maskImage,
+    annotationInstructions = [],
+    extendCanvasTo,
+    seed,
+  } = body;
+
+  const { capabilities } = imageModel;
+  const hasImages = imageInputs && Array.isArray(imageInputs) && imageInputs.length > 0;
+
+  // Extend canvas: the padded image becomes the input and its border the edit region
+  let sourceImages = imageInputs || [];
+  let maskSource = maskImage;
+  if (extendCanvasTo && hasImages) {
+    const original = await readInputBuffer(imageInputs[0], getPathFromStorageUrl(imageInputs[0]));
+    const extended = await extendCanvas(original, extendCanvasTo);
+    sourceImages = [toPngDataUrl(extended.image)];
+    maskSource = toPngDataUrl(extended.mask);
+  }
 
-    // ============================================
-    // GOOGLE NANO-BANANA (Replicate)
-    // ============================================
-    if (selectedModel === "google-nano-banana") {
-      if (!replicate) {
-        return NextResponse.json(
-          { error: "REPLICATE_API_TOKEN is not configured on the server" },
-          { status: 500 }
-        );
-      }
+  // Prepare input image URLs (skipped for text-only models)
+  let inputs: PreparedInput[] = [];
+  if (hasImages && capabilities.imageInput !== "none") {
+    inputs = await ensureImageUrls(
+      sourceImages.slice(0, capabilities.maxInputImages),
+      compressImages
+    );
+  }
 
-      // Prepare image URLs for Replicate
-      let imageUrls: string[] = [];
-      if (hasImages) {
-        imageUrls = await ensureImageUrls(imageInputs.slice(0, 10), compressImages);
-      }
+  // Edit-region mask for the first input (prepared like any other input)
+  let mask: PreparedInput | undefined;
+  if (maskSource && supportsMask(imageModel) && inputs.length > 0) {
+    [mask] = await ensureImageUrls([maskSource], compressImages);
+  }
 
-      // Map aspect ratio to Replicate format
-      const replicateAspectRatio = mapAspectRatioForReplicate(aspectRatio, hasImages);
-
-      const input: {
-        prompt: string;
-        image_input?: string[];
-        aspect_ratio?: string;
-        output_format?: string;
-      } = {
-        prompt,
-        output_format: format,
-      };
+  const defaultPrompt = extendCanvasTo ? DEFAULT_EXTEND_CANVAS_PROMPT : DEFAULT_ANNOTATION_PROMPT;
+  const params: ImageGenerationParams = {
+    prompt: compileAnnotationPrompt(extendCanvasTo ? prompt.trim() || defaultPrompt : prompt, annotationInstructions),
+    imageUrls: inputs.map((input) => input.providerUrl),
+    maskUrl: mask?.providerUrl,
+    aspectRatio,
+    resolution,
+    imageSize,
+    outputFormat: outputFormat || "png",
+    numImages: Math.min(numImages || 1, capabilities.maxOutputs),
+    limitGenerations,
+    enableWebSearch,
+    syncMode,
+    seed: capabilities.seed ? seed : undefined,
+  };
+
+  return { params, input: imageModel.buildInput(params), inputs, mask };
+}
 
-      if (imageUrls.length > 0) {
-        input.image_input = imageUrls;
-      }
+// Stored image URL -> what the provider is sent (local files are inlined again)
+async function prepareStoredInput(url: string): Promise<PreparedInput> {
+  const path = getPathFromStorageUrl(url);
+  return path && storage ? toPreparedInput(path) : { url, providerUrl: url };
+}
 
-      if (replicateAspectRatio) {
-        input.aspect_ratio = replicateAspectRatio;
-      }
+// Stored inputs of a re-run whose file has been deleted since
+async function findMissingStoredInputs(urls: string[]): Promise<string[]> {
+  if (!storage) return [];
+  const missing = await Promise.all(
+    urls.map(async (url) => {
+      const path = getPathFromStorageUrl(url);
+      return path && !(await storage!.exists(path)) ? path : null;
+    })
+  );
+  return missing.filter((path): path is string => !!path);
+}
 
-      const output = await replicate.run("google/nano-banana", { input });
-      
-      // Handle the output - it returns a FileOutput object
-      let replicateImageUrl: string;
-      if (output && typeof output === 'object' && 'url' in output) {
-        replicateImageUrl = (output as { url: () => string }).url();
-      } else if (typeof output === 'string') {
-        replicateImageUrl = output;
-      } else {
-        throw new Error("Unexpected output format from Replicate");
-      }
+// Rebuild a stored provider call; its image URLs are the inputs recorded on the source row
+async function replayProviderCall(replay: ProviderRequest, inputImageUrls: string[]): Promise<ProviderCall> {
+  const inputs = await Promise.all(inputImageUrls.map(prepareStoredInput));
+  const mask = replay.maskUrl ? await prepareStoredInput(replay.maskUrl) : undefined;
+
+  const providerUrls = new Map([...inputs, ...(mask ? [mask] : [])].map((input) => [input.url, input.providerUrl]));
+  const { params, input } = mapProviderRequestUrls(replay, (url) => providerUrls.get(url) ?? url);
+  return { params, input, inputs, mask };
+}
 
-      let finalImageUrl = replicateImageUrl;
+/**
+ * Run the provider call and upload the results. Called from the job
+ * processor after the request has been validated; `replay` re-sends a
+ * stored call instead of building one from the request.
+ */
+async function generateImages(
+  imageModel: ImageModel,
+  body: GenerateRequest,
+  replay?: ProviderRequest
+): Promise<GenerationJobResult> {
+  const { prompt, resolution, aspectRatio, imageSize, extendCanvasTo } = body;
+
+  const { params, input, inputs, mask } = replay
+    ? await replayProviderCall(replay, body.imageInputs || [])
+    : await buildProviderCall(imageModel, body);
+  // Composited masked edits are always PNG, whatever the provider returned
+  const format = mask ? "png" : params.outputFormat;
+  const defaultPrompt = extendCanvasTo ? DEFAULT_EXTEND_CANVAS_PROMPT : DEFAULT_ANNOTATION_PROMPT;
+
+  // Offline mode renders placeholders instead of calling the provider
+  const result = isMockMode()
+    ? await generateMockImages(imageModel, params)
+    : imageModel.parseOutput(await runImageModel(imageModel, input));
+
+  if (result.images.length === 0) {
+    throw new Error(`No image URL returned from ${imageModel.label}`);
+  }
 
-      // Upload to Supabase for persistence
-      if (supabaseAdmin && replicateImageUrl) {
+  // Record the call with stored URLs, pinned to the seed the provider used
+  const storedUrls = new Map([...inputs, ...(mask ? [mask] : [])].map((prepared) => [prepared.providerUrl, prepared.url]));
+  const usedSeed = imageModel.capabilities.seed ? params.seed ?? result.seed : undefined;
+  const providerRequest = mapProviderRequestUrls(
+    {
+      model: imageModel.id,
+      endpoint: imageModel.endpoint,
+      input: usedSeed !== undefined ? { ...input, seed: usedSeed } : input,
+      params: { ...params, seed: usedSeed },
+      maskUrl: mask?.url,
+    },
+    (url) => storedUrls.get(url) ?? url
+  );
+
+  // Masked edits are pasted back onto the original so only the region changes
+  let applyMask: ((buffer: Buffer) => Promise<Buffer>) | undefined;
+  if (mask) {
+    const [originalBuffer, maskBuffer] = await Promise.all([
+      readInputBuffer(inputs[0].url, getPathFromStorageUrl(inputs[0].url)),
+      readInputBuffer(mask.url, getPathFromStorageUrl(mask.url)),
+    ]);
+    applyMask = (edited) => compositeMaskedEdit(originalBuffer, edited, maskBuffer);
+  }
+
+  // Upload every returned image in parallel, keeping the provider URL as fallback
+  const images = await Promise.all(
+    result.images.map(async (image) => {
+      let url = image.url;
+      let derivatives: ImageDerivativeUrls | undefined;
+      if (storage) {
         try {
-          const uploaded = await uploadImageToSupabaseFromUrl(
-            replicateImageUrl,
-            format,
-            "generated"
-          );
+          const uploaded = await uploadImageToStorageFromUrl(image.url, format, "generated", applyMask);
           if (uploaded) {
-            finalImageUrl = uploaded;
+            url = uploaded.url;
+            derivatives = await tryCreateImageDerivatives(storage, uploaded.path, uploaded.buffer);
           }
         } catch (uploadError) {
-          console.warn("Failed to upload to Supabase, using original URL:", uploadError);
+          console.warn("Failed to upload to storage, using original URL:", uploadError);
         }
       }
+      // The provider's own output changes pixels outside the mask - return the
+      // composite inline instead, or fail the job if it can't be made
+      if (applyMask && url === image.url) {
+        url = toPngDataUrl(await applyMask(await downloadImage(image.url)));
+      }
+      return {
+        url,
+        thumbnailUrl: derivatives?.thumbnailUrl,
+        previewUrl: derivatives?.previewUrl,
+        sourceUrl: image.url,
+        seed: image.seed ?? result.seed,
+        description: image.description ?? result.description,
+      };
+    })
+  );
+
+  return {
+    imageUrl: images[0].url,
+    images,
+    prompt: prompt.trim() || defaultPrompt,
+    settings: {
+      aspectRatio: extendCanvasTo || (input.aspect_ratio as string | undefined) || aspectRatio || imageModel.defaults.aspectRatio || "auto",
+      resolution: resolution || imageModel.defaults.resolution || "2K",
+      outputFormat: format,
+      imageSize: imageSize || imageModel.defaults.imageSize || "auto_2K",
+    },
+    sourceUrl: images[0].sourceUrl,
+    inputImageUrls: inputs.map((input) => input.url),
+    maskUrl: mask?.url,
+    model: imageModel.modelName,
+    seed: images[0].seed,
+    providerRequest,
+  };
+}
 
-      return NextResponse.json({
-        success: true,
-        imageUrl: finalImageUrl,
-        prompt,
-        settings: {
-          aspectRatio: replicateAspectRatio || "match_input_image",
-          outputFormat: format,
-        },
-        sourceUrl: replicateImageUrl,
-        inputImageUrls: imageUrls,
-        model: "google/nano-banana",
-      });
-    }
+// A job is dropped if it was cancelled (or deleted) while running
+// False once the job was cancelled or marked failed as stale by /api/jobs/[id]
+async function isJobRunning(jobId: string): Promise<boolean> {
+  const job = await getGenerationJob(jobId);
+  return job?.status === "running";
+}
 
-    // ============================================
-    // FAL MODELS (Nano Banana Pro / Seedream)
-    // ============================================
-    if (!process.env.FAL_KEY) {
-      return NextResponse.json(
-        { error: "FAL_KEY is not configured on the server" },
-        { status: 500 }
-      );
-    }
+/**
+ * Process a queued job in the background: generate, save the images to the
+ * project (if any) and record the result on the job row.
+ */
+async function processGenerationJob(
+  jobId: string,
+  imageModel: ImageModel,
+  body: GenerateRequest,
+  replay?: ProviderRequest
+) {
+  try {
+    // Skipped when the job was cancelled before it started
+    const started = await updateGenerationJob(
+      jobId,
+      { status: "running", startedAt: new Date().toISOString() },
+      ["queued"]
+    );
+    if (!started) return;
+
+    // Provider call plus upload, shown per model when comparing
+    const startedAt = Date.now();
+    const result = await generateImages(imageModel, body, replay);
+    result.latencyMs = Date.now() - startedAt;
+
+    // Metered before the status check - the provider call is paid for either way
+    await recordUsage({
+      route: "generate",
+      provider: isMockMode() ? "mock" : imageModel.provider,
+      model: imageModel.endpoint,
+      projectId: body.projectId,
+      resolution: result.settings.resolution,
+      imageCount: result.images.length,
+      durationMs: result.latencyMs,
+    });
 
-    let falResponse: Response;
-    let imageUrls: string[] = [];
+    if (!(await isJobRunning(jobId))) return;
 
-    if (selectedModel === "nano-banana-pro") {
-      // Use nano-banana-pro/edit for image-to-image editing
-      imageUrls = await ensureImageUrls(imageInputs.slice(0, 10), compressImages);
+    // Save to database so the result survives the browser going away
+    const generatedImageIds: string[] = [];
+    if (body.projectId) {
+      // Inputs that were themselves generated images become this image's parents
+      try {
+        const matchedIds = await findGeneratedImageIdsByUrl(body.imageInputs || []);
+        result.parentImageIds = [...new Set([...(body.parentImageIds || []), ...matchedIds])];
+      } catch (lineageError) {
+        console.warn("Failed to resolve parent images:", lineageError);
+        result.parentImageIds = body.parentImageIds || [];
+      }
 
-      falResponse = await fetch(
-        "https://fal.run/fal-ai/nano-banana-pro/edit",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Key ${process.env.FAL_KEY}`,
-          },
-          body: JSON.stringify({
-            prompt,
-            image_urls: imageUrls,
-            num_images: Math.min(numImages || 1, 4),
-            aspect_ratio: aspectRatio || "auto",
-            output_format: format,
-            resolution: resolution || "2K",
-            limit_generations: !!limitGenerations,
-            enable_web_search: !!enableWebSearch,
-            sync_mode: !!syncMode,
-          }),
-        }
-      );
-    } else if (selectedModel === "seedream-edit") {
-      // Use Bytedance Seedream 4.5 Edit for multi-image editing
-      imageUrls = await ensureImageUrls(imageInputs.slice(0, 10), compressImages);
-      
-      // Map imageSize to Seedream Edit format
-      const seedreamImageSize = mapImageSizeForSeedreamEdit(imageSize);
-
-      falResponse = await fetch(
-        "https://fal.run/fal-ai/bytedance/seedream/v4.5/edit",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Key ${process.env.FAL_KEY}`,
-          },
-          body: JSON.stringify({
-            prompt,
-            image_urls: imageUrls,
-            image_size: seedreamImageSize,
-            num_images: Math.min(numImages || 1, 6),
-            max_images: 1, // Single output per generation
-            enable_safety_checker: true,
-            sync_mode: !!syncMode,
-          }),
+      for (const image of result.images) {
+        try {
+          const saved = await saveGeneratedImage({
+            projectId: body.projectId,
+            imageUrl: image.url,
+            thumbnailUrl: image.thumbnailUrl,
+            previewUrl: image.previewUrl,
+            prompt: result.prompt,
+            settings: {
+              aspectRatio: body.aspectRatio || result.settings.aspectRatio,
+              resolution: result.settings.resolution,
+              outputFormat: result.settings.outputFormat,
+              safetyFilter: "block_only_high",
+            },
+            inputImageUrls: result.inputImageUrls,
+            model: result.model,
+            parentImageIds: result.parentImageIds,
+            seed: image.seed,
+            providerRequest: result.providerRequest,
+            comparisonGroupId: body.comparisonGroupId,
+            latencyMs: result.latencyMs,
+          });
+          image.id = saved.id;
+          generatedImageIds.push(saved.id);
+        } catch (saveError) {
+          console.warn("Failed to save generated image:", saveError);
         }
-      );
-    } else {
-      // Use Bytedance Seedream 4.5 for text-to-image generation
-      // Valid image_size values for Seedream text-to-image
-      const validSeedreamSizes = [
-        "square_hd", "square", "portrait_4_3", "portrait_16_9",
-        "landscape_4_3", "landscape_16_9", "auto_2K", "auto_4K"
-      ];
-      
-      // Validate and map image size
-      let finalImageSize: string | { width: number; height: number } = "auto_2K";
-      if (imageSize && validSeedreamSizes.includes(imageSize)) {
-        finalImageSize = imageSize;
-      } else if (imageSize) {
-        // Map legacy values to valid ones
-        console.warn(`Invalid imageSize "${imageSize}" for Seedream, using auto_2K`);
       }
+    }
 
-      falResponse = await fetch(
-        "https://fal.run/fal-ai/bytedance/seedream/v4.5/text-to-image",
+    const completed = await updateGenerationJob(
+      jobId,
+      {
+        status: "completed",
+        result: result as unknown as Json,
+        generatedImageIds,
+        completedAt: new Date().toISOString(),
+      },
+      ["running"]
+    );
+    // The job was cancelled or timed out while saving - the client won't pick these up
+    if (!completed) {
+      for (const id of generatedImageIds) {
+        await deleteGeneratedImage(id).catch((deleteError) =>
+          console.warn("Failed to remove image of a finished job:", deleteError)
+        );
+      }
+    }
+  } catch (error) {
+    console.error(`Generation job ${jobId} failed:`, error);
+    try {
+      await updateGenerationJob(
+        jobId,
         {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Key ${process.env.FAL_KEY}`,
-          },
-          body: JSON.stringify({
-            prompt,
-            image_size: finalImageSize,
-            num_images: Math.min(numImages || 1, 6),
-            enable_safety_checker: true,
-            sync_mode: !!syncMode,
-          }),
-        }
+          status: "failed",
+          error: error instanceof Error ? error.message : "Failed to generate image",
+          completedAt: new Date().toISOString(),
+        },
+        ["queued", "running"]
       );
+    } catch (updateError) {
+      console.error("Failed to record job failure:", updateError);
     }
+  }
+}
 
-    if (!falResponse.ok) {
-      const errorText = await falResponse.text();
-      throw new Error(
-        `Fal request failed (${falResponse.status}): ${errorText}`
-      );
+// Request recorded for a re-run: the source row's settings, lineage and inputs
+function toRerunRequest(source: GeneratedImage, replay: ProviderRequest): GenerateRequest {
+  return {
+    prompt: source.prompt,
+    model: replay.model,
+    imageInputs: source.input_image_urls || [],
+    aspectRatio: source.aspect_ratio,
+    resolution: source.resolution,
+    outputFormat: source.output_format,
+    numImages: replay.params.numImages,
+    seed: replay.params.seed,
+    projectId: source.project_id || undefined,
+    parentImageIds: source.parent_image_ids || [],
+    rerunOf: source.id,
+  };
+}
+
+// POST /api/generate - Validate the request and queue a generation job
+export async function POST(request: NextRequest) {
+  try {
+    let body: GenerateRequest = await request.json();
+
+    // Re-runs replace the request with the one stored on the source image
+    let replay: ProviderRequest | undefined;
+    if (body.rerunOf !== undefined) {
+      const source = typeof body.rerunOf === "string" ? await getGeneratedImage(body.rerunOf) : null;
+      if (!source) {
+        return NextResponse.json({ error: "Image not found" }, { status: 404 });
+      }
+      replay = parseProviderRequest(source.provider_request) || undefined;
+      if (!replay) {
+        return NextResponse.json(
+          { error: "This image was saved without its provider request and can't be re-run" },
+          { status: 400 }
+        );
+      }
+      body = toRerunRequest(source, replay);
+
+      const missing = await findMissingStoredInputs([
+        ...(body.imageInputs || []),
+        ...(replay.maskUrl ? [replay.maskUrl] : []),
+      ]);
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `This image can't be re-run - its stored inputs are gone: ${missing.join(", ")}` },
+          { status: 410 }
+        );
+      }
     }
 
-    const falResult: {
-      images?: { url: string }[];
-      description?: string;
-      seed?: number;
-    } = await falResponse.json();
+    if (body.seed !== undefined && !(Number.isSafeInteger(body.seed) && body.seed >= 0)) {
+      return NextResponse.json({ error: "seed must be a non-negative integer" }, { status: 400 });
+    }
+    if (
+      body.comparisonGroupId !== undefined &&
+      (typeof body.comparisonGroupId !== "string" || !UUID_PATTERN.test(body.comparisonGroupId))
+    ) {
+      return NextResponse.json({ error: "comparisonGroupId must be a UUID" }, { status: 400 });
+    }
 
-    const firstImageUrl = falResult.images?.[0]?.url;
+    const { imageInputs, model = DEFAULT_IMAGE_MODEL, projectId, maskImage, extendCanvasTo } = body;
 
-    if (!firstImageUrl) {
-      throw new Error("No image URL returned from Fal");
+    // Annotations can stand in for the prompt; they only make sense with an input image
+    const hasImages = imageInputs && Array.isArray(imageInputs) && imageInputs.length > 0;
+    body.annotationInstructions = hasImages ? sanitizeAnnotationInstructions(body.annotationInstructions) : [];
+    body.prompt = typeof body.prompt === "string" ? body.prompt : "";
+    const prompt =
+      body.prompt.trim() ||
+      (extendCanvasTo ? DEFAULT_EXTEND_CANVAS_PROMPT : "") ||
+      (body.annotationInstructions.length ? DEFAULT_ANNOTATION_PROMPT : "");
+
+    if (!prompt) {
+      return NextResponse.json({ error: "Prompt is required" }, { status: 400 });
+    }
+
+    if (extendCanvasTo !== undefined) {
+      if (typeof extendCanvasTo !== "string" || !parseAspectRatio(extendCanvasTo)) {
+        return NextResponse.json(
+          { error: "extendCanvasTo must be an aspect ratio like 16:9" },
+          { status: 400 }
+        );
+      }
+      if (!hasImages || maskImage) {
+        return NextResponse.json(
+          { error: "Extending the canvas needs one input image and no edit-region mask" },
+          { status: 400 }
+        );
+      }
+      // Recorded as the result's aspect ratio
+      body.aspectRatio = extendCanvasTo;
     }
 
-    let finalImageUrl = firstImageUrl;
+    let imageModel = getImageModel(model);
+    if (!imageModel) {
+      return NextResponse.json(
+        { error: `Unknown model: ${model}` },
+        { status: 400 }
+      );
+    }
 
-    if (supabaseAdmin) {
-      try {
-        const uploaded = await uploadImageToSupabaseFromUrl(
-          firstImageUrl,
-          format,
-          "generated"
+    // Edit-region requests go to an inpainting model when the chosen one can't take a mask
+    if (maskImage || extendCanvasTo) {
+      if (!hasImages) {
+        return NextResponse.json(
+          { error: "An edit-region mask needs an input image" },
+          { status: 400 }
         );
-        if (uploaded) {
-          finalImageUrl = uploaded;
-        }
-      } catch (uploadError) {
-        console.warn("Failed to upload to Supabase, using original URL:", uploadError);
       }
+      if (!supportsMask(imageModel)) {
+        imageModel = getImageModel(DEFAULT_INPAINTING_MODEL)!;
+      }
+    } else if (imageModel.capabilities.mask === "required" && !replay) {
+      return NextResponse.json(
+        { error: `${imageModel.id} requires an edit-region mask` },
+        { status: 400 }
+      );
     }
 
-    // Determine model name for response
-    const modelName = selectedModel === "seedream" 
-      ? "bytedance/seedream/v4.5/text-to-image" 
-      : selectedModel === "seedream-edit"
-        ? "bytedance/seedream/v4.5/edit"
-        : "nano-banana-pro/edit";
+    // Validate image requirements per model
+    if (imageModel.capabilities.imageInput === "required" && !hasImages) {
+      return NextResponse.json(
+        { error: `${imageModel.id} requires at least one input image` },
+        { status: 400 }
+      );
+    }
 
-    return NextResponse.json({
-      success: true,
-      imageUrl: finalImageUrl,
+    if (!isMockMode() && !isProviderConfigured(imageModel.provider)) {
+      return NextResponse.json(
+        { error: `${getProviderKeyName(imageModel.provider)} is not configured on the server` },
+        { status: 500 }
+      );
+    }
+
+    const job = await createGenerationJob({
+      projectId: projectId || null,
+      model: imageModel.id,
       prompt,
-      settings: {
-        aspectRatio: aspectRatio || "auto",
-        resolution: resolution || "2K",
-        outputFormat: format,
-        imageSize: imageSize || "auto_2K",
-      },
-      sourceUrl: firstImageUrl,
-      inputImageUrls: imageUrls,
-      model: modelName,
-      seed: falResult.seed,
+      request: toJobRequest(body),
+    });
+
+    // Finish the work after the response is sent - the client polls /api/jobs/[id]
+    after(async () => {
+      await processGenerationJob(job.id, imageModel, body, replay);
+      await deleteFinishedGenerationJobs(new Date(Date.now() - JOB_RETENTION_MS).toISOString()).catch((pruneError) =>
+        console.warn("Failed to prune finished generation jobs:", pruneError)
+      );
     });
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, status: job.status },
+      { status: 202 }
+    );
   } catch (error) {
-    console.error("Error generating image:", error);
+    console.error("Error queueing generation:", error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to generate image" },
+      { error: error instanceof Error ? error.message : "Failed to start generation" },
       { status: 500 }
     );
   }
 }
-
-// Map aspect ratio to Replicate's supported values
-function mapAspectRatioForReplicate(ratio: string | undefined, hasImages: boolean): string {
-  if (!ratio || ratio === "auto") {
-    return hasImages ? "match_input_image" : "1:1";
-  }
-  
-  // Replicate supports: match_input_image, 1:1, 2:3, 3:2, 3:4, 4:3, 4:5, 5:4, 9:16, 16:9, 21:9
-  const replicateRatios = ["match_input_image", "1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
-  
-  if (replicateRatios.includes(ratio)) {
-    return ratio;
-  }
-  
-  // Map any non-supported ratios
-  return hasImages ? "match_input_image" : "1:1";
-}
-
-// Map image size for Seedream Edit
-// Supported: square_hd, square, portrait_4_3, portrait_16_9, landscape_4_3, landscape_16_9, auto_2K, auto_4K
-// Or custom { width, height } object
-function mapImageSizeForSeedreamEdit(size: string | undefined): string | { width: number; height: number } {
-  const validPresets = [
-    "square_hd", "square", "portrait_4_3", "portrait_16_9", 
-    "landscape_4_3", "landscape_16_9", "auto_2K", "auto_4K"
-  ];
-  
-  if (!size) {
-    return "auto_4K";
-  }
-  
-  // If it's a valid preset, return as-is
-  if (validPresets.includes(size)) {
-    return size;
-  }
-  
-  // Map older size formats to Seedream Edit presets
-  switch (size) {
-    case "1K":
-      return { width: 1024, height: 1024 };
-    case "2K":
-      return "auto_2K";
-    case "4K":
-      return "auto_4K";
-    default:
-      return "auto_4K";
-  }
-}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelGenerationJob, getGenerationJob } from "@/lib/supabase";
+
+// POST /api/jobs/[id]/cancel - Cancel a queued or running job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const job = await cancelGenerationJob(id);
+    if (job) {
+      return NextResponse.json(job);
+    }
+
+    // Nothing was cancelled - either the job doesn't exist or it already finished
+    const existing = await getGenerationJob(id);
+    if (!existing) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: `Job already ${existing.status}` },
+      { status: 409 }
+    );
+  } catch (error) {
+    console.error("Job cancel error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel generation job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteGenerationJob, getGenerationJob, updateGenerationJob } from "@/lib/supabase";
+
+// Force dynamic - job status changes between requests
+export const dynamic = "force-dynamic";
+
+// Jobs that stop updating for this long are assumed lost (server restarted mid-job)
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+// GET /api/jobs/[id] - Get the status (and result, once completed) of a job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    let job = await getGenerationJob(id);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const isActive = job.status === "queued" || job.status === "running";
+    if (isActive && Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS) {
+      // Unless the job finished in the meantime
+      job = (await updateGenerationJob(
+        id,
+        { status: "failed", error: "Generation timed out", completedAt: new Date().toISOString() },
+        ["queued", "running"]
+      )) || (await getGenerationJob(id)) || job;
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error("Job GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch generation job" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/jobs/[id] - Remove a job record (an in-flight job is dropped)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await deleteGenerationJob(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Job DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete generation job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGenerationJobs, type GenerationJob } from "@/lib/supabase";
+
+// Force dynamic - job status changes between requests
+export const dynamic = "force-dynamic";
+
+// GET /api/jobs - List generation jobs, optionally filtered by project_id, status and since
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("project_id");
+    const status = searchParams.get("status");
+    const since = searchParams.get("since");
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+
+    const jobs = await getGenerationJobs(projectId || undefined, {
+      statuses: status ? (status.split(",") as GenerationJob["status"][]) : undefined,
+      since: since || undefined,
+      limit: Number.isNaN(limit) ? 50 : Math.min(limit, 200),
+    });
+
+    return NextResponse.json(jobs);
+  } catch (error) {
+    console.error("Jobs GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch generation jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { createMockLaunchKit, isMockMode } from "@/lib/mock-providers";
+import { parseOpenAIUsage, recordUsage } from "@/lib/usage";
+
+const OPENAI_MODEL = "gpt-4o-2024-08-06";
 
 const SYSTEM_PROMPT = `You are a practical launch strategist who turns any idea into a scannable content kit.
 
@@ -111,6 +115,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const selectedPlatforms =
+      Array.isArray(platforms) && platforms.length > 0
+        ? platforms.slice(0, 5)
+        : ["tiktok", "instagram", "x", "linkedin"];
+
+    if (isMockMode()) {
+      after(() => recordUsage({ route: "launch-kit", provider: "mock", model: OPENAI_MODEL }));
+      return NextResponse.json({
+        success: true,
+        kit: createMockLaunchKit({ idea, audience, goal, tone, style, platforms: selectedPlatforms }),
+      });
+    }
+
     if (!process.env.OPENAI_API_KEY) {
       return NextResponse.json(
         { error: "OpenAI API key not configured" },
@@ -118,11 +135,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const selectedPlatforms =
-      Array.isArray(platforms) && platforms.length > 0
-        ? platforms.slice(0, 5)
-        : ["tiktok", "instagram", "x", "linkedin"];
-
     const userPrompt = [
       `Idea or product: ${idea}`.trim(),
       audience ? `Audience: ${audience}` : null,
@@ -136,6 +148,7 @@ export async function POST(request: NextRequest) {
       .filter(Boolean)
       .join("\n");
 
+    const startedAt = Date.now();
     const response = await fetch("https://api.openai.com/v1/chat/completions", {
       method: "POST",
       headers: {
@@ -143,7 +156,7 @@ export async function POST(request: NextRequest) {
         Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
       },
       body: JSON.stringify({
-        model: "gpt-4o-2024-08-06",
+        model: OPENAI_MODEL,
         messages: [
           { role: "system", content: SYSTEM_PROMPT },
           { role: "user", content: userPrompt },
@@ -167,6 +180,16 @@ export async function POST(request: NextRequest) {
     }
 
     const data = await response.json();
+    const durationMs = Date.now() - startedAt;
+    after(() =>
+      recordUsage({
+        route: "launch-kit",
+        provider: "openai",
+        model: OPENAI_MODEL,
+        durationMs,
+        ...parseOpenAIUsage(data),
+      })
+    );
     const content = data?.choices?.[0]?.message?.content;
 
     if (!content) {
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { exportProjectArchive } from "@/lib/project-archive";
+
+// Downloading every image in a large project can take a while
+export const maxDuration = 300;
+
+// GET /api/projects/[id]/export - Download the project as a ZIP (manifest + files)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const archive = await exportProjectArchive(id);
+    if (!archive) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(archive.data), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${archive.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Project export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export project" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importProjectArchive, ProjectArchiveError } from "@/lib/project-archive";
+
+// Re-uploading every archived file can take a while
+export const maxDuration = 300;
+
+// POST /api/projects/import - Create a project from an export ZIP (multipart "file" field)
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json(
+        { error: "A project ZIP file is required" },
+        { status: 400 }
+      );
+    }
+
+    const project = await importProjectArchive(await file.arrayBuffer());
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error("Project import error:", error);
+    if (error instanceof ProjectArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Failed to import project" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { normalizeVersionLabel } from "@/lib/design-versions";
+
+type RouteParams = { params: Promise<{ id: string; designId: string }> };
+
+// GET /api/rooms/[id]/designs/[designId] - Get one design version
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, designId } = await params;
+
+    const { data, error } = await supabase
+      .from("room_designs")
+      .select("*")
+      .eq("id", designId)
+      .eq("room_id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching room design:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Design version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Room design GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch room design" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/rooms/[id]/designs/[designId] - Rename a version (its content is immutable)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, designId } = await params;
+    const body = await request.json();
+
+    if (!("label" in body) || (body.label !== null && typeof body.label !== "string")) {
+      return NextResponse.json(
+        { error: "Only the label of a design version can be changed" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("room_designs")
+      .update({ label: normalizeVersionLabel(body.label), updated_at: new Date().toISOString() })
+      .eq("id", designId)
+      .eq("room_id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating room design label:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Design version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Room design PATCH error:", error);
+    return NextResponse.json(
+      { error: "Failed to update room design" },
+      { status: 500 }
+    );
+  }
+}
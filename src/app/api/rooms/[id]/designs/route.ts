@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import type { Database } from "@/lib/database.types";
+import { isRoomDesignSource, normalizeVersionLabel } from "@/lib/design-versions";
 
-// GET /api/rooms/[id]/designs - Get all designs for a room
+type RoomDesignInsert = Database["public"]["Tables"]["room_designs"]["Insert"];
+
+// Postgres unique_violation - two versions raced for the same number
+const UNIQUE_VIOLATION = "23505";
+
+// GET /api/rooms/[id]/designs - Get all design versions for a room, newest first
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -13,7 +20,7 @@ export async function GET(
       .from("room_designs")
       .select("*")
       .eq("room_id", id)
-      .order("created_at", { ascending: false });
+      .order("version_number", { ascending: false });
 
     if (error) {
       console.error("Error fetching room designs:", error);
@@ -30,7 +37,7 @@ export async function GET(
   }
 }
 
-// POST /api/rooms/[id]/designs - Save a new design for a room
+// POST /api/rooms/[id]/designs - Save a new design version (or restore an old one as a new version)
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -38,118 +45,92 @@ export async function POST(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { design_json, prompt, reference_image_urls, before_image_url, rendered_image_url } = body;
+    const {
+      design_json,
+      prompt,
+      reference_image_urls,
+      before_image_url,
+      rendered_image_url,
+      source = "manual",
+      restore_from,
+    } = body;
+    const label = normalizeVersionLabel(body.label);
+
+    let version: RoomDesignInsert;
+    if (restore_from !== undefined) {
+      if (typeof restore_from !== "string") {
+        return NextResponse.json({ error: "restore_from must be a design id" }, { status: 400 });
+      }
 
-    if (!design_json) {
-      return NextResponse.json(
-        { error: "design_json is required" },
-        { status: 400 }
-      );
-    }
+      const { data: original, error: originalError } = await supabase
+        .from("room_designs")
+        .select("*")
+        .eq("id", restore_from)
+        .eq("room_id", id)
+        .maybeSingle();
 
-    const { data, error } = await supabase
-      .from("room_designs")
-      .insert({
+      if (originalError) {
+        console.error("Error fetching design to restore:", originalError);
+        return NextResponse.json({ error: originalError.message }, { status: 500 });
+      }
+      if (!original) {
+        return NextResponse.json({ error: "Design version not found" }, { status: 404 });
+      }
+
+      version = {
+        room_id: id,
+        design_json: original.design_json,
+        prompt: original.prompt,
+        reference_image_urls: original.reference_image_urls,
+        before_image_url: original.before_image_url,
+        rendered_image_url: original.rendered_image_url,
+        label: label || `Restored from v${original.version_number}`,
+        source: "restore",
+        restored_from_id: original.id,
+      };
+    } else {
+      if (!design_json) {
+        return NextResponse.json(
+          { error: "design_json is required" },
+          { status: 400 }
+        );
+      }
+      if (!isRoomDesignSource(source) || source === "restore") {
+        return NextResponse.json(
+          { error: "source must be generate, render or manual" },
+          { status: 400 }
+        );
+      }
+
+      version = {
         room_id: id,
         design_json,
         prompt: prompt || null,
         reference_image_urls: reference_image_urls || [],
         before_image_url: before_image_url || null,
         rendered_image_url: rendered_image_url || null,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error("Error saving room design:", error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
+        label,
+        source,
+      };
     }
 
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Room designs POST error:", error);
-    return NextResponse.json(
-      { error: "Failed to save room design" },
-      { status: 500 }
-    );
-  }
-}
-
-// PATCH /api/rooms/[id]/designs - Update the latest design for a room
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { id } = await params;
-    const body = await request.json();
-    const { design_id, design_json, before_image_url, rendered_image_url } = body;
-
-    // Build the update object - only include fields that are provided
-    const updates: Record<string, unknown> = {
-      updated_at: new Date().toISOString(),
-    };
-    if (design_json !== undefined) updates.design_json = design_json;
-    if (before_image_url !== undefined) updates.before_image_url = before_image_url;
-    if (rendered_image_url !== undefined) updates.rendered_image_url = rendered_image_url;
-
-    // If design_id provided, update that specific design
-    // Otherwise, update the latest design for this room
-    let designIdToUpdate = design_id;
-
-    if (!designIdToUpdate) {
-      const { data: latestDesign } = await supabase
-        .from("room_designs")
-        .select("id")
-        .eq("room_id", id)
-        .order("created_at", { ascending: false })
-        .limit(1)
-        .single();
-
-      if (latestDesign) {
-        designIdToUpdate = latestDesign.id;
-      } else {
-        // No existing design, create a new one
-        const { data, error } = await supabase
-          .from("room_designs")
-          .insert({
-            room_id: id,
-            design_json: design_json || {},
-            before_image_url: before_image_url || null,
-            rendered_image_url: rendered_image_url || null,
-          })
-          .select()
-          .single();
-
-        if (error) {
-          console.error("Error creating room design:", error);
-          return NextResponse.json({ error: error.message }, { status: 500 });
-        }
-
-        return NextResponse.json(data);
-      }
+    // The version number is assigned by a trigger; retry once if another save took it
+    let result = await supabase.from("room_designs").insert(version).select().single();
+    if (result.error?.code === UNIQUE_VIOLATION) {
+      result = await supabase.from("room_designs").insert(version).select().single();
     }
 
-    const { data, error } = await supabase
-      .from("room_designs")
-      .update(updates)
-      .eq("id", designIdToUpdate)
-      .select()
-      .single();
-
-    if (error) {
-      console.error("Error updating room design:", error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
+    if (result.error) {
+      console.error("Error saving room design:", result.error);
+      return NextResponse.json({ error: result.error.message }, { status: 500 });
     }
 
-    return NextResponse.json(data);
+    return NextResponse.json(result.data);
   } catch (error) {
-    console.error("Room designs PATCH error:", error);
+    console.error("Room designs POST error:", error);
     return NextResponse.json(
-      { error: "Failed to update room design" },
+      { error: "Failed to save room design" },
       { status: 500 }
     );
   }
 }
-
-
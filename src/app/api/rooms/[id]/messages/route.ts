@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import type { Database } from "@/lib/database.types";
+import { isDesignMessageRole } from "@/lib/design-messages";
+
+type DesignMessageInsert = Database["public"]["Tables"]["design_messages"]["Insert"];
+
+// GET /api/rooms/[id]/messages - Get the design chat thread for a room, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { data, error } = await supabase
+      .from("design_messages")
+      .select("*")
+      .eq("room_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching design messages:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Design messages GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch design messages" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/rooms/[id]/messages - Append messages to a room's design chat
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      return NextResponse.json(
+        { error: "messages must be a non-empty list" },
+        { status: 400 }
+      );
+    }
+
+    // NOW() is the same for every row of one insert, so stamp each message
+    // a millisecond apart to keep the turn in order
+    const sentAt = Date.now();
+    const rows: DesignMessageInsert[] = [];
+    for (const [index, message] of body.messages.entries()) {
+      if (!isDesignMessageRole(message?.role) || typeof message.content !== "string" || !message.content.trim()) {
+        return NextResponse.json(
+          { error: "Each message needs a role (user or assistant) and content" },
+          { status: 400 }
+        );
+      }
+      rows.push({
+        created_at: new Date(sentAt + index).toISOString(),
+        room_id: id,
+        role: message.role,
+        content: message.content,
+        patch: message.patch ?? null,
+        design_id: typeof message.design_id === "string" ? message.design_id : null,
+      });
+    }
+
+    const { data, error } = await supabase
+      .from("design_messages")
+      .insert(rows)
+      .select()
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error saving design messages:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Design messages POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to save design messages" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
 
-// GET /api/rooms/[id] - Get a single room with its latest design
+// GET /api/rooms/[id] - Get a single room with its latest design version
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -29,7 +29,7 @@ export async function GET(
       .from("room_designs")
       .select("*")
       .eq("room_id", id)
-      .order("created_at", { ascending: false })
+      .order("version_number", { ascending: false })
       .limit(1)
       .single();
 
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { collectStorageGarbage } from "@/lib/storage-gc";
+
+// Force dynamic - always scan the current storage contents
+export const dynamic = "force-dynamic";
+
+// Bucket-wide scans can take a while
+export const maxDuration = 300;
+
+// Callers must send STORAGE_GC_SECRET as a bearer token
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+// Without a secret anyone could purge storage, so the route stays disabled
+function checkAccess(request: NextRequest): NextResponse | null {
+  const secret = process.env.STORAGE_GC_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: "Storage GC is disabled. Set STORAGE_GC_SECRET to enable it." },
+      { status: 503 }
+    );
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+function parseMinAgeHours(value: unknown): number | undefined {
+  const hours = Number(value);
+  return value !== null && value !== undefined && value !== "" && Number.isFinite(hours) && hours >= 0
+    ? hours
+    : undefined;
+}
+
+// GET /api/storage-gc - Dry run: report orphaned files and rows with missing files
+export async function GET(request: NextRequest) {
+  const denied = checkAccess(request);
+  if (denied) return denied;
+
+  try {
+    const report = await collectStorageGarbage({
+      dryRun: true,
+      minAgeHours: parseMinAgeHours(request.nextUrl.searchParams.get("minAgeHours")),
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Storage GC error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to scan storage" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/storage-gc - Purge what the dry run reports (send { dryRun: true } to preview)
+export async function POST(request: NextRequest) {
+  const denied = checkAccess(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const report = await collectStorageGarbage({
+      dryRun: body.dryRun === true,
+      minAgeHours: parseMinAgeHours(body.minAgeHours),
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Storage GC error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to clean up storage" },
+      { status: 500 }
+    );
+  }
+}
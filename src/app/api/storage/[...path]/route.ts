@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorageBackend } from "@/lib/storage";
+import { createLocalStorage, getContentType } from "@/lib/storage-server";
+
+// Stored files are user uploads: never let the browser run them as a page
+const SAFE_FILE_HEADERS = {
+  "Content-Security-Policy": "sandbox",
+  "X-Content-Type-Options": "nosniff",
+};
+
+// Files only exist when the local backend is enabled
+function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+// Next has already decoded the segments - decoding again would turn "%25" into a different name
+async function getStoragePath(params: Promise<{ path: string[] }>): Promise<string> {
+  const { path } = await params;
+  return path.join("/");
+}
+
+// GET /api/storage/[...path] - Serve a file from local storage
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (getStorageBackend() !== "local") return notFound();
+
+  try {
+    const storagePath = await getStoragePath(params);
+    const data = await createLocalStorage().get(storagePath);
+    if (!data) return notFound();
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        ...SAFE_FILE_HEADERS,
+        "Content-Type": getContentType(storagePath),
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Storage GET error:", error);
+    return NextResponse.json({ error: "Failed to read file" }, { status: 500 });
+  }
+}
+
+// HEAD /api/storage/[...path] - Check whether a file exists in local storage
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (getStorageBackend() !== "local") return new NextResponse(null, { status: 404 });
+
+  try {
+    const storagePath = await getStoragePath(params);
+    const exists = await createLocalStorage().exists(storagePath);
+    return new NextResponse(null, {
+      status: exists ? 200 : 404,
+      headers: { ...SAFE_FILE_HEADERS, "Content-Type": getContentType(storagePath) },
+    });
+  } catch (error) {
+    console.error("Storage HEAD error:", error);
+    return new NextResponse(null, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createStoragePath, getStorageBackend } from "@/lib/storage";
+import { createLocalStorage, UPLOAD_CONTENT_TYPES } from "@/lib/storage-server";
+
+// Folder names like "uploads" or "draw-to-edit"
+const PREFIX_PATTERN = /^[a-z0-9-]+(\/[a-z0-9-]+)*$/i;
+
+// Force dynamic - the file list changes between requests
+export const dynamic = "force-dynamic";
+
+// GET /api/storage - List files in local storage (optionally under ?prefix=)
+export async function GET(request: NextRequest) {
+  if (getStorageBackend() !== "local") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const prefix = request.nextUrl.searchParams.get("prefix") || "";
+    const entries = await createLocalStorage().list(prefix);
+    return NextResponse.json(entries);
+  } catch (error) {
+    console.error("Storage list error:", error);
+    return NextResponse.json({ error: "Failed to list files" }, { status: 500 });
+  }
+}
+
+// POST /api/storage?prefix=uploads - Upload an image (raw request body) to local storage under a new name
+export async function POST(request: NextRequest) {
+  if (getStorageBackend() !== "local") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const prefix = request.nextUrl.searchParams.get("prefix") || "uploads";
+  if (!PREFIX_PATTERN.test(prefix)) {
+    return NextResponse.json({ error: "Invalid prefix" }, { status: 400 });
+  }
+
+  const contentType = (request.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+  const extension = UPLOAD_CONTENT_TYPES[contentType];
+  if (!extension) {
+    return NextResponse.json(
+      { error: `Unsupported content type: ${contentType || "none"}. Upload PNG, JPEG, WebP or GIF images.` },
+      { status: 415 }
+    );
+  }
+
+  try {
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (data.byteLength === 0) {
+      return NextResponse.json({ error: "Empty upload" }, { status: 400 });
+    }
+
+    // A fresh path per upload, so clients can't overwrite existing files
+    const stored = await createLocalStorage().put(createStoragePath(prefix, extension), data, contentType);
+    return NextResponse.json(stored, { status: 201 });
+  } catch (error) {
+    console.error("Storage upload error:", error);
+    return NextResponse.json({ error: "Failed to store file" }, { status: 500 });
+  }
+}
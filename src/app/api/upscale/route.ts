@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import sharp from "sharp";
+import { isProviderConfigured, runFal } from "@/lib/image-providers";
+import { isMockMode } from "@/lib/mock-providers";
+import {
+  getProviderImageUrl,
+  ImageOperationError,
+  loadSourceImage,
+  saveDerivedImage,
+  type SourceImage,
+} from "@/lib/image-operations";
+import { getServerStorage } from "@/lib/storage-server";
+import {
+  isUpscaleFactor,
+  MAX_UPSCALED_DIMENSION,
+  type UpscaleFactor,
+  type UpscaleMethod,
+} from "@/lib/upscale";
+
+// Provider upscales of large images can take a while
+export const maxDuration = 300;
+
+const ESRGAN_ENDPOINT = "fal-ai/esrgan";
+
+// Stored on generated_images.model for each method
+const UPSCALE_MODEL_NAMES: Record<UpscaleMethod, string> = {
+  esrgan: ESRGAN_ENDPOINT,
+  lanczos: "sharp/lanczos3",
+};
+
+function encode(image: sharp.Sharp, format: string): Promise<Buffer> {
+  return format === "jpg" ? image.jpeg({ quality: 95 }).toBuffer() : image.png().toBuffer();
+}
+
+// Offline fallback: a plain Lanczos resize (no added detail, but no provider needed)
+async function upscaleWithLanczos(source: SourceImage, factor: UpscaleFactor, format: string): Promise<Buffer> {
+  const image = sharp(source.buffer).resize(source.width * factor, source.height * factor, {
+    kernel: sharp.kernel.lanczos3,
+    fit: "fill",
+  });
+  return encode(image, format);
+}
+
+async function upscaleWithEsrgan(source: SourceImage, factor: UpscaleFactor, format: string): Promise<Buffer> {
+  const output = (await runFal(ESRGAN_ENDPOINT, {
+    image_url: await getProviderImageUrl(source),
+    scale: factor,
+    model: "RealESRGAN_x4plus",
+    output_format: format === "jpg" ? "jpeg" : "png",
+  })) as { image?: { url?: string } };
+
+  if (!output.image?.url) {
+    throw new Error("No image URL returned from the upscaler");
+  }
+  const response = await fetch(output.image.url, { signal: AbortSignal.timeout(60000) });
+  if (!response.ok) throw new Error(`Failed to download upscaled image (${response.status})`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// Resolution label for the stored row, e.g. 4096px -> "4K"
+function formatResolution(width: number, height: number): string {
+  return `${Math.round(Math.max(width, height) / 1024)}K`;
+}
+
+// POST /api/upscale - Upscale a generated image and save it as a child generation
+export async function POST(request: NextRequest) {
+  try {
+    const { imageId, imageUrl, factor, projectId } = await request.json();
+
+    if (!isUpscaleFactor(factor)) {
+      return NextResponse.json({ error: "factor must be 2 or 4" }, { status: 400 });
+    }
+
+    const storage = getServerStorage();
+    if (!storage) {
+      return NextResponse.json({ error: "Storage is not configured" }, { status: 503 });
+    }
+
+    const source = await loadSourceImage(storage, { imageId, imageUrl });
+    if (!source) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    const width = source.width * factor;
+    const height = source.height * factor;
+    if (Math.max(width, height) > MAX_UPSCALED_DIMENSION) {
+      return NextResponse.json(
+        { error: `Image is too large to upscale ${factor}× (max ${MAX_UPSCALED_DIMENSION}px)` },
+        { status: 400 }
+      );
+    }
+
+    const format = source.row?.output_format === "jpg" ? "jpg" : "png";
+    const method: UpscaleMethod =
+      !isMockMode() && isProviderConfigured("fal") ? "esrgan" : "lanczos";
+    const upscaled =
+      method === "esrgan"
+        ? await upscaleWithEsrgan(source, factor, format)
+        : await upscaleWithLanczos(source, factor, format);
+
+    const image = await saveDerivedImage(storage, source, {
+      buffer: upscaled,
+      format,
+      model: UPSCALE_MODEL_NAMES[method],
+      fallbackPrompt: `Upscaled ${factor}×`,
+      resolution: formatResolution(width, height),
+      projectId: typeof projectId === "string" ? projectId : null,
+    });
+
+    return NextResponse.json({ image, method, width, height });
+  } catch (error) {
+    console.error("Upscale error:", error);
+    if (error instanceof ImageOperationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to upscale image" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect, Suspense } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { cn } from "@/lib/utils";
@@ -32,65 +32,43 @@ import {
   Wand2,
   Image as ImageLucide,
   Pencil,
+  RefreshCw,
+  Lock,
+  LockOpen,
 } from "lucide-react";
 import { ChangeEvent, DragEvent } from "react";
-import { Project, Room, RoomDesign } from "@/lib/database.types";
+import { DesignMessage, Json, Project, Room, RoomDesign } from "@/lib/database.types";
 import { Comparison } from "@/components/ui/comparison";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { AnnotateButton } from "@/components/image-annotator";
-
-// Model types for image generation
-type ModelType = "nano-banana-pro" | "seedream-edit" | "google-nano-banana";
-
-interface ModelOption {
-  value: ModelType;
-  label: string;
-  description: string;
-}
-
-const MODEL_OPTIONS: ModelOption[] = [
-  { value: "nano-banana-pro", label: "Nano Banana Pro", description: "FAL • Fast editing" },
-  { value: "google-nano-banana", label: "Google Nano Banana", description: "Replicate • Versatile" },
-  { value: "seedream-edit", label: "Seedream 4.5 Edit", description: "FAL • High quality" },
-];
-
-// JSON structure types
-interface DesignItem {
-  id: string;
-  label: string;
-  materials: string[];
-  colors: string[];
-}
-
-interface DesignCategory {
-  materials_overall: string[];
-  items: DesignItem[];
-}
-
-interface DesignMeta {
-  title: string;
-  style_tags: string[];
-  summary: string;
-}
-
-interface DesignJSON {
-  meta: DesignMeta;
-  shell: {
-    ceiling: DesignCategory;
-    walls: DesignCategory;
-    floor: DesignCategory;
-    windows_and_trims: DesignCategory;
-    doors_and_trims: DesignCategory;
-    built_ins: DesignCategory;
-  };
-  interior: {
-    layout_and_zoning: DesignCategory;
-    furniture: DesignCategory;
-    lighting: DesignCategory;
-    textiles: DesignCategory;
-    decor_and_art: DesignCategory;
-  };
-}
+import { DesignVersionTimeline } from "@/components/design-version-timeline";
+import { DesignDiffView } from "@/components/design-diff-view";
+import { DesignChatPanel } from "@/components/design-chat-panel";
+import { DEFAULT_IMAGE_MODEL, getImageEditingModels, getImageModel } from "@/lib/image-models";
+import { runGenerationJob } from "@/lib/generation-jobs";
+import {
+  getDesignVersions,
+  labelDesignVersion,
+  restoreDesignVersion,
+  saveDesignVersion,
+  type NewDesignVersion,
+} from "@/lib/design-versions";
+import {
+  DESIGN_CATEGORIES,
+  emptyDesignJSON,
+  formatCategoryName,
+  getDesignCategory,
+  getDesignCategoryPath,
+  type DesignCategory,
+  type DesignCategoryRef,
+  type DesignItem,
+  type DesignJSON,
+} from "@/lib/design-json";
+import { applyDesignPatch, countDesignPatchChanges } from "@/lib/design-patch";
+import { getDesignMessages, saveDesignMessages, sendDesignChat } from "@/lib/design-messages";
+
+// Renders edit the uploaded room photo, so only image-input models apply
+const MODEL_OPTIONS = getImageEditingModels();
 
 // Category icons mapping
 const categoryIcons: Record<string, React.ReactNode> = {
@@ -107,14 +85,6 @@ const categoryIcons: Record<string, React.ReactNode> = {
   decor_and_art: <Frame className="w-3.5 h-3.5" />,
 };
 
-// Format category name for display
-function formatCategoryName(name: string): string {
-  return name
-    .split("_")
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(" ");
-}
-
 // Editable label component for inline text editing
 function EditableLabel({
   value,
@@ -185,26 +155,6 @@ function EditableLabel({
   );
 }
 
-// Empty design JSON template
-const emptyDesignJSON: DesignJSON = {
-  meta: { title: "", style_tags: [], summary: "" },
-  shell: {
-    ceiling: { materials_overall: [], items: [] },
-    walls: { materials_overall: [], items: [] },
-    floor: { materials_overall: [], items: [] },
-    windows_and_trims: { materials_overall: [], items: [] },
-    doors_and_trims: { materials_overall: [], items: [] },
-    built_ins: { materials_overall: [], items: [] },
-  },
-  interior: {
-    layout_and_zoning: { materials_overall: [], items: [] },
-    furniture: { materials_overall: [], items: [] },
-    lighting: { materials_overall: [], items: [] },
-    textiles: { materials_overall: [], items: [] },
-    decor_and_art: { materials_overall: [], items: [] },
-  },
-};
-
 // Tag component for displaying materials/colors
 function TagBadge({
   label,
@@ -367,6 +317,36 @@ function AddTagInput({
   );
 }
 
+// Lock toggle for items and categories the client has approved
+function LockButton({
+  locked,
+  onToggle,
+  className,
+}: {
+  locked?: boolean;
+  onToggle: () => void;
+  className?: string;
+}) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle();
+      }}
+      className={cn(
+        "p-1 rounded transition-all",
+        locked
+          ? "text-lime-400 hover:bg-lime-500/10"
+          : "text-zinc-600 hover:text-white hover:bg-zinc-800",
+        className
+      )}
+      title={locked ? "Locked: kept as-is when regenerating. Click to unlock" : "Lock to keep as-is when regenerating"}
+    >
+      {locked ? <Lock className="w-3.5 h-3.5" /> : <LockOpen className="w-3.5 h-3.5" />}
+    </button>
+  );
+}
+
 // Category section component
 function CategorySection({
   name,
@@ -379,11 +359,17 @@ function CategorySection({
   onUpdateItem,
   onDeleteItem,
   onRenameCategory,
+  onRegenerate,
+  isRegenerating = false,
+  onToggleLock,
 }: {
   name: string;
   category: DesignCategory;
   isExpanded: boolean;
   onToggle: () => void;
+  onRegenerate?: () => void;
+  isRegenerating?: boolean;
+  onToggleLock?: () => void;
   onUpdateMaterialsOverall?: (materials: string[]) => void;
   onAddMaterial?: (material: string) => void;
   onRemoveMaterial?: (material: string) => void;
@@ -446,6 +432,24 @@ function CategorySection({
             {category.items.length || category.materials_overall.length}
           </span>
         )}
+        {onToggleLock && <LockButton locked={category.locked} onToggle={onToggleLock} />}
+        {onRegenerate && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRegenerate();
+            }}
+            disabled={isRegenerating || category.locked}
+            className="p-1 text-zinc-500 hover:text-lime-400 hover:bg-lime-500/10 rounded transition-colors disabled:opacity-50 disabled:hover:text-zinc-500 disabled:hover:bg-transparent"
+            title={category.locked ? "Unlock this category to regenerate it" : "Regenerate this category (uses the prompt box as instructions)"}
+          >
+            {isRegenerating ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <RefreshCw className="w-3.5 h-3.5" />
+            )}
+          </button>
+        )}
       </div>
 
       {isExpanded && (
@@ -522,6 +526,13 @@ function CategorySection({
                     {item.label}
                   </p>
                 )}
+                {isEditable && onUpdateItem && (
+                  <LockButton
+                    locked={item.locked}
+                    onToggle={() => onUpdateItem(item.id, { locked: !item.locked })}
+                    className={cn("ml-auto", !item.locked && "opacity-0 group-hover:opacity-100")}
+                  />
+                )}
                 {isEditable && onDeleteItem && (
                   <button
                     onClick={() => onDeleteItem(item.id)}
@@ -681,6 +692,28 @@ function DesignerPageContent() {
   const [isLoadingRooms, setIsLoadingRooms] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+
+  // Saved versions of the selected room, newest first
+  const [designVersions, setDesignVersions] = useState<RoomDesign[]>([]);
+  const [loadedVersionId, setLoadedVersionId] = useState<string | null>(null);
+  const [restoringVersionId, setRestoringVersionId] = useState<string | null>(null);
+  const [comparingVersionId, setComparingVersionId] = useState<string | null>(null);
+  const [versionError, setVersionError] = useState<string | null>(null);
+  // Design of the latest saved version, to tell edits apart from loads
+  const savedDesignRef = useRef<DesignJSON | null>(null);
+
+  // Design chat thread, tagged with its room so a stale thread is never shown
+  const [chatThread, setChatThread] = useState<{ roomId: string | null; messages: DesignMessage[] }>({
+    roomId: null,
+    messages: [],
+  });
+  const [pendingChatMessage, setPendingChatMessage] = useState<string | null>(null);
+  const [isChatSending, setIsChatSending] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const chatMessages = useMemo(
+    () => (chatThread.roomId === selectedRoom?.id ? chatThread.messages : []),
+    [chatThread, selectedRoom?.id]
+  );
   const [showNewRoomInput, setShowNewRoomInput] = useState(false);
   const [newRoomName, setNewRoomName] = useState("");
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -693,6 +726,9 @@ function DesignerPageContent() {
   const [prompt, setPrompt] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationError, setGenerationError] = useState<string | null>(null);
+  // Category being regenerated on its own, e.g. "interior.lighting"
+  const [regeneratingCategory, setRegeneratingCategory] = useState<string | null>(null);
+  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
 
   // Image upload state
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
@@ -704,7 +740,7 @@ function DesignerPageContent() {
   const [showModelSelector, setShowModelSelector] = useState(false);
 
   // Image rendering state
-  const [selectedModel, setSelectedModel] = useState<ModelType>("nano-banana-pro");
+  const [selectedModel, setSelectedModel] = useState<string>(DEFAULT_IMAGE_MODEL);
   const [renderedImage, setRenderedImage] = useState<string | null>(null);
   const [beforeImage, setBeforeImage] = useState<string | null>(null); // Track the "before" image for comparison
   const [isRenderingImage, setIsRenderingImage] = useState(false);
@@ -787,55 +823,55 @@ function DesignerPageContent() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedProject?.id]); // Only re-run when project ID changes
 
-  // Load design when room changes
+  // Load a saved version (or nothing) into the editor
+  const applyVersion = useCallback((version: RoomDesign | null) => {
+    const design = (version?.design_json as DesignJSON | undefined) || emptyDesignJSON;
+    savedDesignRef.current = design;
+    setDesignJSON(design);
+    setUploadedImages(version?.before_image_url ? [version.before_image_url] : []);
+    setSelectedImageIndex(0);
+    setRenderedImage(version?.rendered_image_url || null);
+    setBeforeImage(null);
+    setLoadedVersionId(version?.id || null);
+    setHasUnsavedChanges(false);
+  }, []);
+
+  // Load the room's versions when the room changes, starting from the latest
   useEffect(() => {
+    setVersionError(null);
     if (!selectedRoom) {
-      setDesignJSON(emptyDesignJSON);
-      setUploadedImages([]);
-      setSelectedImageIndex(0);
-      setRenderedImage(null); setBeforeImage(null);
+      setDesignVersions([]);
+      applyVersion(null);
       return;
     }
 
-    const loadRoomDesign = async () => {
-      try {
-        const response = await fetch(`/api/rooms/${selectedRoom.id}`);
-        if (response.ok) {
-          const data = await response.json();
-          if (data.latest_design?.design_json) {
-            const design = data.latest_design.design_json as DesignJSON;
-            setDesignJSON(design);
-          } else {
-            setDesignJSON(emptyDesignJSON);
-          }
-          
-          // Load saved images
-          if (data.latest_design?.before_image_url) {
-            setUploadedImages([data.latest_design.before_image_url]);
-            setSelectedImageIndex(0);
-          } else {
-            setUploadedImages([]);
-            setSelectedImageIndex(0);
-          }
-          if (data.latest_design?.rendered_image_url) {
-            setRenderedImage(data.latest_design.rendered_image_url);
-          } else {
-            setRenderedImage(null); setBeforeImage(null);
-          }
-          
-          setHasUnsavedChanges(false);
-        }
-      } catch (error) {
+    let cancelled = false;
+    getDesignVersions(selectedRoom.id)
+      .then((versions) => {
+        if (cancelled) return;
+        setDesignVersions(versions);
+        applyVersion(versions[0] || null);
+      })
+      .catch((error) => {
         console.error("Error loading room design:", error);
-      }
+      });
+    const roomId = selectedRoom.id;
+    getDesignMessages(roomId)
+      .then((messages) => {
+        if (!cancelled) setChatThread({ roomId, messages });
+      })
+      .catch((error) => {
+        console.error("Error loading design chat:", error);
+      });
+    return () => {
+      cancelled = true;
     };
-    loadRoomDesign();
-  }, [selectedRoom?.id]);
+  }, [selectedRoom?.id, applyVersion]);
 
   // Track unsaved changes
   useEffect(() => {
     if (selectedRoom) {
-      setHasUnsavedChanges(true);
+      setHasUnsavedChanges(designJSON !== savedDesignRef.current);
     }
   }, [designJSON]);
 
@@ -892,31 +928,72 @@ function DesignerPageContent() {
     }
   }, [roomToDelete, selectedRoom]);
 
-  // Save design to current room
+  // Save a new immutable version of the selected room's design
+  const recordVersion = useCallback(
+    async (design: DesignJSON, version: Omit<NewDesignVersion, "design_json">) => {
+      if (!selectedRoom) return;
+      const saved = await saveDesignVersion(selectedRoom.id, {
+        ...version,
+        design_json: design as unknown as Json,
+      });
+      savedDesignRef.current = design;
+      setDesignVersions((prev) => [saved, ...prev]);
+      setLoadedVersionId(saved.id);
+      setHasUnsavedChanges(false);
+      return saved;
+    },
+    [selectedRoom]
+  );
+
+  // Save the current edits as a new version
   const saveDesign = useCallback(async () => {
     if (!selectedRoom) return;
 
     setIsSaving(true);
     try {
-      const response = await fetch(`/api/rooms/${selectedRoom.id}/designs`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          design_json: designJSON,
-          before_image_url: uploadedImages[0] || null,
-          rendered_image_url: renderedImage || null,
-        }),
+      await recordVersion(designJSON, {
+        source: "manual",
+        before_image_url: uploadedImages[0] || null,
+        rendered_image_url: renderedImage || null,
       });
-
-      if (response.ok) {
-        setHasUnsavedChanges(false);
-      }
     } catch (error) {
       console.error("Error saving design:", error);
     } finally {
       setIsSaving(false);
     }
-  }, [selectedRoom, designJSON, uploadedImages, renderedImage]);
+  }, [selectedRoom, designJSON, uploadedImages, renderedImage, recordVersion]);
+
+  // Copy an earlier version into a new latest version and load it
+  const restoreVersion = useCallback(async (version: RoomDesign) => {
+    if (!selectedRoom) return;
+    if (hasUnsavedChanges && !confirm(`Discard unsaved changes and restore v${version.version_number}?`)) return;
+
+    setRestoringVersionId(version.id);
+    setVersionError(null);
+    try {
+      const restored = await restoreDesignVersion(selectedRoom.id, version.id);
+      setDesignVersions((prev) => [restored, ...prev]);
+      applyVersion(restored);
+    } catch (error) {
+      console.error("Error restoring design version:", error);
+      setVersionError(error instanceof Error ? error.message : "Failed to restore version");
+    } finally {
+      setRestoringVersionId(null);
+    }
+  }, [selectedRoom, hasUnsavedChanges, applyVersion]);
+
+  const renameVersion = useCallback(async (version: RoomDesign, label: string | null) => {
+    if (!selectedRoom) return;
+
+    setVersionError(null);
+    try {
+      const updated = await labelDesignVersion(selectedRoom.id, version.id, label);
+      setDesignVersions((prev) => prev.map((existing) => (existing.id === updated.id ? updated : existing)));
+    } catch (error) {
+      console.error("Error renaming design version:", error);
+      setVersionError(error instanceof Error ? error.message : "Failed to rename version");
+    }
+  }, [selectedRoom]);
 
   // Convert design JSON to an image generation prompt
   const designToPrompt = useCallback((design: DesignJSON): string => {
@@ -933,9 +1010,20 @@ function DesignerPageContent() {
       parts.push(design.meta.summary);
     }
 
-    // Collect all materials and colors
-    const allMaterials: string[] = [];
-    const allColors: string[] = [];
+    // Locked pieces are spelled out first so the render keeps them
+    const lockedItems = [...Object.values(design.shell), ...Object.values(design.interior)].flatMap((cat) =>
+      cat.items.filter((item) => cat.locked || item.locked)
+    );
+    if (lockedItems.length > 0) {
+      const pieces = lockedItems.map((item) =>
+        [item.label, [...item.materials, ...item.colors].join(" ")].filter(Boolean).join(" in ")
+      );
+      parts.push(`Must include exactly: ${pieces.join("; ")}`);
+    }
+
+    // Collect all materials and colors, locked ones first so they survive the cut below
+    const allMaterials: string[] = lockedItems.flatMap((item) => item.materials);
+    const allColors: string[] = lockedItems.flatMap((item) => item.colors);
 
     // From shell
     Object.values(design.shell).forEach((cat) => {
@@ -989,29 +1077,18 @@ function DesignerPageContent() {
     try {
       const imagePrompt = designToPrompt(design);
       
-      // Use appropriate aspect ratio based on model
-      // FAL models use "auto", Replicate uses "match_input_image"
-      const aspectRatio = selectedModel === "google-nano-banana" ? "match_input_image" : "auto";
+      // Use the model's default aspect ratio (keeps the input framing)
+      const aspectRatio = getImageModel(selectedModel)?.defaults.aspectRatio || "auto";
       
-      const response = await fetch("/api/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          prompt: imagePrompt,
-          imageInputs: uploadedImages, // Send ALL uploaded images as context
-          model: selectedModel,
-          aspectRatio,
-          outputFormat: "png",
-          resolution: "2K",
-        }),
+      const data = await runGenerationJob({
+        prompt: imagePrompt,
+        imageInputs: uploadedImages, // Send ALL uploaded images as context
+        model: selectedModel,
+        aspectRatio,
+        outputFormat: "png",
+        resolution: "2K",
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to render image");
-      }
-
       if (data.imageUrl) {
         setRenderedImage(data.imageUrl);
         
@@ -1019,22 +1096,16 @@ function DesignerPageContent() {
         setUploadedImages([data.imageUrl]);
         setSelectedImageIndex(0);
         
-        // Auto-save the rendered image and design JSON to the room
-        if (selectedRoom) {
-          try {
-            await fetch(`/api/rooms/${selectedRoom.id}/designs`, {
-              method: "PATCH",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                design_json: design,
-                rendered_image_url: data.imageUrl,
-                before_image_url: uploadedImages[0] || null,
-              }),
-            });
-            setHasUnsavedChanges(false);
-          } catch (saveError) {
-            console.error("Error auto-saving rendered image:", saveError);
-          }
+        // Auto-save the render as a new version of the room's design
+        try {
+          await recordVersion(design, {
+            source: "render",
+            prompt: imagePrompt,
+            rendered_image_url: data.imageUrl,
+            before_image_url: uploadedImages[0] || null,
+          });
+        } catch (saveError) {
+          console.error("Error auto-saving rendered image:", saveError);
         }
       }
     } catch (error) {
@@ -1043,7 +1114,7 @@ function DesignerPageContent() {
     } finally {
       setIsRenderingImage(false);
     }
-  }, [uploadedImages, selectedModel, designToPrompt, selectedRoom]);
+  }, [uploadedImages, selectedModel, designToPrompt, recordVersion]);
 
   // Render using current designJSON state
   const renderDesignImage = useCallback(async () => {
@@ -1164,6 +1235,27 @@ function DesignerPageContent() {
     []
   );
 
+  // Lock or unlock a whole category
+  const toggleCategoryLock = useCallback(
+    (section: "shell" | "interior", categoryName: string) => {
+      setDesignJSON((prev) => {
+        const sectionData = prev[section] as Record<string, DesignCategory>;
+        const category = sectionData[categoryName];
+        return {
+          ...prev,
+          [section]: {
+            ...sectionData,
+            [categoryName]: {
+              ...category,
+              locked: !category.locked,
+            },
+          },
+        };
+      });
+    },
+    []
+  );
+
   // Delete an item
   const deleteItem = useCallback(
     (section: "shell" | "interior", categoryName: string, itemId: string) => {
@@ -1372,6 +1464,9 @@ function DesignerPageContent() {
           // Send all images for better context (images are compressed)
           images: uploadedImages.length > 0 ? uploadedImages : undefined,
           roomName: selectedRoom?.name,
+          projectId: selectedProject?.id,
+          // Carries the locked items and categories to keep
+          currentDesign: hasContent ? designJSON : undefined,
         }),
       });
 
@@ -1386,20 +1481,15 @@ function DesignerPageContent() {
         setPrompt(""); // Clear prompt after success
         setRenderedImage(null); setBeforeImage(null); // Clear previous render
         
-        // Auto-save if room is selected
-        if (selectedRoom) {
-          try {
-            await fetch(`/api/rooms/${selectedRoom.id}/designs`, {
-              method: "PATCH",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                design_json: data.design,
-              }),
-            });
-            setHasUnsavedChanges(false);
-          } catch (saveError) {
-            console.error("Error auto-saving design:", saveError);
-          }
+        // Auto-save as a new version of the room's design
+        try {
+          await recordVersion(data.design, {
+            source: "generate",
+            prompt: effectivePrompt,
+            before_image_url: uploadedImages[0] || null,
+          });
+        } catch (saveError) {
+          console.error("Error auto-saving design:", saveError);
         }
 
         // Auto-start image rendering if we have a reference image
@@ -1416,7 +1506,130 @@ function DesignerPageContent() {
     } finally {
       setIsGenerating(false);
     }
-  }, [prompt, uploadedImages, hasContent, designJSON, selectedRoom, renderDesignImageWithDesign]);
+  }, [prompt, uploadedImages, hasContent, designJSON, selectedRoom, selectedProject, recordVersion, renderDesignImageWithDesign]);
+
+  // Rewrite a single category; the server keeps the rest of the design as it is
+  const regenerateCategory = useCallback(async (category: DesignCategoryRef) => {
+    if (regeneratingCategory || isGenerating) return;
+    const target = getDesignCategoryPath(category);
+    const instruction = prompt.trim();
+
+    setRegeneratingCategory(target);
+    setGenerationError(null);
+
+    try {
+      const response = await fetch("/api/designer", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: instruction || undefined,
+          images: uploadedImages.length > 0 ? uploadedImages : undefined,
+          roomName: selectedRoom?.name,
+          projectId: selectedProject?.id,
+          currentDesign: designJSON,
+          targets: [target],
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to regenerate category");
+      }
+
+      if (data.design) {
+        setDesignJSON(data.design);
+        if (instruction) setPrompt("");
+
+        try {
+          await recordVersion(data.design, {
+            source: "generate",
+            prompt: `${formatCategoryName(category.name)}: ${instruction || "regenerated"}`,
+            before_image_url: uploadedImages[0] || null,
+          });
+        } catch (saveError) {
+          console.error("Error auto-saving design:", saveError);
+        }
+      }
+    } catch (error) {
+      console.error("Category regeneration error:", error);
+      setGenerationError(
+        error instanceof Error ? error.message : "Failed to regenerate category"
+      );
+    } finally {
+      setRegeneratingCategory(null);
+    }
+  }, [regeneratingCategory, isGenerating, prompt, uploadedImages, designJSON, selectedRoom, selectedProject, recordVersion]);
+
+  const toggleCategory = useCallback((path: string) => {
+    setExpandedCategories((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  }, []);
+
+  // Send a chat turn, apply the returned patch as a new version, then save the turn
+  const sendChatMessage = useCallback(async (content: string) => {
+    if (!selectedRoom || isChatSending) return;
+    const roomId = selectedRoom.id;
+
+    setPendingChatMessage(content);
+    setIsChatSending(true);
+    setChatError(null);
+
+    try {
+      const { reply, patch } = await sendDesignChat({
+        messages: [
+          ...chatMessages.map((message) => ({ role: message.role, content: message.content })),
+          { role: "user", content },
+        ],
+        currentDesign: designJSON,
+        roomName: selectedRoom.name,
+        projectId: selectedProject?.id,
+      });
+
+      const changes = countDesignPatchChanges(patch);
+      let designId: string | null = null;
+      if (changes > 0) {
+        const patched = applyDesignPatch(designJSON, patch);
+        setDesignJSON(patched);
+        try {
+          const saved = await recordVersion(patched, {
+            source: "generate",
+            prompt: content,
+            before_image_url: uploadedImages[0] || null,
+          });
+          designId = saved?.id || null;
+        } catch (saveError) {
+          console.error("Error auto-saving design:", saveError);
+        }
+      }
+
+      const saved = await saveDesignMessages(roomId, [
+        { role: "user", content },
+        {
+          role: "assistant",
+          content: reply || (changes > 0 ? "Updated the design." : "No changes."),
+          patch: changes > 0 ? (patch as unknown as Json) : null,
+          design_id: designId,
+        },
+      ]);
+      setChatThread((prev) =>
+        prev.roomId === roomId ? { roomId, messages: [...prev.messages, ...saved] } : prev
+      );
+    } catch (error) {
+      console.error("Design chat error:", error);
+      setChatError(error instanceof Error ? error.message : "Failed to send message");
+    } finally {
+      setPendingChatMessage(null);
+      setIsChatSending(false);
+    }
+  }, [selectedRoom, isChatSending, chatMessages, designJSON, selectedProject, uploadedImages, recordVersion]);
 
   // Clear design
   const clearDesign = useCallback(() => {
@@ -2010,6 +2223,7 @@ function DesignerPageContent() {
                               });
                               if (renderedImage) setRenderedImage(null); setBeforeImage(null);
                             }}
+                            projectId={selectedProject?.id}
                             className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 py-2 sm:py-1.5 bg-violet-500/20 hover:bg-violet-500/30 text-violet-400 rounded-lg transition-colors border border-violet-500/20 text-sm"
                           >
                             <Pencil className="w-4 h-4" />
@@ -2105,29 +2319,29 @@ function DesignerPageContent() {
                                 className="flex items-center gap-1.5 px-2 py-1 bg-zinc-800/80 hover:bg-zinc-700 border border-zinc-700 rounded-lg text-xs transition-colors"
                               >
                                 <Wand2 className="w-3 h-3 text-violet-400" />
-                                <span className="text-zinc-300 hidden sm:inline">{MODEL_OPTIONS.find(m => m.value === selectedModel)?.label}</span>
-                                <span className="text-zinc-300 sm:hidden">{MODEL_OPTIONS.find(m => m.value === selectedModel)?.label.split(' ')[0]}</span>
+                                <span className="text-zinc-300 hidden sm:inline">{MODEL_OPTIONS.find(m => m.id === selectedModel)?.label}</span>
+                                <span className="text-zinc-300 sm:hidden">{MODEL_OPTIONS.find(m => m.id === selectedModel)?.label.split(' ')[0]}</span>
                                 <ChevronDown className={cn("w-3 h-3 text-zinc-500 transition-transform", showModelSelector && "rotate-180")} />
                               </button>
                               {showModelSelector && (
                                 <div className="absolute bottom-full left-0 mb-1 w-48 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl z-20 overflow-hidden">
                                   {MODEL_OPTIONS.map((model) => (
                                     <button
-                                      key={model.value}
+                                      key={model.id}
                                       onClick={() => {
-                                        setSelectedModel(model.value);
+                                        setSelectedModel(model.id);
                                         setShowModelSelector(false);
                                       }}
                                       className={cn(
                                         "w-full flex items-center gap-2 px-3 py-2 text-left transition-colors text-sm",
-                                        selectedModel === model.value
+                                        selectedModel === model.id
                                           ? "bg-violet-500/20 text-violet-300"
                                           : "text-zinc-300 hover:bg-zinc-800"
                                       )}
                                     >
                                       <div className={cn(
                                         "w-2 h-2 rounded-full",
-                                        selectedModel === model.value ? "bg-violet-400" : "bg-zinc-600"
+                                        selectedModel === model.id ? "bg-violet-400" : "bg-zinc-600"
                                       )} />
                                       <div>
                                         <p className="font-medium">{model.label}</p>
@@ -2179,6 +2393,40 @@ function DesignerPageContent() {
                   </div>
                 )}
 
+                {/* Version Timeline */}
+                {designVersions.length > 0 && (
+                  <DesignVersionTimeline
+                    versions={designVersions}
+                    currentVersionId={loadedVersionId}
+                    restoringId={restoringVersionId}
+                    error={versionError}
+                    onRestore={restoreVersion}
+                    onRename={renameVersion}
+                    onCompare={(version) => setComparingVersionId(version.id)}
+                  />
+                )}
+
+                {/* Design Chat */}
+                {selectedRoom && (
+                  <DesignChatPanel
+                    messages={chatMessages}
+                    pendingMessage={pendingChatMessage}
+                    isSending={isChatSending}
+                    error={chatError}
+                    versions={designVersions}
+                    onSend={sendChatMessage}
+                  />
+                )}
+
+                {comparingVersionId && designVersions.some((version) => version.id === comparingVersionId) && (
+                  <DesignDiffView
+                    versions={designVersions}
+                    initialBeforeId={comparingVersionId}
+                    initialAfterId={designVersions[0].id}
+                    onClose={() => setComparingVersionId(null)}
+                  />
+                )}
+
                 {/* Meta Header - with skeleton loading */}
                 {isGenerating && !hasContent ? (
                   /* Skeleton for Meta Header */
@@ -2233,6 +2481,37 @@ function DesignerPageContent() {
                   </div>
                 ) : null}
 
+                {/* Categories - each can be regenerated on its own */}
+                {hasContent && (
+                  <div className="bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
+                    <div className="px-3 py-2 border-b border-zinc-800 text-sm font-medium text-zinc-300">
+                      By Category
+                    </div>
+                    {DESIGN_CATEGORIES.map((ref) => {
+                      const path = getDesignCategoryPath(ref);
+                      const category = getDesignCategory(designJSON, ref.section, ref.name);
+                      if (!category) return null;
+                      return (
+                        <CategorySection
+                          key={path}
+                          name={ref.name}
+                          category={category}
+                          isExpanded={expandedCategories.has(path)}
+                          onToggle={() => toggleCategory(path)}
+                          onUpdateMaterialsOverall={(materials) => updateMaterialsOverall(ref.section, ref.name, materials)}
+                          onAddMaterial={(material) => addMaterialToCategory(ref.section, ref.name, material)}
+                          onRemoveMaterial={(material) => removeMaterialFromCategory(ref.section, ref.name, material)}
+                          onUpdateItem={(itemId, updates) => updateItem(ref.section, ref.name, itemId, updates)}
+                          onDeleteItem={(itemId) => deleteItem(ref.section, ref.name, itemId)}
+                          onToggleLock={() => toggleCategoryLock(ref.section, ref.name)}
+                          onRegenerate={() => regenerateCategory(ref)}
+                          isRegenerating={regeneratingCategory === path}
+                        />
+                      );
+                    })}
+                  </div>
+                )}
+
                 {/* All Items Grid - with skeleton loading */}
                 {isGenerating && !hasContent ? (
                   /* Skeleton for Design Elements */
@@ -2323,13 +2602,20 @@ function DesignerPageContent() {
                                   />
                                 </div>
                               </div>
-                              <button
-                                onClick={() => deleteItem("shell", category, item.id)}
-                                className="p-1 text-zinc-600 hover:text-red-400 hover:bg-red-500/10 rounded opacity-0 group-hover:opacity-100 transition-all"
-                                title="Remove item"
-                              >
-                                <Trash2 className="w-3.5 h-3.5" />
-                              </button>
+                              <div className="flex items-center">
+                                <LockButton
+                                  locked={item.locked}
+                                  onToggle={() => updateItem("shell", category, item.id, { locked: !item.locked })}
+                                  className={cn(!item.locked && "opacity-0 group-hover:opacity-100")}
+                                />
+                                <button
+                                  onClick={() => deleteItem("shell", category, item.id)}
+                                  className="p-1 text-zinc-600 hover:text-red-400 hover:bg-red-500/10 rounded opacity-0 group-hover:opacity-100 transition-all"
+                                  title="Remove item"
+                                >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                              </div>
                             </div>
                             {/* Materials */}
                             <div className="flex flex-wrap gap-1 items-center mb-1">
@@ -2420,13 +2706,20 @@ function DesignerPageContent() {
                                   />
                                 </div>
                               </div>
-                              <button
-                                onClick={() => deleteItem("interior", category, item.id)}
-                                className="p-1 text-zinc-600 hover:text-red-400 hover:bg-red-500/10 rounded opacity-0 group-hover:opacity-100 transition-all"
-                                title="Remove item"
-                              >
-                                <Trash2 className="w-3.5 h-3.5" />
-                              </button>
+                              <div className="flex items-center">
+                                <LockButton
+                                  locked={item.locked}
+                                  onToggle={() => updateItem("interior", category, item.id, { locked: !item.locked })}
+                                  className={cn(!item.locked && "opacity-0 group-hover:opacity-100")}
+                                />
+                                <button
+                                  onClick={() => deleteItem("interior", category, item.id)}
+                                  className="p-1 text-zinc-600 hover:text-red-400 hover:bg-red-500/10 rounded opacity-0 group-hover:opacity-100 transition-all"
+                                  title="Remove item"
+                                >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                              </div>
                             </div>
                             {/* Materials */}
                             <div className="flex flex-wrap gap-1 items-center mb-1">
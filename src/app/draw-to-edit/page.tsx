@@ -2,42 +2,40 @@
 
 import { useState, useRef, useEffect, useCallback, Suspense } from "react";
 import Link from "next/link";
+import dynamic from "next/dynamic";
 import { useRouter, useSearchParams } from "next/navigation";
 import { cn } from "@/lib/utils";
-import { saveGeneratedImage, getGeneratedImages, getProject, type Project } from "@/lib/supabase";
+import {
+  getGeneratedImages,
+  getProject,
+  saveAnnotation,
+  getLatestAnnotation,
+  type Project,
+} from "@/lib/supabase";
 import { supabase } from "@/lib/supabase";
+import { runGenerationJob } from "@/lib/generation-jobs";
+import {
+  createAnnotationDocument,
+  extractAnnotationInstructions,
+  parseAnnotationDocument,
+  scaleAnnotationShapes,
+  DEFAULT_ANNOTATION_PROMPT,
+  type AnnotationShape,
+} from "@/lib/annotations";
 import {
-  MousePointer2,
   Pencil,
-  Eraser,
-  Square,
-  ArrowRight,
-  Type,
-  Undo2,
-  Redo2,
   Trash2,
   Upload,
   Sparkles,
   Download,
   ChevronDown,
-  Minus,
   X,
   Loader2,
   ZoomIn,
   FolderOpen,
 } from "lucide-react";
 import { Comparison } from "@/components/ui/comparison";
-
-type Tool = "select" | "pen" | "eraser" | "rectangle" | "circle" | "arrow" | "text" | "line";
-type DrawAction = {
-  type: Tool;
-  points?: { x: number; y: number }[];
-  start?: { x: number; y: number };
-  end?: { x: number; y: number };
-  text?: string;
-  color: string;
-  lineWidth: number;
-};
+import type { SketchBackground, SketchHandle } from "@/components/sketch-editor";
 
 type GeneratedImage = {
   id: string;
@@ -46,18 +44,47 @@ type GeneratedImage = {
   prompt: string;
 };
 
-const COLORS = [
-  "#ef4444", // red
-  "#f97316", // orange
-  "#eab308", // yellow
-  "#22c55e", // green
-  "#06b6d4", // cyan
-  "#3b82f6", // blue
-  "#8b5cf6", // purple
-  "#ec4899", // pink
-  "#ffffff", // white
-  "#000000", // black
-];
+// The tldraw editor touches window on import, so it only loads in the browser
+const SketchEditor = dynamic(
+  () => import("@/components/sketch-editor").then((mod) => mod.SketchEditor),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="absolute inset-0 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-lime-400 animate-spin" />
+      </div>
+    ),
+  }
+);
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read image"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+// What the editor is (re)mounted with; `key` forces a fresh editor per sketch
+type SketchSession = {
+  key: number;
+  background: SketchBackground;
+  snapshot?: unknown;
+  shapes?: AnnotationShape[];
+  // Generated image the sketch was reopened from; results become its children
+  sourceImageId?: string;
+};
+
+// Natural size of an image file
+function readImageSize(url: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Failed to read image"));
+    img.src = url;
+  });
+}
 
 export default function DrawToEdit() {
   return (
@@ -70,33 +97,16 @@ export default function DrawToEdit() {
 function DrawToEditContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const sketchRef = useRef<SketchHandle | null>(null);
+  const sketchKeyRef = useRef(0);
   
   // Project state
   const [currentProject, setCurrentProject] = useState<Project | null>(null);
   const [projectLoading, setProjectLoading] = useState(true);
   
-  // Image state
-  const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
-  const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
-  
-  // Drawing state
-  const [tool, setTool] = useState<Tool>("pen");
-  const [color, setColor] = useState("#ef4444");
-  const [lineWidth, setLineWidth] = useState(4);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [currentPath, setCurrentPath] = useState<{ x: number; y: number }[]>([]);
-  const [startPoint, setStartPoint] = useState<{ x: number; y: number } | null>(null);
-  
-  // History for undo/redo
-  const [actions, setActions] = useState<DrawAction[]>([]);
-  const [redoStack, setRedoStack] = useState<DrawAction[]>([]);
-  
-  // Text input
-  const [textInput, setTextInput] = useState("");
-  const [textPosition, setTextPosition] = useState<{ x: number; y: number } | null>(null);
-  const [showTextInput, setShowTextInput] = useState(false);
+  // Sketch state: the photo being drawn on, plus a saved snapshot when reopening
+  const [sketch, setSketch] = useState<SketchSession | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
   
   // Generation
   const [isGenerating, setIsGenerating] = useState(false);
@@ -150,407 +160,156 @@ function DrawToEditContent() {
     loadProject();
   }, [searchParams, router]);
 
-  // Draw everything on canvas
-  const redrawCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw background image if exists
-    if (backgroundImage) {
-      ctx.drawImage(backgroundImage, 0, 0, canvas.width, canvas.height);
-    } else {
-      // Draw placeholder grid
-      ctx.fillStyle = "#18181b";
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      ctx.strokeStyle = "#27272a";
-      ctx.lineWidth = 1;
-      const gridSize = 40;
-      for (let x = 0; x < canvas.width; x += gridSize) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, canvas.height);
-        ctx.stroke();
-      }
-      for (let y = 0; y < canvas.height; y += gridSize) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(canvas.width, y);
-        ctx.stroke();
-      }
-    }
-
-    // Draw all actions
-    actions.forEach((action) => {
-      ctx.strokeStyle = action.color;
-      ctx.fillStyle = action.color;
-      ctx.lineWidth = action.lineWidth;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-
-      switch (action.type) {
-        case "pen":
-          if (action.points && action.points.length > 0) {
-            ctx.beginPath();
-            ctx.moveTo(action.points[0].x, action.points[0].y);
-            action.points.forEach((point) => {
-              ctx.lineTo(point.x, point.y);
-            });
-            ctx.stroke();
-          }
-          break;
-        case "eraser":
-          if (action.points && action.points.length > 0) {
-            ctx.save();
-            ctx.globalCompositeOperation = "destination-out";
-            ctx.beginPath();
-            ctx.moveTo(action.points[0].x, action.points[0].y);
-            action.points.forEach((point) => {
-              ctx.lineTo(point.x, point.y);
-            });
-            ctx.stroke();
-            ctx.restore();
-          }
-          break;
-        case "line":
-          if (action.start && action.end) {
-            ctx.beginPath();
-            ctx.moveTo(action.start.x, action.start.y);
-            ctx.lineTo(action.end.x, action.end.y);
-            ctx.stroke();
-          }
-          break;
-        case "rectangle":
-          if (action.start && action.end) {
-            ctx.strokeRect(
-              action.start.x,
-              action.start.y,
-              action.end.x - action.start.x,
-              action.end.y - action.start.y
-            );
-          }
-          break;
-        case "circle":
-          if (action.start && action.end) {
-            const radiusX = Math.abs(action.end.x - action.start.x) / 2;
-            const radiusY = Math.abs(action.end.y - action.start.y) / 2;
-            const centerX = action.start.x + (action.end.x - action.start.x) / 2;
-            const centerY = action.start.y + (action.end.y - action.start.y) / 2;
-            ctx.beginPath();
-            ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
-            ctx.stroke();
-          }
-          break;
-        case "arrow":
-          if (action.start && action.end) {
-            const headLength = 15;
-            const dx = action.end.x - action.start.x;
-            const dy = action.end.y - action.start.y;
-            const angle = Math.atan2(dy, dx);
-            
-            // Draw line
-            ctx.beginPath();
-            ctx.moveTo(action.start.x, action.start.y);
-            ctx.lineTo(action.end.x, action.end.y);
-            ctx.stroke();
-            
-            // Draw arrowhead
-            ctx.beginPath();
-            ctx.moveTo(action.end.x, action.end.y);
-            ctx.lineTo(
-              action.end.x - headLength * Math.cos(angle - Math.PI / 6),
-              action.end.y - headLength * Math.sin(angle - Math.PI / 6)
-            );
-            ctx.moveTo(action.end.x, action.end.y);
-            ctx.lineTo(
-              action.end.x - headLength * Math.cos(angle + Math.PI / 6),
-              action.end.y - headLength * Math.sin(angle + Math.PI / 6)
-            );
-            ctx.stroke();
-          }
-          break;
-        case "text":
-          if (action.start && action.text) {
-            ctx.font = `${action.lineWidth * 4}px sans-serif`;
-            ctx.fillText(action.text, action.start.x, action.start.y);
-          }
-          break;
-      }
-    });
-
-    // Draw current path while drawing
-    if (isDrawing && currentPath.length > 0) {
-      ctx.strokeStyle = tool === "eraser" ? "#ffffff" : color;
-      ctx.lineWidth = lineWidth;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-      
-      if (tool === "eraser") {
-        ctx.save();
-        ctx.globalCompositeOperation = "destination-out";
-      }
-      
-      ctx.beginPath();
-      ctx.moveTo(currentPath[0].x, currentPath[0].y);
-      currentPath.forEach((point) => {
-        ctx.lineTo(point.x, point.y);
-      });
-      ctx.stroke();
-      
-      if (tool === "eraser") {
-        ctx.restore();
-      }
-    }
-
-    // Draw shape preview
-    if (isDrawing && startPoint && ["rectangle", "circle", "arrow", "line"].includes(tool)) {
-      const lastPoint = currentPath[currentPath.length - 1] || startPoint;
-      ctx.strokeStyle = color;
-      ctx.lineWidth = lineWidth;
-      ctx.setLineDash([5, 5]);
-      
-      if (tool === "rectangle") {
-        ctx.strokeRect(
-          startPoint.x,
-          startPoint.y,
-          lastPoint.x - startPoint.x,
-          lastPoint.y - startPoint.y
-        );
-      } else if (tool === "circle") {
-        const radiusX = Math.abs(lastPoint.x - startPoint.x) / 2;
-        const radiusY = Math.abs(lastPoint.y - startPoint.y) / 2;
-        const centerX = startPoint.x + (lastPoint.x - startPoint.x) / 2;
-        const centerY = startPoint.y + (lastPoint.y - startPoint.y) / 2;
-        ctx.beginPath();
-        ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
-        ctx.stroke();
-      } else if (tool === "arrow" || tool === "line") {
-        ctx.beginPath();
-        ctx.moveTo(startPoint.x, startPoint.y);
-        ctx.lineTo(lastPoint.x, lastPoint.y);
-        ctx.stroke();
-        
-        if (tool === "arrow") {
-          const headLength = 15;
-          const dx = lastPoint.x - startPoint.x;
-          const dy = lastPoint.y - startPoint.y;
-          const angle = Math.atan2(dy, dx);
-          ctx.beginPath();
-          ctx.moveTo(lastPoint.x, lastPoint.y);
-          ctx.lineTo(
-            lastPoint.x - headLength * Math.cos(angle - Math.PI / 6),
-            lastPoint.y - headLength * Math.sin(angle - Math.PI / 6)
-          );
-          ctx.moveTo(lastPoint.x, lastPoint.y);
-          ctx.lineTo(
-            lastPoint.x - headLength * Math.cos(angle + Math.PI / 6),
-            lastPoint.y - headLength * Math.sin(angle + Math.PI / 6)
-          );
-          ctx.stroke();
-        }
-      }
-      ctx.setLineDash([]);
-    }
-  }, [actions, backgroundImage, color, currentPath, isDrawing, lineWidth, startPoint, tool]);
-
-  useEffect(() => {
-    redrawCanvas();
-  }, [redrawCanvas]);
-
-  // Get mouse position relative to canvas
-  const getCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    return {
-      x: (e.clientX - rect.left) * scaleX,
-      y: (e.clientY - rect.top) * scaleY,
-    };
+  const openSketch = (
+    background: SketchBackground,
+    saved?: { snapshot?: unknown; shapes?: AnnotationShape[]; sourceImageId?: string }
+  ) => {
+    sketchRef.current = null;
+    sketchKeyRef.current += 1;
+    setSketch({ key: sketchKeyRef.current, background, ...saved });
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const point = getCanvasPoint(e);
-    
-    if (tool === "text") {
-      setTextPosition(point);
-      setShowTextInput(true);
-      return;
-    }
-    
-    setIsDrawing(true);
-    setStartPoint(point);
-    setCurrentPath([point]);
-  };
+  const handleSketchMount = useCallback((handle: SketchHandle) => {
+    sketchRef.current = handle;
+  }, []);
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
-    const point = getCanvasPoint(e);
-    setCurrentPath((prev) => [...prev, point]);
-  };
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
 
-  const handleMouseUp = () => {
-    if (!isDrawing) return;
-    setIsDrawing(false);
-
-    if (tool === "pen" || tool === "eraser") {
-      if (currentPath.length > 0) {
-        setActions((prev) => [
-          ...prev,
-          { type: tool, points: currentPath, color, lineWidth },
-        ]);
-        setRedoStack([]);
+    setIsUploading(true);
+    const objectUrl = URL.createObjectURL(file);
+    try {
+      const size = await readImageSize(objectUrl);
+      // Store the photo so the sketch snapshot can point at it; a local URL still lets you draw
+      let url = objectUrl;
+      try {
+        const { uploadBlobToStorage } = await import("@/lib/image-utils");
+        url = await uploadBlobToStorage(file, "draw-to-edit", file.type || "image/png");
+      } catch (error) {
+        console.error("Failed to upload background, using local file:", error);
       }
-    } else if (["rectangle", "circle", "arrow", "line"].includes(tool) && startPoint) {
-      const endPoint = currentPath[currentPath.length - 1] || startPoint;
-      setActions((prev) => [
-        ...prev,
-        { type: tool, start: startPoint, end: endPoint, color, lineWidth },
-      ]);
-      setRedoStack([]);
-    }
-
-    setCurrentPath([]);
-    setStartPoint(null);
-  };
-
-  const handleTextSubmit = () => {
-    if (textInput && textPosition) {
-      setActions((prev) => [
-        ...prev,
-        { type: "text", start: textPosition, text: textInput, color, lineWidth },
-      ]);
-      setRedoStack([]);
+      openSketch({ url, ...size, mimeType: file.type || null });
+    } catch (err) {
+      console.error("Failed to load image:", err);
+      alert(err instanceof Error ? err.message : "Failed to load image");
+    } finally {
+      setIsUploading(false);
     }
-    setShowTextInput(false);
-    setTextInput("");
-    setTextPosition(null);
-  };
-
-  const handleUndo = () => {
-    if (actions.length === 0) return;
-    const lastAction = actions[actions.length - 1];
-    setActions((prev) => prev.slice(0, -1));
-    setRedoStack((prev) => [...prev, lastAction]);
   };
 
-  const handleRedo = () => {
-    if (redoStack.length === 0) return;
-    const lastRedo = redoStack[redoStack.length - 1];
-    setRedoStack((prev) => prev.slice(0, -1));
-    setActions((prev) => [...prev, lastRedo]);
-  };
-
-  const handleClear = () => {
-    setActions([]);
-    setRedoStack([]);
+  // Store the tldraw document behind a submitted drawing so it can be reopened
+  const saveDrawingLayers = async (sketchHandle: SketchHandle, annotatedImageUrl: string) => {
+    const { background } = sketchHandle;
+    await saveAnnotation({
+      projectId: currentProject?.id || null,
+      sourceImageUrl: background.url,
+      annotatedImageUrl,
+      document: createAnnotationDocument(
+        "draw-to-edit",
+        background.width,
+        background.height,
+        sketchHandle.getShapes(),
+        sketchHandle.getSnapshot()
+      ),
+    });
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const img = new Image();
-    img.onload = () => {
-      setBackgroundImage(img);
-      // Adjust canvas size to image aspect ratio
-      const maxWidth = 1200;
-      const maxHeight = 800;
-      let width = img.width;
-      let height = img.height;
-      
-      if (width > maxWidth) {
-        height = (maxWidth / width) * height;
-        width = maxWidth;
+  // Reopen the sketch behind a past generation on its original photo
+  const handleEditDrawing = async (image: GeneratedImage) => {
+    try {
+      const annotation = await getLatestAnnotation(image.inputUrl);
+      const document = annotation && parseAnnotationDocument(annotation.data);
+      const sourceUrl = annotation?.source_image_url;
+      if (!document || document.editor !== "draw-to-edit" || !sourceUrl) {
+        alert("No saved drawing was found for this image");
+        return;
       }
-      if (height > maxHeight) {
-        width = (maxHeight / height) * width;
-        height = maxHeight;
+
+      if (document.snapshot) {
+        openSketch(
+          { url: sourceUrl, width: document.width, height: document.height, mimeType: null },
+          { snapshot: document.snapshot, sourceImageId: image.id }
+        );
+      } else {
+        // Drawings saved before the tldraw editor only have flat shapes, in the
+        // old canvas size - rebuild them on the photo at its full size
+        const size = await readImageSize(sourceUrl);
+        openSketch(
+          { url: sourceUrl, ...size, mimeType: null },
+          { shapes: scaleAnnotationShapes(document, size.width, size.height), sourceImageId: image.id }
+        );
       }
-      
-      setCanvasSize({ width, height });
-      setActions([]); // Clear drawings when new image is uploaded
-      setRedoStack([]);
-    };
-    img.src = URL.createObjectURL(file);
-    e.target.value = "";
+      setFullView(null);
+    } catch (err) {
+      console.error("Failed to load drawing:", err);
+      alert(err instanceof Error ? err.message : "Failed to load drawing");
+    }
   };
 
   const handleGenerate = async () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    const sketchHandle = sketchRef.current;
+    if (!sketchHandle) return;
+    const { background } = sketchHandle;
     
-    if (!prompt.trim()) {
+    // Text labels on the drawing can stand in for the prompt
+    const instructions = extractAnnotationInstructions(
+      createAnnotationDocument("draw-to-edit", background.width, background.height, sketchHandle.getShapes())
+    );
+    const hasLabels = instructions.some((instruction) => instruction.label);
+    if (!prompt.trim() && !hasLabels) {
       alert("Please enter a prompt describing what changes you want");
       return;
     }
+    const editPrompt = prompt.trim() ? prompt : DEFAULT_ANNOTATION_PROMPT;
 
     setIsGenerating(true);
     
     try {
-      // Convert canvas to data URL (this includes the background + drawings)
-      const dataUrl = canvas.toDataURL("image/png");
+      // Flatten the photo and drawing into one image
+      const blob = await sketchHandle.exportImage();
       
-      // Upload data URL to Supabase before sending to API to prevent "request too large" errors
-      const { uploadDataUrlToSupabase } = await import("@/lib/image-utils");
-      let imageUrl = dataUrl;
+      // Upload before sending to API to prevent "request too large" errors
+      const { uploadBlobToStorage } = await import("@/lib/image-utils");
+      let imageUrl: string;
       try {
-        imageUrl = await uploadDataUrlToSupabase(dataUrl, "draw-to-edit");
+        imageUrl = await uploadBlobToStorage(blob, "draw-to-edit", "image/png");
       } catch (error) {
         console.error("Failed to upload image, using data URL:", error);
         // Continue with data URL if upload fails
+        imageUrl = await blobToDataUrl(blob);
       }
-      
-      // Call the generate API
-      const response = await fetch("/api/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          prompt: prompt,
-          imageInputs: [imageUrl], // Now a Supabase URL instead of data URL
-          aspectRatio: "auto",
-          resolution: "2K",
-          numImages: 1,
-          model: "nano-banana-pro",
-        }),
-      });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Generation failed");
+      // Only stored images can be matched back to their sketch
+      if (!imageUrl.startsWith("data:") && !background.url.startsWith("blob:")) {
+        saveDrawingLayers(sketchHandle, imageUrl).catch((error) =>
+          console.error("Failed to save drawing layers:", error)
+        );
       }
-
-      const data = await response.json();
       
-      // API returns imageUrl directly, not images array
+      // Queue the generation and wait for the job to finish; the server saves
+      // the result to the project with its lineage and provider request
+      const data = await runGenerationJob({
+        prompt: editPrompt,
+        imageInputs: [imageUrl], // Now a Supabase URL instead of data URL
+        annotationInstructions: instructions,
+        aspectRatio: "auto",
+        resolution: "2K",
+        numImages: 1,
+        model: "nano-banana-pro",
+        projectId: currentProject?.id,
+        parentImageIds: sketch?.sourceImageId ? [sketch.sourceImageId] : undefined,
+      });
+      
       if (data.imageUrl) {
         const generatedImageUrl = data.imageUrl;
         
-        // Save to database with project association
-        // Note: API already uploads to Supabase, so we use the URL directly
-        const savedImage = await saveGeneratedImage({
-          projectId: currentProject?.id || null,
-          imageUrl: generatedImageUrl,
-          prompt: prompt,
-          inputImageUrls: [dataUrl],
-          settings: {
-            aspectRatio: "auto",
-            resolution: "2K",
-            outputFormat: "png",
-            safetyFilter: "moderate",
-          },
-        });
-        
         const newImage: GeneratedImage = {
-          id: savedImage?.id || Date.now().toString(),
-          inputUrl: dataUrl,
+          id: data.images[0]?.id || Date.now().toString(),
+          inputUrl: imageUrl,
           outputUrl: generatedImageUrl,
-          prompt: prompt,
+          prompt: editPrompt,
         };
         setGeneratedImages(prev => [newImage, ...prev]);
       } else {
@@ -564,14 +323,20 @@ function DrawToEditContent() {
     }
   };
 
-  const handleDownload = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const handleDownload = async () => {
+    const sketchHandle = sketchRef.current;
+    if (!sketchHandle) return;
     
+    const url = URL.createObjectURL(await sketchHandle.exportImage());
     const link = document.createElement("a");
     link.download = "banana-drawing.png";
-    link.href = canvas.toDataURL("image/png");
+    link.href = url;
     link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = () => {
+    sketchRef.current?.clear();
   };
 
   const downloadGeneratedImage = (url: string) => {
@@ -582,16 +347,6 @@ function DrawToEditContent() {
     link.click();
   };
 
-  const tools = [
-    { id: "select", icon: MousePointer2, label: "Select" },
-    { id: "pen", icon: Pencil, label: "Pen" },
-    { id: "eraser", icon: Eraser, label: "Eraser" },
-    { id: "line", icon: Minus, label: "Line" },
-    { id: "rectangle", icon: Square, label: "Rectangle" },
-    { id: "arrow", icon: ArrowRight, label: "Arrow" },
-    { id: "text", icon: Type, label: "Text" },
-  ];
-
   // Show loading state while checking project
   if (projectLoading) {
     return (
@@ -610,7 +365,7 @@ function DrawToEditContent() {
   }
 
   // If no image uploaded, show upload screen
-  if (!backgroundImage) {
+  if (!sketch) {
     return (
       <div className="h-screen bg-zinc-950 text-white flex flex-col overflow-hidden">
         {/* Top Navigation */}
@@ -657,13 +412,19 @@ function DrawToEditContent() {
               Upload an image to start editing. Draw on your image and use AI to transform it.
             </p>
             
-            <label className="inline-flex items-center gap-3 px-6 py-3 bg-lime-400 hover:bg-lime-300 text-black font-semibold rounded-xl cursor-pointer transition-colors">
-              <Upload className="w-5 h-5" />
-              <span>Choose Image</span>
+            <label
+              className={cn(
+                "inline-flex items-center gap-3 px-6 py-3 bg-lime-400 hover:bg-lime-300 text-black font-semibold rounded-xl cursor-pointer transition-colors",
+                isUploading && "opacity-60 pointer-events-none"
+              )}
+            >
+              {isUploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              <span>{isUploading ? "Uploading..." : "Choose Image"}</span>
               <input
                 type="file"
                 accept="image/*"
                 onChange={handleImageUpload}
+                disabled={isUploading}
                 className="hidden"
               />
             </label>
@@ -714,53 +475,17 @@ function DrawToEditContent() {
 
       {/* Main Content Area */}
       <main className="flex-1 flex overflow-hidden">
-        {/* Canvas Area */}
-        <div className="flex-1 flex flex-col items-center justify-center p-4 overflow-hidden">
-          <div 
-            ref={containerRef}
-            className="relative bg-zinc-900 rounded-xl overflow-hidden shadow-2xl border border-zinc-800"
-            style={{ maxWidth: "100%", maxHeight: "calc(100vh - 200px)" }}
-          >
-            <canvas
-              ref={canvasRef}
-              width={canvasSize.width}
-              height={canvasSize.height}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseUp}
-              className="cursor-crosshair"
-              style={{ 
-                maxWidth: "100%", 
-                maxHeight: "calc(100vh - 200px)",
-                objectFit: "contain"
-              }}
+        {/* Sketch Area */}
+        <div className="flex-1 flex flex-col p-4 overflow-hidden">
+          <div className="relative flex-1 bg-zinc-900 rounded-xl overflow-hidden shadow-2xl border border-zinc-800">
+            <SketchEditor
+              key={sketch.key}
+              background={sketch.background}
+              snapshot={sketch.snapshot}
+              shapes={sketch.shapes}
+              onMount={handleSketchMount}
+              className="h-full"
             />
-            
-            {/* Text input overlay */}
-            {showTextInput && textPosition && (
-              <div
-                className="absolute"
-                style={{ left: textPosition.x, top: textPosition.y }}
-              >
-                <input
-                  type="text"
-                  value={textInput}
-                  onChange={(e) => setTextInput(e.target.value)}
-                  onKeyDown={(e) => {
-                    if (e.key === "Enter") handleTextSubmit();
-                    if (e.key === "Escape") {
-                      setShowTextInput(false);
-                      setTextInput("");
-                    }
-                  }}
-                  autoFocus
-                  className="bg-transparent border-2 border-lime-400 text-white px-2 py-1 outline-none min-w-[100px]"
-                  style={{ color, fontSize: `${lineWidth * 4}px` }}
-                  placeholder="Type here..."
-                />
-              </div>
-            )}
 
             {/* Loading overlay */}
             {isGenerating && (
@@ -846,64 +571,6 @@ function DrawToEditContent() {
               </div>
             </div>
 
-            {/* Center: Tools */}
-            <div className="flex items-center gap-1 bg-zinc-800 rounded-lg p-1 border border-zinc-700">
-              {tools.map((t) => (
-                <button
-                  key={t.id}
-                  onClick={() => setTool(t.id as Tool)}
-                  className={cn(
-                    "p-2 rounded-md transition-all",
-                    tool === t.id
-                      ? "bg-zinc-700 text-lime-400"
-                      : "text-zinc-400 hover:text-white hover:bg-zinc-700/50"
-                  )}
-                  title={t.label}
-                >
-                  <t.icon className="w-4 h-4" />
-                </button>
-              ))}
-              
-              {/* Divider */}
-              <div className="w-px h-6 bg-zinc-700 mx-1" />
-              
-              {/* Colors */}
-              <div className="flex items-center gap-0.5">
-                {COLORS.slice(0, 6).map((c) => (
-                  <button
-                    key={c}
-                    onClick={() => setColor(c)}
-                    className={cn(
-                      "w-5 h-5 rounded-full transition-all",
-                      color === c ? "ring-2 ring-white ring-offset-1 ring-offset-zinc-800" : ""
-                    )}
-                    style={{ backgroundColor: c }}
-                  />
-                ))}
-              </div>
-              
-              {/* Divider */}
-              <div className="w-px h-6 bg-zinc-700 mx-1" />
-              
-              {/* Undo/Redo */}
-              <button
-                onClick={handleUndo}
-                disabled={actions.length === 0}
-                className="p-2 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-700/50 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-                title="Undo"
-              >
-                <Undo2 className="w-4 h-4" />
-              </button>
-              <button
-                onClick={handleRedo}
-                disabled={redoStack.length === 0}
-                className="p-2 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-700/50 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-                title="Redo"
-              >
-                <Redo2 className="w-4 h-4" />
-              </button>
-            </div>
-
             {/* Right: Generate & Actions */}
             <div className="flex items-center gap-2">
               {/* Prompt input */}
@@ -940,16 +607,6 @@ function DrawToEditContent() {
               
               {/* More actions */}
               <div className="flex items-center gap-1">
-                <button
-                  onClick={() => setLineWidth(lineWidth === 4 ? 8 : lineWidth === 8 ? 2 : 4)}
-                  className="p-2 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-700/50 transition-all"
-                  title={`Line width: ${lineWidth}px`}
-                >
-                  <div 
-                    className="rounded-full bg-current" 
-                    style={{ width: lineWidth + 4, height: lineWidth + 4 }}
-                  />
-                </button>
                 <button
                   onClick={handleDownload}
                   className="p-2 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-700/50 transition-all"
@@ -1003,6 +660,15 @@ function DrawToEditContent() {
                 <Download className="w-4 h-4" />
                 Download Result
               </button>
+              {!fullView.inputUrl.startsWith("data:") && (
+                <button
+                  onClick={() => handleEditDrawing(fullView)}
+                  className="flex items-center gap-2 px-4 py-2 bg-zinc-800 text-white rounded-lg font-medium hover:bg-zinc-700 transition-colors"
+                >
+                  <Pencil className="w-4 h-4" />
+                  Edit Drawing
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -2,7 +2,10 @@
 
 import { useEffect, useRef, useState, type ChangeEvent } from "react";
 import Link from "next/link";
+import Image from "next/image";
 import { cn } from "@/lib/utils";
+import { runGenerationJob } from "@/lib/generation-jobs";
+import { requestCutout } from "@/lib/cutout";
 import {
   ArrowLeft,
   Check,
@@ -10,6 +13,7 @@ import {
   Image as ImageIcon,
   Loader2,
   Rocket,
+  Scissors,
   Sparkles,
   Target,
   Upload,
@@ -103,6 +107,9 @@ export default function LaunchKitPage() {
   const [extras, setExtras] = useState("");
   const [kit, setKit] = useState<LaunchKit | null>(null);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  // Transparent cutout of the current key visual
+  const [cutoutUrl, setCutoutUrl] = useState<string | null>(null);
+  const [isCuttingOut, setIsCuttingOut] = useState(false);
   const [imagePrompt, setImagePrompt] = useState("");
   const [referenceImage, setReferenceImage] = useState<string | null>(null);
   const [isGeneratingKit, setIsGeneratingKit] = useState(false);
@@ -206,35 +213,27 @@ export default function LaunchKitPage() {
       // Upload data URLs to Supabase before sending to API to prevent "request too large" errors
       let uploadedImageInputs: string[] = [];
       if (referenceImage) {
-        const { uploadDataUrlToSupabase } = await import("@/lib/image-utils");
+        const { uploadDataUrlToStorage } = await import("@/lib/image-utils");
         try {
-          uploadedImageInputs = [await uploadDataUrlToSupabase(referenceImage, "launch-kit")];
+          uploadedImageInputs = [await uploadDataUrlToStorage(referenceImage, "launch-kit")];
         } catch (error) {
           console.error("Failed to upload image, using original:", error);
           uploadedImageInputs = [referenceImage]; // Use original if upload fails
         }
       }
 
-      const response = await fetch("/api/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          prompt: promptText || imagePrompt,
-          imageInputs: uploadedImageInputs,
-          model,
-          aspectRatio: "16:9",
-          resolution: "2K",
-          imageSize: "auto_4K",
-          numImages: 1,
-        }),
+      const data = await runGenerationJob({
+        prompt: promptText || imagePrompt,
+        imageInputs: uploadedImageInputs,
+        model,
+        aspectRatio: "16:9",
+        resolution: "2K",
+        imageSize: "auto_4K",
+        numImages: 1,
       });
 
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.error || "Generation failed");
-      }
-
       setImageUrl(data.imageUrl);
+      setCutoutUrl(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to render visual");
     } finally {
@@ -242,6 +241,20 @@ export default function LaunchKitPage() {
     }
   };
 
+  const cutOutVisual = async () => {
+    if (!imageUrl) return;
+    setError(null);
+    setIsCuttingOut(true);
+    try {
+      const { image } = await requestCutout({ imageUrl });
+      setCutoutUrl(image.image_url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to cut out visual");
+    } finally {
+      setIsCuttingOut(false);
+    }
+  };
+
   const buildPlatformText = (platform: PlatformKit) => {
     const tags = platform.hashtags?.length ? `\n${platform.hashtags.map((t) => `#${t.replace(/^#/, "")}`).join(" ")}` : "";
     return `${platform.hook}\n\n${platform.body}\n\nCTA: ${platform.cta}${tags}`;
@@ -629,13 +642,27 @@ export default function LaunchKitPage() {
                   Key visual
                 </div>
                 {imageUrl && (
-                  <a
-                    href={imageUrl}
-                    download
-                    className="text-xs text-slate-600 hover:text-slate-800 underline"
-                  >
-                    Download
-                  </a>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={cutOutVisual}
+                      disabled={isCuttingOut}
+                      className="inline-flex items-center gap-1 text-xs text-slate-600 hover:text-slate-800 disabled:opacity-50"
+                    >
+                      {isCuttingOut ? (
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      ) : (
+                        <Scissors className="w-3.5 h-3.5" />
+                      )}
+                      Cut out subject
+                    </button>
+                    <a
+                      href={imageUrl}
+                      download
+                      className="text-xs text-slate-600 hover:text-slate-800 underline"
+                    >
+                      Download
+                    </a>
+                  </div>
                 )}
               </div>
               <div className="rounded-xl border border-neutral-200 bg-white overflow-hidden min-h-[240px] flex items-center justify-center shadow-inner">
@@ -661,6 +688,29 @@ export default function LaunchKitPage() {
                   </div>
                 )}
               </div>
+              {cutoutUrl && (
+                <div className="relative mt-3 rounded-xl border border-neutral-200 bg-white p-3 space-y-2 shadow-sm">
+                  <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                    <span>Transparent cutout</span>
+                    <a href={cutoutUrl} download className="text-slate-600 hover:text-slate-800 underline">
+                      Download PNG
+                    </a>
+                  </div>
+                  {/* Checkerboard so the transparent areas read as transparent */}
+                  <div className="rounded-lg overflow-hidden bg-[repeating-conic-gradient(#e5e7eb_0%_25%,#ffffff_0%_50%)] bg-[length:16px_16px]">
+                    {/* Intrinsic size; unoptimized since the PNG comes from storage as-is */}
+                    <Image
+                      src={cutoutUrl}
+                      alt="Subject cutout"
+                      width={0}
+                      height={0}
+                      sizes="100vw"
+                      unoptimized
+                      className="w-full h-auto"
+                    />
+                  </div>
+                </div>
+              )}
               {imagePrompt && (
                 <div className="relative mt-3 rounded-xl border border-neutral-200 bg-white p-3 space-y-2 shadow-sm">
                   <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
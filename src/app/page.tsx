@@ -1,11 +1,12 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { ProjectSelector } from "@/components/project-selector";
 import type { Project } from "@/lib/supabase";
 import { cn } from "@/lib/utils";
-import { Sparkles, Palette, ArrowRight, Lightbulb, Wand2, Megaphone } from "lucide-react";
+import { Sparkles, Palette, ArrowRight, Lightbulb, Wand2, Megaphone, Receipt } from "lucide-react";
 
 type Mode = "ideate" | "design" | null;
 
@@ -183,6 +184,14 @@ export default function Home() {
           <p className="text-center text-zinc-600 text-sm mt-8">
             You can switch between modes anytime
           </p>
+
+          <Link
+            href="/usage"
+            className="mt-3 mx-auto flex w-fit items-center gap-1.5 text-sm text-zinc-500 hover:text-lime-400 transition-colors"
+          >
+            <Receipt className="w-4 h-4" />
+            Usage &amp; costs
+          </Link>
         </div>
       </div>
     );
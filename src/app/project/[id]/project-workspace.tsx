@@ -1,14 +1,45 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect, ChangeEvent, DragEvent } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo, ChangeEvent, DragEvent } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { cn } from "@/lib/utils";
-import { saveGeneratedImage, getProject, getGeneratedImages, deleteGeneratedImage, type Project } from "@/lib/supabase";
+import {
+  getProject,
+  getGeneratedImages,
+  deleteGeneratedImage,
+  setComparisonWinner,
+  type Project,
+} from "@/lib/supabase";
 import { PromptLibrary } from "@/components/prompt-library";
 import { Comparison } from "@/components/ui/comparison";
 import { Spinner } from "@/components/ui/spinner";
-import { AnnotateButton } from "@/components/image-annotator";
+import { AnnotateButton, type AnnotationSaveDetails } from "@/components/image-annotator";
+import { GenerationBatch } from "@/components/generation-batch";
+import { ModelComparison } from "@/components/model-comparison";
+import { HistoryTree, type HistoryTreeItem } from "@/components/history-tree";
+import type { GeneratedImage, GenerationJob } from "@/lib/database.types";
+import {
+  ACTIVE_JOB_STATUSES,
+  dismissGenerationJob,
+  fetchGenerationJobs,
+  requestGenerationJobCancel,
+  submitGenerationJob,
+  waitForGenerationJob,
+} from "@/lib/generation-jobs";
+import {
+  getGenerationModels,
+  DEFAULT_IMAGE_MODEL,
+  DEFAULT_INPAINTING_MODEL,
+  getImageModel,
+  formatSizeLabel,
+  getProviderRequestImageCount,
+  type ImageModel,
+  type ImageModelId,
+  type ProviderRequest,
+} from "@/lib/image-models";
+import { DEFAULT_ANNOTATION_PROMPT, type AnnotationInstruction } from "@/lib/annotations";
+import { requestUpscale, UPSCALE_FACTORS, type UpscaleFactor } from "@/lib/upscale";
 import {
   Upload,
   Sparkles,
@@ -37,59 +68,28 @@ import {
   Columns,
   Pencil,
   Plus,
+  GitBranch,
+  Highlighter,
+  ImageUpscale,
+  Expand,
+  Repeat,
+  Dices,
 } from "lucide-react";
 
 type AspectRatio = "auto" | "1:1" | "2:3" | "3:2" | "3:4" | "4:3" | "4:5" | "5:4" | "9:16" | "16:9" | "21:9" | "match_input_image";
 type Resolution = "1K" | "2K" | "4K";
 type OutputFormat = "jpg" | "png" | "webp";
 type ImageSize = "auto_2K" | "auto_4K" | "1K" | "2K" | "4K" | "square_hd" | "square" | "portrait_4_3" | "portrait_16_9" | "landscape_4_3" | "landscape_16_9";
-type ModelType = "nano-banana-pro" | "seedream" | "seedream-edit" | "google-nano-banana";
-
-interface ModelOption {
-  value: ModelType;
-  label: string;
-  description: string;
-  supportsImageInput: boolean;
-  requiresImageInput?: boolean;
-  maxImages?: number;
-  sizeType: "aspectRatio" | "imageSize" | "seedreamSize";
-}
-
-const MODEL_OPTIONS: ModelOption[] = [
-  { value: "nano-banana-pro", label: "Nano Banana Pro", description: "FAL • Image editing", supportsImageInput: true, requiresImageInput: true, maxImages: 10, sizeType: "aspectRatio" },
-  { value: "google-nano-banana", label: "Google Nano Banana", description: "Replicate • Fast & versatile", supportsImageInput: true, maxImages: 10, sizeType: "aspectRatio" },
-  { value: "seedream-edit", label: "Seedream 4.5 Edit", description: "FAL • Multi-image editing", supportsImageInput: true, requiresImageInput: true, maxImages: 10, sizeType: "seedreamSize" },
-  { value: "seedream", label: "Seedream 4.5", description: "FAL • Text to image only", supportsImageInput: false, sizeType: "imageSize" },
-];
-
-// Aspect ratios per model
-const NANO_BANANA_PRO_RATIOS = ["auto", "1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
-const GOOGLE_NANO_RATIOS = ["match_input_image", "1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
-// Seedream text-to-image valid sizes (must match API exactly)
-const SEEDREAM_SIZES = ["auto_2K", "auto_4K", "square_hd", "square", "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9"];
-// Seedream Edit uses the same size presets
-const SEEDREAM_EDIT_SIZES = ["auto_4K", "auto_2K", "square_hd", "square", "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9"];
-
-// Format size labels for display
-const formatSizeLabel = (size: string): string => {
-  const labels: Record<string, string> = {
-    "auto_2K": "Auto 2K",
-    "auto_4K": "Auto 4K",
-    "square_hd": "Square HD",
-    "square": "Square",
-    "portrait_4_3": "Portrait 4:3",
-    "portrait_16_9": "Portrait 16:9",
-    "landscape_4_3": "Landscape 4:3",
-    "landscape_16_9": "Landscape 16:9",
-  };
-  return labels[size] || size;
-};
+type ModelType = ImageModelId;
 
 type GenerationItem = {
   id: string;
   type: "generation" | "upload" | "annotated";
   inputImage?: string;
   outputImage?: string;
+  // 256px / 768px WebP derivatives of outputImage (newer generations only)
+  thumbnailImage?: string;
+  previewImage?: string;
   prompt: string;
   timestamp: Date;
   loading?: boolean;
@@ -99,8 +99,105 @@ type GenerationItem = {
     resolution: Resolution;
     outputFormat: OutputFormat;
   };
+  // Set on every image returned by the same multi-image request
+  batchId?: string;
+  // Number of images requested (shown while loading)
+  numImages?: number;
+  seed?: number;
+  // Saved with its provider request, so "Re-run" can replay it
+  canRerun?: boolean;
+  // Images the replayed request returns
+  rerunImageCount?: number;
+  // Registry id (or stored model name) that produced the image
+  model?: string;
+  // Set on every image of one model comparison run
+  comparisonGroupId?: string;
+  latencyMs?: number;
+  isComparisonWinner?: boolean;
+  // Server-side generation job backing a pending or failed item
+  jobId?: string;
+  // Generated images this one was made from (lineage)
+  parentImageIds?: string[];
 };
 
+// Only saved rows (uuid ids) can be recorded as lineage parents
+const isSavedImageId = (id: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+
+// Feed images use the 768px preview when it covers the rendered width
+const FEED_IMAGE_SIZES = "(min-width: 1024px) 60vw, 100vw";
+const feedImageSources = (gen: GenerationItem) =>
+  gen.previewImage && gen.outputImage
+    ? { srcSet: `${gen.previewImage} 768w, ${gen.outputImage} 2048w`, sizes: FEED_IMAGE_SIZES }
+    : {};
+
+// Build a history item from a saved generated_images row
+function imageToGenerationItem(img: GeneratedImage): GenerationItem {
+  return {
+    id: img.id,
+    type: "generation",
+    inputImage: img.input_image_urls?.[0] || undefined,
+    outputImage: img.image_url,
+    thumbnailImage: img.thumbnail_url || undefined,
+    previewImage: img.preview_url || undefined,
+    prompt: img.prompt,
+    timestamp: new Date(img.created_at),
+    aspectRatio: img.aspect_ratio,
+    settings: {
+      resolution: img.resolution as Resolution,
+      outputFormat: img.output_format as OutputFormat,
+    },
+    parentImageIds: img.parent_image_ids || [],
+    seed: img.seed ?? undefined,
+    canRerun: !!img.provider_request,
+    rerunImageCount: img.provider_request
+      ? getProviderRequestImageCount(img.provider_request as unknown as ProviderRequest)
+      : undefined,
+    model: img.model || undefined,
+    comparisonGroupId: img.comparison_group_id || undefined,
+    latencyMs: img.latency_ms ?? undefined,
+    isComparisonWinner: img.is_comparison_winner,
+  };
+}
+
+// Target ratios offered by "Extend canvas" in the full view
+const EXTEND_CANVAS_RATIOS = ["1:1", "4:3", "3:4", "16:9", "9:16"];
+
+// Failed jobs older than this are not shown again on reload
+const JOB_REHYDRATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Build a pending/failed history item from a server-side job
+function jobToGenerationItem(job: GenerationJob): GenerationItem {
+  const request = (job.request || {}) as {
+    imageInputs?: string[];
+    aspectRatio?: string;
+    imageSize?: string;
+    resolution?: string;
+    outputFormat?: string;
+    numImages?: number;
+    comparisonGroupId?: string;
+  };
+  const failed = job.status === "failed";
+
+  return {
+    id: job.id,
+    type: "generation",
+    inputImage: request.imageInputs?.[0],
+    prompt: job.prompt,
+    timestamp: new Date(job.created_at),
+    loading: !failed,
+    error: failed ? job.error || "Generation failed" : undefined,
+    aspectRatio: request.imageSize || request.aspectRatio,
+    settings: {
+      resolution: (request.resolution || "2K") as Resolution,
+      outputFormat: (request.outputFormat || "png") as OutputFormat,
+    },
+    numImages: request.numImages,
+    jobId: job.id,
+    model: job.model,
+    comparisonGroupId: request.comparisonGroupId,
+  };
+}
+
 export default function ProjectWorkspace() {
   const params = useParams();
   const router = useRouter();
@@ -129,7 +226,13 @@ export default function ProjectWorkspace() {
   const [resolution, setResolution] = useState<Resolution>("2K");
   const [outputFormat, setOutputFormat] = useState<OutputFormat>("png");
   const [imageSize, setImageSize] = useState<ImageSize>("auto_2K");
-  const [selectedModel, setSelectedModel] = useState<ModelType>("nano-banana-pro");
+  const [numImages, setNumImages] = useState(1);
+  // Digits only; empty lets the provider pick a random seed
+  const [seed, setSeed] = useState("");
+  const [selectedModel, setSelectedModel] = useState<ModelType>(DEFAULT_IMAGE_MODEL);
+  // Compare mode sends one prompt to every model in compareModels
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<ModelType[]>(["nano-banana-pro", "google-nano-banana", "seedream-edit"]);
   const [showSettings, setShowSettings] = useState(false);
 
   // UI state
@@ -137,6 +240,22 @@ export default function ProjectWorkspace() {
   const [showPromptLibrary, setShowPromptLibrary] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [fullView, setFullView] = useState<GenerationItem | null>(null);
+  const [upscaling, setUpscaling] = useState<UpscaleFactor | null>(null);
+  // Full-view item whose extend-canvas ratio picker is open
+  const [extendMenuFor, setExtendMenuFor] = useState<string | null>(null);
+  // Shown in the full view of the item that failed to upscale
+  const [upscaleError, setUpscaleError] = useState<{ itemId: string; message: string } | null>(null);
+  const [showHistoryTree, setShowHistoryTree] = useState(false);
+  // Annotated image URL -> generated image it was drawn on
+  const annotationSourcesRef = useRef(new Map<string, string>());
+  // Annotated image URL -> the regions and labels drawn on it
+  const [annotationInstructions, setAnnotationInstructions] = useState<Record<string, AnnotationInstruction[]>>({});
+  // Labels on the current input can stand in for the prompt
+  const inputInstructions = inputImages[0] ? annotationInstructions[inputImages[0]] : undefined;
+  const canGenerate = prompt.trim().length > 0 || !!inputInstructions?.some(instruction => instruction.label);
+  // Marked edit region for the current input - only that area gets regenerated
+  const [editRegion, setEditRegion] = useState<{ imageUrl: string; maskUrl: string } | null>(null);
+  const editRegionActive = editRegion !== null && inputImages[0] === editRegion.imageUrl;
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [showBeforeAfter, setShowBeforeAfter] = useState(true); // Toggle for before/after comparison in feed
   // Mobile: bottom sheet expanded state
@@ -167,6 +286,7 @@ export default function ProjectWorkspace() {
         // Don't keep the feed blocked forever if an image fails to load.
         if (!cancelled) handleImageLoaded(gen.id);
       };
+      Object.assign(img, feedImageSources(gen));
       img.src = gen.outputImage;
 
       // If image is already cached/complete, mark it as loaded immediately.
@@ -199,6 +319,62 @@ export default function ProjectWorkspace() {
     setSheetDragStart(null);
   }, []);
 
+  // Wait for a queued job and swap its placeholder for the resulting image(s)
+  const trackGenerationJob = useCallback(async (
+    placeholderId: string,
+    jobId: string,
+    options: { useResultAsInput?: boolean } = {}
+  ) => {
+    try {
+      const result = await waitForGenerationJob(jobId);
+      const isBatch = result.images.length > 1;
+      const itemIds = result.images.map((image, index) => image.id || (isBatch ? `${jobId}-${index}` : jobId));
+
+      setGenerations(prev =>
+        prev.flatMap(g =>
+          g.id !== placeholderId
+            ? [g]
+            : result.images.map((image, index) => ({
+                ...g,
+                id: itemIds[index],
+                outputImage: image.url,
+                thumbnailImage: image.thumbnailUrl,
+                previewImage: image.previewUrl,
+                loading: false,
+                seed: image.seed,
+                canRerun: !!image.id && !!result.providerRequest,
+                rerunImageCount: result.providerRequest && getProviderRequestImageCount(result.providerRequest),
+                latencyMs: result.latencyMs,
+                parentImageIds: result.parentImageIds,
+                jobId: undefined,
+                batchId: isBatch ? jobId : undefined,
+              }))
+        )
+      );
+
+      // Mark as loaded immediately so we don't show spinner for fresh generations
+      setLoadedImages(prev => {
+        const next = new Set(prev);
+        itemIds.forEach(itemId => next.add(itemId));
+        return next;
+      });
+
+      // Auto-set generated image as input for next iteration
+      if (options.useResultAsInput && result.images[0]) {
+        setInputImages([result.images[0].url]);
+        setSelectedImageIndex(0);
+      }
+    } catch (err) {
+      setGenerations(prev =>
+        prev.map(g =>
+          g.id === placeholderId
+            ? { ...g, loading: false, error: err instanceof Error ? err.message : "Generation failed" }
+            : g
+        )
+      );
+    }
+  }, []);
+
   // Load project and images
   useEffect(() => {
     const loadProject = async () => {
@@ -211,19 +387,7 @@ export default function ProjectWorkspace() {
           // Load existing generations
           const dbImages = await getGeneratedImages(project.id);
           if (dbImages && dbImages.length > 0) {
-            const existingGenerations: GenerationItem[] = dbImages.map((img) => ({
-              id: img.id,
-              type: "generation",
-              inputImage: img.input_image_urls?.[0] || undefined,
-              outputImage: img.image_url,
-              prompt: img.prompt,
-              timestamp: new Date(img.created_at),
-              aspectRatio: img.aspect_ratio,
-              settings: {
-                resolution: img.resolution as Resolution,
-                outputFormat: img.output_format as OutputFormat,
-              },
-            }));
+            const existingGenerations = dbImages.map(imageToGenerationItem);
             // Sort by timestamp ascending (oldest first, newest at bottom)
             existingGenerations.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
             setGenerations(existingGenerations);
@@ -236,10 +400,31 @@ export default function ProjectWorkspace() {
                 img.onload = () => {
                   setLoadedImages(prev => new Set(prev).add(gen.id));
                 };
+                Object.assign(img, feedImageSources(gen));
                 img.src = gen.outputImage;
               }
             });
           }
+
+          // Rehydrate jobs that were still running (or failed) when the page was left
+          try {
+            const since = new Date(Date.now() - JOB_REHYDRATE_WINDOW_MS).toISOString();
+            const jobs = await fetchGenerationJobs(project.id, {
+              statuses: [...ACTIVE_JOB_STATUSES, "failed"],
+              since,
+            });
+            const jobItems = jobs.map(jobToGenerationItem);
+            if (jobItems.length > 0) {
+              setGenerations(prev =>
+                [...prev, ...jobItems].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+              );
+              jobItems
+                .filter(item => item.loading && item.jobId)
+                .forEach(item => trackGenerationJob(item.id, item.jobId!));
+            }
+          } catch (jobsErr) {
+            console.warn("Failed to load generation jobs:", jobsErr);
+          }
         } else {
           router.push("/");
         }
@@ -251,7 +436,7 @@ export default function ProjectWorkspace() {
       }
     };
     loadProject();
-  }, [projectId, router]);
+  }, [projectId, router, trackGenerationJob]);
 
   // Auto-scroll to bottom when new generations are added
   useEffect(() => {
@@ -354,21 +539,77 @@ export default function ProjectWorkspace() {
     setIsDragging(false);
   }, []);
 
+  // Switch model and reset size settings to its defaults
+  const selectModel = useCallback((modelId: ModelType) => {
+    setSelectedModel(modelId);
+    const defaults = getImageModel(modelId)?.defaults;
+    if (defaults?.aspectRatio) setAspectRatio(defaults.aspectRatio as AspectRatio);
+    if (defaults?.imageSize) setImageSize(defaults.imageSize as ImageSize);
+    const maxOutputs = getImageModel(modelId)?.capabilities.maxOutputs || 1;
+    setNumImages(prev => Math.min(prev, maxOutputs));
+  }, []);
+
+  const toggleCompareModel = useCallback((modelId: ModelType) => {
+    setCompareModels(prev => (prev.includes(modelId) ? prev.filter(id => id !== modelId) : [...prev, modelId]));
+  }, []);
+
   // Use generated image as input - auto-switch to compatible model if needed
   const useAsInput = useCallback((imageUrl: string) => {
     setInputImages(prev => [...prev, imageUrl]);
     
     // If current model doesn't support image input, switch to one that does
-    const currentModelInfo = MODEL_OPTIONS.find(m => m.value === selectedModel);
-    if (!currentModelInfo?.supportsImageInput) {
-      // Switch to nano-banana-pro as the default image editing model
-      setSelectedModel("nano-banana-pro");
-      setAspectRatio("auto");
+    if (getImageModel(selectedModel)?.capabilities.imageInput === "none") {
+      // Switch to the default image editing model
+      selectModel(DEFAULT_IMAGE_MODEL);
     }
-  }, [selectedModel]);
+  }, [selectedModel, selectModel]);
+
+  // Upscale an image into a new child generation and show it in the full view
+  const handleUpscale = async (gen: GenerationItem, factor: UpscaleFactor) => {
+    if (!gen.outputImage) return;
+    setUpscaling(factor);
+    setUpscaleError(null);
+    try {
+      const { image } = await requestUpscale(
+        isSavedImageId(gen.id)
+          ? { imageId: gen.id }
+          : { imageUrl: gen.outputImage, projectId: currentProject?.id },
+        factor
+      );
+      const upscaledItem = imageToGenerationItem(image);
+      setGenerations(prev => [...prev, upscaledItem]);
+      setFullView(upscaledItem);
+    } catch (err) {
+      console.error("Upscale error:", err);
+      setUpscaleError({ itemId: gen.id, message: err instanceof Error ? err.message : "Failed to upscale image" });
+    } finally {
+      setUpscaling(null);
+    }
+  };
 
   // Handle annotated image - add to feed and set as input
-  const handleAnnotatedImage = useCallback((annotatedUrl: string) => {
+  const handleAnnotatedImage = useCallback((annotatedUrl: string, sourceImageId?: string, details?: AnnotationSaveDetails) => {
+    // Edit region: keep the original as input and remember the mask for the next generation
+    if (details?.maskUrl) {
+      setEditRegion({ imageUrl: annotatedUrl, maskUrl: details.maskUrl });
+      setInputImages([annotatedUrl]);
+      setSelectedImageIndex(0);
+      if (getImageModel(selectedModel)?.capabilities.imageInput === "none") {
+        selectModel(DEFAULT_IMAGE_MODEL);
+      }
+      setMobileSheetExpanded(true);
+      return;
+    }
+
+    // Remember which generated image was marked up so lineage skips over the copy
+    if (sourceImageId && isSavedImageId(sourceImageId)) {
+      annotationSourcesRef.current.set(annotatedUrl, sourceImageId);
+    }
+    const instructions = details?.instructions;
+    if (instructions?.length) {
+      setAnnotationInstructions(prev => ({ ...prev, [annotatedUrl]: instructions }));
+    }
+
     // Add to feed as annotated type
     const annotatedItem: GenerationItem = {
       id: `annotated-${Date.now()}`,
@@ -376,6 +617,7 @@ export default function ProjectWorkspace() {
       outputImage: annotatedUrl,
       prompt: "Annotated image",
       timestamp: new Date(),
+      parentImageIds: sourceImageId && isSavedImageId(sourceImageId) ? [sourceImageId] : [],
     };
     setGenerations(prev => [...prev, annotatedItem]);
     
@@ -384,15 +626,27 @@ export default function ProjectWorkspace() {
     setSelectedImageIndex(0);
     
     // If current model doesn't support image input, switch to one that does
-    const currentModelInfo = MODEL_OPTIONS.find(m => m.value === selectedModel);
-    if (!currentModelInfo?.supportsImageInput) {
-      setSelectedModel("nano-banana-pro");
-      setAspectRatio("auto");
+    if (getImageModel(selectedModel)?.capabilities.imageInput === "none") {
+      selectModel(DEFAULT_IMAGE_MODEL);
     }
     
     // Open mobile sheet
     setMobileSheetExpanded(true);
-  }, [selectedModel]);
+  }, [selectedModel, selectModel]);
+
+  // Jump back to a node in the history tree and branch from it
+  const branchFromImage = useCallback((item: HistoryTreeItem) => {
+    setInputImages([item.outputImage]);
+    setSelectedImageIndex(0);
+    if (getImageModel(selectedModel)?.capabilities.imageInput === "none") {
+      selectModel(DEFAULT_IMAGE_MODEL);
+    }
+    setShowHistoryTree(false);
+
+    const target = generations.find(g => g.id === item.id);
+    const elementId = `generation-${target?.comparisonGroupId || target?.batchId || item.id}`;
+    document.getElementById(elementId)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [generations, selectedModel, selectModel]);
 
   // Copy prompt
   const copyPrompt = useCallback((text: string, id: string) => {
@@ -406,150 +660,289 @@ export default function ProjectWorkspace() {
     setPrompt(prev => prev.trim() ? `${prev}, ${selectedPrompt}` : selectedPrompt);
   }, []);
 
-  // Generate image - runs independently, allows multiple simultaneous generations
+  // Cancel a queued/running job and drop its placeholder
+  const cancelGeneration = useCallback(async (gen: GenerationItem) => {
+    setGenerations(prev => prev.filter(g => g.id !== gen.id));
+    if (!gen.jobId) return;
+    try {
+      await requestGenerationJobCancel(gen.jobId);
+    } catch (err) {
+      console.error("Failed to cancel:", err);
+    }
+  }, []);
+
+  // Dismiss a failed generation
+  const dismissGeneration = useCallback(async (gen: GenerationItem) => {
+    setGenerations(prev => prev.filter(g => g.id !== gen.id));
+    if (!gen.jobId) return;
+    try {
+      await dismissGenerationJob(gen.jobId);
+    } catch (err) {
+      console.error("Failed to dismiss:", err);
+    }
+  }, []);
+
+  // Generate image - runs independently, allows multiple simultaneous generations.
+  // In compare mode the same prompt and inputs go to every selected model at once.
   const generate = useCallback(async () => {
-    if (!prompt.trim()) {
+    if (!canGenerate) {
       setError("Please enter a prompt");
       return;
     }
 
+    const targetModels = (compareMode ? compareModels : [selectedModel])
+      .map(modelId => getImageModel(modelId))
+      .filter((model): model is ImageModel => !!model);
+    if (targetModels.length === 0) {
+      setError("Please select a model");
+      return;
+    }
+    if (compareMode && targetModels.length < 2) {
+      setError("Select at least two models to compare");
+      return;
+    }
+    if (compareMode && editRegionActive) {
+      setError("Clear the edit region to compare models");
+      return;
+    }
+
     // Check if model requires image input
-    const currentModelInfo = MODEL_OPTIONS.find(m => m.value === selectedModel);
-    if (currentModelInfo?.requiresImageInput && inputImages.length === 0) {
-      setError(`${currentModelInfo.label} requires an input image. Please add an image or switch to a different model.`);
+    const needsImage = targetModels.find(model => model.capabilities.imageInput === "required");
+    if (needsImage && inputImages.length === 0) {
+      setError(`${needsImage.label} requires an input image. Please add an image or switch to a different model.`);
       return;
     }
 
     setError(null);
 
-    const id = `gen-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-    
     // Capture current values for this generation
-    const currentPrompt = prompt;
+    const currentPrompt = prompt.trim() ? prompt : DEFAULT_ANNOTATION_PROMPT;
+    const currentInstructions = inputInstructions;
     const currentInputImages = [...inputImages];
     const currentAspectRatio = aspectRatio;
     const currentResolution = resolution;
     const currentOutputFormat = outputFormat;
     const currentImageSize = imageSize;
-    const currentModel = selectedModel;
+    const currentSeed = seed ? Number(seed) : undefined;
+    const currentMask = editRegionActive ? editRegion.maskUrl : undefined;
+    if (currentMask) setEditRegion(null);
+    const comparisonGroupId = compareMode ? crypto.randomUUID() : undefined;
+
+    // Add placeholders immediately (one per model)
+    const placeholders = targetModels.map(model => ({
+      id: `gen-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      model,
+      // Comparisons are one image per model so the grid lines up
+      numImages: comparisonGroupId ? 1 : Math.min(numImages, model.capabilities.maxOutputs),
+    }));
 
-    // Add placeholder immediately
-    const newGeneration: GenerationItem = {
-      id,
-      type: "generation",
-      inputImage: currentInputImages[0] || undefined,
-      prompt: currentPrompt,
-      timestamp: new Date(),
-      loading: true,
-      aspectRatio: currentModel === "seedream" ? currentImageSize : currentAspectRatio,
-      settings: { resolution: currentResolution, outputFormat: currentOutputFormat },
-    };
+    setGenerations(prev => [
+      ...prev,
+      ...placeholders.map(({ id, model, numImages: count }): GenerationItem => ({
+        id,
+        type: "generation",
+        inputImage: currentInputImages[0] || undefined,
+        prompt: currentPrompt,
+        timestamp: new Date(),
+        loading: true,
+        aspectRatio: model.capabilities.imageSizes ? currentImageSize : currentAspectRatio,
+        settings: { resolution: currentResolution, outputFormat: currentOutputFormat },
+        numImages: count,
+        model: model.id,
+        comparisonGroupId,
+      })),
+    ]);
 
-    setGenerations(prev => [...prev, newGeneration]);
-    
     // Clear prompt after starting generation (optional - allows quick iteration)
     // setPrompt("");
 
+    const markFailed = (id: string, err: unknown) =>
+      setGenerations(prev =>
+        prev.map(g =>
+          g.id === id
+            ? { ...g, loading: false, error: err instanceof Error ? err.message : "Generation failed" }
+            : g
+        )
+      );
+
     // Run generation in background - don't await at top level
     (async () => {
-      try {
-        // Upload data URLs to Supabase before sending to API to prevent "request too large" errors
-        let uploadedInputImages = currentInputImages;
-        if (currentInputImages.length > 0) {
-          const { uploadDataUrlsToSupabase } = await import("@/lib/image-utils");
-          try {
-            uploadedInputImages = await uploadDataUrlsToSupabase(currentInputImages, "inputs");
-          } catch (error) {
-            console.error("Failed to upload input images, proceeding with originals:", error);
-            // Continue with original images if upload fails (they might already be URLs)
-          }
-        }
-
-        // Build request body based on model
-        const requestBody: Record<string, unknown> = {
-          prompt: currentPrompt,
-          model: currentModel,
-          outputFormat: currentOutputFormat,
-          compressImages: true,
-        };
-
-        if (currentModel === "nano-banana-pro") {
-          requestBody.imageInputs = uploadedInputImages;
-          requestBody.aspectRatio = currentAspectRatio;
-          requestBody.resolution = currentResolution;
-        } else if (currentModel === "google-nano-banana") {
-          requestBody.imageInputs = uploadedInputImages;
-          requestBody.aspectRatio = currentAspectRatio;
-        } else if (currentModel === "seedream-edit") {
-          // Seedream Edit uses imageSize presets and requires image inputs
-          requestBody.imageInputs = uploadedInputImages;
-          requestBody.imageSize = currentImageSize;
-        } else if (currentModel === "seedream") {
-          // Seedream text-to-image uses imageSize, no image inputs
-          requestBody.imageSize = currentImageSize;
+      // Upload data URLs to Supabase before sending to API to prevent "request too large" errors
+      let uploadedInputImages = currentInputImages;
+      if (currentInputImages.length > 0) {
+        try {
+          const { uploadDataUrlsToStorage } = await import("@/lib/image-utils");
+          uploadedInputImages = await uploadDataUrlsToStorage(currentInputImages, "inputs");
+        } catch (error) {
+          console.error("Failed to upload input images, proceeding with originals:", error);
+          // Continue with original images if upload fails (they might already be URLs)
         }
+      }
 
-        const response = await fetch("/api/generate", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(requestBody),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new Error(data.error || "Failed to generate image");
-        }
+      // Annotated inputs are new uploads, so pass their source images as parents
+      const annotatedParents = currentInputImages
+        .map(url => annotationSourcesRef.current.get(url))
+        .filter((parentId): parentId is string => !!parentId);
 
-        // Save to database
-        let savedId = id;
+      await Promise.all(placeholders.map(async ({ id, model, numImages: count }) => {
         try {
+          // Build request body based on model
+          const requestBody: Record<string, unknown> = {
+            prompt: currentPrompt,
+            model: model.id,
+            outputFormat: currentOutputFormat,
+            numImages: count,
+            compressImages: true,
+          };
+
+          // Only send the settings this model supports
+          const { capabilities } = model;
+          if (capabilities.imageInput !== "none") {
+            requestBody.imageInputs = uploadedInputImages;
+          }
+          if (capabilities.aspectRatios) {
+            requestBody.aspectRatio = currentAspectRatio;
+          }
+          if (capabilities.resolutions) {
+            requestBody.resolution = currentResolution;
+          }
+          if (capabilities.imageSizes) {
+            requestBody.imageSize = currentImageSize;
+          }
+          if (capabilities.seed && currentSeed !== undefined) {
+            requestBody.seed = currentSeed;
+          }
+
           if (currentProject) {
-            const saved = await saveGeneratedImage({
-              projectId: currentProject.id,
-              imageUrl: data.imageUrl,
-              prompt: currentPrompt,
-              settings: { 
-                aspectRatio: currentAspectRatio, 
-                resolution: currentResolution, 
-                outputFormat: currentOutputFormat, 
-                safetyFilter: "block_only_high" 
-              },
-              inputImageUrls: data.inputImageUrls || [],
-              model: data.model || currentModel,
-            });
-            if (saved) savedId = saved.id;
+            requestBody.projectId = currentProject.id;
+          }
+          if (currentMask) {
+            requestBody.maskImage = currentMask;
+          }
+          if (currentInstructions?.length) {
+            requestBody.annotationInstructions = currentInstructions;
+          }
+          if (annotatedParents.length > 0) {
+            requestBody.parentImageIds = annotatedParents;
+          }
+          if (comparisonGroupId) {
+            requestBody.comparisonGroupId = comparisonGroupId;
           }
-        } catch (saveErr) {
-          console.warn("Failed to save to database:", saveErr);
-        }
 
-        // Update generation with result
-        setGenerations(prev =>
-          prev.map(g =>
-            g.id === id
-              ? { ...g, id: savedId, outputImage: data.imageUrl, loading: false }
-              : g
-          )
-        );
-        
-        // Mark as loaded immediately so we don't show spinner for fresh generations
-        setLoadedImages(prev => new Set(prev).add(savedId));
-        
-        // Auto-set generated image as input for next iteration
-        setInputImages([data.imageUrl]);
-        setSelectedImageIndex(0);
-      } catch (err) {
-        setGenerations(prev =>
-          prev.map(g =>
-            g.id === id
-              ? { ...g, loading: false, error: err instanceof Error ? err.message : "Generation failed" }
-              : g
-          )
-        );
-      }
+          // Queue the job - the server saves the images even if this tab goes away
+          const { jobId } = await submitGenerationJob(requestBody);
+          setGenerations(prev => prev.map(g => (g.id === id ? { ...g, jobId } : g)));
+
+          // A comparison has no single result to continue from
+          await trackGenerationJob(id, jobId, { useResultAsInput: !comparisonGroupId });
+        } catch (err) {
+          markFailed(id, err);
+        }
+      }));
     })();
-  }, [prompt, inputImages, aspectRatio, resolution, outputFormat, imageSize, selectedModel, currentProject]);
+  }, [prompt, inputImages, aspectRatio, resolution, outputFormat, imageSize, numImages, seed, selectedModel, compareMode, compareModels, currentProject, trackGenerationJob, editRegion, editRegionActive, canGenerate, inputInstructions]);
+
+  // Pad an image out to a new aspect ratio and fill only the added border
+  const extendCanvasFrom = useCallback(async (gen: GenerationItem, ratio: string) => {
+    if (!gen.outputImage) return;
+    const id = `gen-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+    setGenerations(prev => [...prev, {
+      id,
+      type: "generation",
+      inputImage: gen.outputImage,
+      prompt: `Extend canvas to ${ratio}`,
+      timestamp: new Date(),
+      loading: true,
+      aspectRatio: ratio,
+      settings: { resolution, outputFormat },
+      numImages: 1,
+    }]);
+
+    try {
+      const { jobId } = await submitGenerationJob({
+        // The server fills in an extend-the-scene prompt
+        prompt: "",
+        model: DEFAULT_INPAINTING_MODEL,
+        imageInputs: [gen.outputImage],
+        extendCanvasTo: ratio,
+        outputFormat,
+        numImages: 1,
+        compressImages: true,
+        projectId: currentProject?.id,
+        parentImageIds: isSavedImageId(gen.id) ? [gen.id] : undefined,
+      });
+      setGenerations(prev => prev.map(g => (g.id === id ? { ...g, jobId } : g)));
+
+      await trackGenerationJob(id, jobId);
+    } catch (err) {
+      setGenerations(prev =>
+        prev.map(g =>
+          g.id === id
+            ? { ...g, loading: false, error: err instanceof Error ? err.message : "Generation failed" }
+            : g
+        )
+      );
+    }
+  }, [resolution, outputFormat, currentProject, trackGenerationJob]);
+
+  // Send a saved image's exact provider request again (same model, inputs and seed)
+  const rerunGeneration = useCallback(async (gen: GenerationItem) => {
+    const id = `gen-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+    setGenerations(prev => [...prev, {
+      id,
+      type: "generation",
+      inputImage: gen.inputImage,
+      prompt: gen.prompt,
+      timestamp: new Date(),
+      loading: true,
+      aspectRatio: gen.aspectRatio,
+      settings: gen.settings,
+      numImages: gen.rerunImageCount || 1,
+    }]);
+
+    try {
+      const { jobId } = await submitGenerationJob({ rerunOf: gen.id });
+      setGenerations(prev => prev.map(g => (g.id === id ? { ...g, jobId } : g)));
+
+      await trackGenerationJob(id, jobId);
+    } catch (err) {
+      setGenerations(prev =>
+        prev.map(g =>
+          g.id === id
+            ? { ...g, loading: false, error: err instanceof Error ? err.message : "Generation failed" }
+            : g
+        )
+      );
+    }
+  }, [trackGenerationJob]);
+
+  // Keep an image's seed and prompt for the next generation, to vary just the prompt
+  const applySeedFrom = useCallback((gen: GenerationItem) => {
+    if (gen.seed === undefined) return;
+    setSeed(String(gen.seed));
+    setPrompt(gen.prompt);
+    setShowSettings(true);
+  }, []);
+
+  // Record the preferred model's image for a comparison run
+  const pickComparisonWinner = useCallback(async (groupId: string, itemId: string) => {
+    if (!isSavedImageId(itemId)) return;
+    const markWinner = (winnerId: string | undefined) =>
+      setGenerations(prev =>
+        prev.map(g => (g.comparisonGroupId === groupId ? { ...g, isComparisonWinner: g.id === winnerId } : g))
+      );
+
+    const previousWinner = generations.find(g => g.comparisonGroupId === groupId && g.isComparisonWinner)?.id;
+    markWinner(itemId);
+    try {
+      await setComparisonWinner(groupId, itemId);
+    } catch (err) {
+      console.error("Failed to save comparison winner:", err);
+      markWinner(previousWinner);
+    }
+  }, [generations]);
 
   // Delete generation
   const handleDeleteGeneration = useCallback(async (id: string) => {
@@ -563,8 +956,11 @@ export default function ProjectWorkspace() {
 
   // Retry generation - removes failed item and starts new generation
   const retry = useCallback((gen: GenerationItem) => {
-    // Remove the failed generation
+    // Remove the failed generation (and its job record, so it isn't rehydrated)
     setGenerations(prev => prev.filter(g => g.id !== gen.id));
+    if (gen.jobId) {
+      dismissGenerationJob(gen.jobId).catch(err => console.error("Failed to dismiss job:", err));
+    }
     
     // Set up the form with the same settings
     setInputImages(gen.inputImage ? [gen.inputImage] : []);
@@ -582,21 +978,39 @@ export default function ProjectWorkspace() {
     }, 100);
   }, [generate]);
 
-  // Dynamic aspect ratio options based on model
-  const getAspectRatioOptions = () => {
-    if (selectedModel === "google-nano-banana") {
-      return GOOGLE_NANO_RATIOS.map(r => ({
-        value: r,
-        label: r === "match_input_image" ? "Match" : r,
-      }));
-    }
-    return NANO_BANANA_PRO_RATIOS.map(r => ({
-      value: r,
-      label: r === "auto" ? "Auto" : r,
-    }));
-  };
-
-  const aspectRatioOptions = getAspectRatioOptions();
+  // Settings options for the selected model
+  const selectedModelInfo = getImageModel(selectedModel);
+  const modelCapabilities = selectedModelInfo?.capabilities;
+  // Models the next Generate goes to (several in compare mode)
+  const activeModels = compareMode
+    ? compareModels.map(modelId => getImageModel(modelId)).filter((model): model is ImageModel => !!model)
+    : selectedModelInfo ? [selectedModelInfo] : [];
+  const modelNeedingImage = inputImages.length === 0
+    ? activeModels.find(model => model.capabilities.imageInput === "required")
+    : undefined;
+  const selectedModelNeedsImage = !!modelNeedingImage;
+  const generateLabel = compareMode ? `Compare ${compareModels.length} models` : "Generate";
+
+  const aspectRatioOptions = (modelCapabilities?.aspectRatios || []).map(r => ({
+    value: r,
+    label: r === "match_input_image" ? "Match" : r === "auto" ? "Auto" : r,
+  }));
+
+  // Finished generations for the lineage tree
+  const historyTreeItems = useMemo<HistoryTreeItem[]>(
+    () =>
+      generations
+        .filter(g => g.type === "generation" && g.outputImage && !g.loading)
+        .map(g => ({
+          id: g.id,
+          outputImage: g.outputImage!,
+          thumbnailImage: g.thumbnailImage,
+          prompt: g.prompt,
+          timestamp: g.timestamp,
+          parentImageIds: g.parentImageIds,
+        })),
+    [generations]
+  );
 
   // Loading state - Clean & minimal
   if (projectLoading) {
@@ -689,7 +1103,7 @@ export default function ProjectWorkspace() {
               <BookOpen className="w-5 h-5" />
             </button>
             
-            <div className="p-3 bg-lime-400/10 rounded-xl" title={MODEL_OPTIONS.find(m => m.value === selectedModel)?.label}>
+            <div className="p-3 bg-lime-400/10 rounded-xl" title={selectedModelInfo?.label}>
               <Wand2 className="w-5 h-5 text-lime-400" />
             </div>
           </div>
@@ -703,9 +1117,9 @@ export default function ProjectWorkspace() {
               <span className="text-sm font-medium text-zinc-300">
                 Input Images {inputImages.length > 0 && <span className="text-zinc-500">({inputImages.length})</span>}
               </span>
-              {MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput ? (
+              {modelCapabilities?.imageInput === "required" ? (
                 <span className="text-xs text-amber-400 font-medium">required</span>
-              ) : MODEL_OPTIONS.find(m => m.value === selectedModel)?.supportsImageInput ? (
+              ) : modelCapabilities?.imageInput === "optional" ? (
                 <span className="text-xs text-zinc-500">(optional)</span>
               ) : (
                 <span className="text-xs text-zinc-600">not used</span>
@@ -764,6 +1178,23 @@ export default function ProjectWorkspace() {
                     </label>
                   </div>
                 )}
+                {editRegionActive && (
+                  <div className="flex items-center gap-2 px-3 py-2 text-xs text-lime-300 bg-lime-400/10 border border-lime-400/20 rounded-lg">
+                    <Highlighter className="w-3.5 h-3.5 flex-shrink-0" />
+                    <span className="flex-1">Editing marked region only</span>
+                    <button onClick={() => setEditRegion(null)} className="text-zinc-400 hover:text-white" title="Edit the whole image">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+                {!editRegionActive && !!inputInstructions?.length && (
+                  <div className="flex items-center gap-2 px-3 py-2 text-xs text-violet-300 bg-violet-500/10 border border-violet-500/20 rounded-lg">
+                    <Pencil className="w-3.5 h-3.5 flex-shrink-0" />
+                    <span>
+                      {inputInstructions.length} marked {inputInstructions.length === 1 ? "region" : "regions"} will be described in the prompt
+                    </span>
+                  </div>
+                )}
               </div>
             ) : (
               <label
@@ -831,7 +1262,7 @@ export default function ProjectWorkspace() {
                       title={inputImages.includes(gen.outputImage!) ? "Already selected" : "Add generated image to input"}
                       disabled={inputImages.includes(gen.outputImage!)}
                     >
-                      <img src={gen.outputImage} alt="Generated" className="w-full h-full object-cover" />
+                      <img src={gen.thumbnailImage || gen.outputImage} alt="Generated" className="w-full h-full object-cover" loading="lazy" />
                       <div className="absolute inset-0 bg-lime-500/20 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity">
                         <Sparkles className="w-3 h-3 text-lime-300" />
                       </div>
@@ -855,7 +1286,7 @@ export default function ProjectWorkspace() {
               <textarea
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
-                onKeyDown={(e) => { if (e.key === "Enter" && !e.shiftKey && prompt.trim()) { e.preventDefault(); generate(); } }}
+                onKeyDown={(e) => { if (e.key === "Enter" && !e.shiftKey && canGenerate) { e.preventDefault(); generate(); } }}
                 placeholder={inputImages.length > 0 ? "Describe how to edit this image..." : "Describe the image you want to create..."}
                 className="w-full h-28 bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-lime-500/50 resize-none"
               />
@@ -870,46 +1301,46 @@ export default function ProjectWorkspace() {
               </button>
                 {showSettings && (
                 <div className="mt-3 space-y-3 p-3 bg-zinc-900/50 rounded-xl border border-zinc-800">
-                  {/* Model Selector */}
+                  {/* Model Selector - several models in compare mode */}
                   <div>
-                    <span className="text-xs text-zinc-500 uppercase tracking-wide">Model</span>
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-zinc-500 uppercase tracking-wide">{compareMode ? "Compare models" : "Model"}</span>
+                      <button onClick={() => setCompareMode(!compareMode)}
+                        className={cn("flex items-center gap-1 px-2 py-0.5 text-xs rounded-md transition-colors", compareMode ? "bg-lime-400 text-black font-medium" : "bg-zinc-800 text-zinc-400 hover:text-white")}
+                        title="Send one prompt to several models side by side"
+                      ><Columns className="w-3 h-3" />Compare</button>
+                    </div>
                     <div className="flex flex-col gap-1.5 mt-1.5">
-                      {MODEL_OPTIONS.map((opt) => (
-                        <button
-                          key={opt.value}
-                          onClick={() => {
-                            setSelectedModel(opt.value);
-                            // Reset settings when changing models
-                            if (opt.value === "google-nano-banana") {
-                              setAspectRatio("match_input_image");
-                            } else if (opt.value === "nano-banana-pro") {
-                              setAspectRatio("auto");
-                            } else if (opt.value === "seedream-edit") {
-                              setImageSize("auto_4K");
-                            } else if (opt.value === "seedream") {
-                              setImageSize("auto_2K");
-                            }
-                          }}
-                          className={cn(
-                            "w-full px-3 py-2 text-left rounded-lg transition-colors",
-                            selectedModel === opt.value
-                              ? "bg-lime-400/20 border border-lime-400/30"
-                              : "bg-zinc-800 hover:bg-zinc-700 border border-transparent"
-                          )}
-                        >
-                          <p className={cn("text-sm font-medium", selectedModel === opt.value ? "text-lime-400" : "text-white")}>{opt.label}</p>
-                          <p className="text-xs text-zinc-500">{opt.description}</p>
-                        </button>
-                      ))}
+                      {getGenerationModels().map((opt) => {
+                        const isSelected = compareMode ? compareModels.includes(opt.id) : selectedModel === opt.id;
+                        return (
+                          <button
+                            key={opt.id}
+                            onClick={() => (compareMode ? toggleCompareModel(opt.id) : selectModel(opt.id))}
+                            className={cn(
+                              "w-full px-3 py-2 text-left rounded-lg transition-colors",
+                              isSelected
+                                ? "bg-lime-400/20 border border-lime-400/30"
+                                : "bg-zinc-800 hover:bg-zinc-700 border border-transparent"
+                            )}
+                          >
+                            <p className={cn("text-sm font-medium flex items-center gap-1.5", isSelected ? "text-lime-400" : "text-white")}>
+                              {compareMode && isSelected && <Check className="w-3.5 h-3.5" />}
+                              {opt.label}
+                            </p>
+                            <p className="text-xs text-zinc-500">{opt.description}</p>
+                          </button>
+                        );
+                      })}
                     </div>
                   </div>
 
-                  {/* Seedream Text-to-Image: Image Size */}
-                  {selectedModel === "seedream" && (
+                  {/* Image Size presets */}
+                  {modelCapabilities?.imageSizes && (
                     <div>
                       <span className="text-xs text-zinc-500 uppercase tracking-wide">Image Size</span>
                       <div className="flex flex-wrap gap-1 mt-1.5">
-                        {SEEDREAM_SIZES.map((size) => (
+                        {modelCapabilities.imageSizes.map((size) => (
                           <button key={size} onClick={() => setImageSize(size as ImageSize)}
                             className={cn("px-2 py-1 text-xs rounded-md transition-colors", imageSize === size ? "bg-lime-400 text-black font-medium" : "bg-zinc-800 text-zinc-400 hover:text-white")}
                           >{formatSizeLabel(size)}</button>
@@ -918,22 +1349,8 @@ export default function ProjectWorkspace() {
                     </div>
                   )}
 
-                  {/* Seedream Edit: Size Presets */}
-                  {selectedModel === "seedream-edit" && (
-                    <div>
-                      <span className="text-xs text-zinc-500 uppercase tracking-wide">Output Size</span>
-                      <div className="flex flex-wrap gap-1 mt-1.5">
-                        {SEEDREAM_EDIT_SIZES.map((size) => (
-                          <button key={size} onClick={() => setImageSize(size as ImageSize)}
-                            className={cn("px-2 py-1 text-xs rounded-md transition-colors", imageSize === size ? "bg-lime-400 text-black font-medium" : "bg-zinc-800 text-zinc-400 hover:text-white")}
-                          >{formatSizeLabel(size)}</button>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Nano Banana Pro / Google: Aspect Ratio */}
-                  {(selectedModel === "nano-banana-pro" || selectedModel === "google-nano-banana") && (
+                  {/* Aspect Ratio */}
+                  {aspectRatioOptions.length > 0 && (
                     <div>
                       <span className="text-xs text-zinc-500 uppercase tracking-wide">Aspect Ratio</span>
                       <div className="flex flex-wrap gap-1 mt-1.5">
@@ -946,12 +1363,12 @@ export default function ProjectWorkspace() {
                     </div>
                   )}
 
-                  {/* Resolution - only for Nano Banana Pro */}
-                  {selectedModel === "nano-banana-pro" && (
+                  {/* Resolution */}
+                  {modelCapabilities?.resolutions && (
                     <div>
                       <span className="text-xs text-zinc-500 uppercase tracking-wide">Resolution</span>
                       <div className="flex gap-1 mt-1.5">
-                        {["1K", "2K", "4K"].map((res) => (
+                        {modelCapabilities.resolutions.map((res) => (
                           <button key={res} onClick={() => setResolution(res as Resolution)}
                             className={cn("px-3 py-1 text-xs rounded-md transition-colors", resolution === res ? "bg-lime-400 text-black font-medium" : "bg-zinc-800 text-zinc-400 hover:text-white")}
                           >{res}</button>
@@ -964,13 +1381,50 @@ export default function ProjectWorkspace() {
                   <div>
                     <span className="text-xs text-zinc-500 uppercase tracking-wide">Format</span>
                     <div className="flex gap-1 mt-1.5">
-                      {(selectedModel === "google-nano-banana" ? ["png", "jpg", "webp"] : ["png", "jpg"]).map((fmt) => (
+                      {(modelCapabilities?.outputFormats || ["png"]).map((fmt) => (
                         <button key={fmt} onClick={() => setOutputFormat(fmt as OutputFormat)}
                           className={cn("px-3 py-1 text-xs rounded-md transition-colors uppercase", outputFormat === fmt ? "bg-lime-400 text-black font-medium" : "bg-zinc-800 text-zinc-400 hover:text-white")}
                         >{fmt}</button>
                       ))}
                     </div>
                   </div>
+
+                  {/* Number of images */}
+                  {modelCapabilities && modelCapabilities.maxOutputs > 1 && (
+                    <div>
+                      <span className="text-xs text-zinc-500 uppercase tracking-wide">Images</span>
+                      <div className="flex gap-1 mt-1.5">
+                        {Array.from({ length: modelCapabilities.maxOutputs }, (_, i) => i + 1).map((count) => (
+                          <button key={count} onClick={() => setNumImages(count)}
+                            className={cn("px-3 py-1 text-xs rounded-md transition-colors", numImages === count ? "bg-lime-400 text-black font-medium" : "bg-zinc-800 text-zinc-400 hover:text-white")}
+                          >{count}</button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Seed */}
+                  {modelCapabilities?.seed && (
+                    <div>
+                      <span className="text-xs text-zinc-500 uppercase tracking-wide">Seed</span>
+                      <div className="flex gap-1 mt-1.5">
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          maxLength={15}
+                          value={seed}
+                          onChange={(e) => setSeed(e.target.value.replace(/\D/g, ""))}
+                          placeholder="Random"
+                          className="flex-1 min-w-0 px-2 py-1 text-xs rounded-md bg-zinc-800 text-white placeholder:text-zinc-500 outline-none focus:ring-1 focus:ring-lime-400/50"
+                        />
+                        {seed && (
+                          <button onClick={() => setSeed("")} title="Use a random seed"
+                            className="px-2 py-1 rounded-md bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+                          ><Dices className="w-3.5 h-3.5" /></button>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -983,10 +1437,10 @@ export default function ProjectWorkspace() {
                 <div className="w-8 h-8 bg-lime-400/20 rounded-lg flex items-center justify-center"><Wand2 className="w-4 h-4 text-lime-400" /></div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-white truncate">
-                    {MODEL_OPTIONS.find(m => m.value === selectedModel)?.label}
+                    {compareMode ? activeModels.map(model => model.label).join(" vs ") : selectedModelInfo?.label}
                   </p>
                   <p className="text-xs text-zinc-500">
-                    {MODEL_OPTIONS.find(m => m.value === selectedModel)?.description}
+                    {compareMode ? "Model comparison" : selectedModelInfo?.description}
                   </p>
                 </div>
                 <ChevronDown className={cn("w-4 h-4 text-zinc-500 transition-transform", showSettings && "rotate-180")} />
@@ -1004,24 +1458,24 @@ export default function ProjectWorkspace() {
               </div>
             )}
             {/* Warning if model requires image but none provided */}
-            {MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0 && (
+            {selectedModelNeedsImage && (
               <div className="mb-3 flex items-center gap-2 px-3 py-2 bg-amber-500/10 border border-amber-500/20 rounded-lg">
                 <Upload className="w-4 h-4 text-amber-400" />
-                <span className="text-xs text-amber-400">Add an image to use {MODEL_OPTIONS.find(m => m.value === selectedModel)?.label}</span>
+                <span className="text-xs text-amber-400">Add an image to use {modelNeedingImage?.label}</span>
               </div>
             )}
             <button
               onClick={generate}
-              disabled={!prompt.trim() || (MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0)}
+              disabled={!canGenerate || selectedModelNeedsImage}
               className={cn(
                 "w-full py-3.5 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all", 
-                !prompt.trim() || (MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0)
+                !canGenerate || selectedModelNeedsImage
                   ? "bg-zinc-800 text-zinc-500 cursor-not-allowed" 
                   : "bg-lime-400 text-black hover:bg-lime-300 shadow-lg shadow-lime-400/20"
               )}
             >
               <Sparkles className="w-5 h-5" />
-              Generate
+              {generateLabel}
             </button>
           </div>
         </div>
@@ -1030,14 +1484,14 @@ export default function ProjectWorkspace() {
           <div className="p-3 border-t border-white/5">
             <button 
               onClick={generate} 
-              disabled={!prompt.trim() || (MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0)}
+              disabled={!canGenerate || selectedModelNeedsImage}
               className={cn(
                 "w-full p-3 rounded-xl transition-all flex items-center justify-center", 
-                !prompt.trim() || (MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0)
+                !canGenerate || selectedModelNeedsImage
                   ? "bg-zinc-800 text-zinc-500 cursor-not-allowed" 
                   : "bg-lime-400 text-black hover:bg-lime-300 shadow-lg shadow-lime-400/20"
               )}
-              title={MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0 ? "Add an image first" : "Generate"}
+              title={selectedModelNeedsImage ? "Add an image first" : "Generate"}
             ><Sparkles className="w-5 h-5" /></button>
           </div>
         )}
@@ -1080,6 +1534,9 @@ export default function ProjectWorkspace() {
             >
               <Columns className="w-5 h-5" />
             </button>
+            <button onClick={() => setShowHistoryTree(true)} className="p-2 text-zinc-500 hover:text-white hover:bg-white/5 rounded-lg transition-colors" title="History Tree">
+              <GitBranch className="w-5 h-5" />
+            </button>
             <button onClick={() => setShowPromptLibrary(true)} className="p-2 text-zinc-500 hover:text-white hover:bg-white/5 rounded-lg transition-colors" title="Prompt Library">
               <BookOpen className="w-5 h-5" />
             </button>
@@ -1103,8 +1560,77 @@ export default function ProjectWorkspace() {
             </div>
           ) : (
             <div className="space-y-6 mx-auto w-full">
-              {generations.map((gen) => (
-                <div key={gen.id} className="group bg-zinc-900/30 border border-zinc-800/50 rounded-2xl overflow-hidden">
+              {generations.map((gen, index) => {
+                // A model comparison renders as one grid card where its first item sits
+                if (gen.comparisonGroupId) {
+                  const groupId = gen.comparisonGroupId;
+                  if (generations.findIndex(g => g.comparisonGroupId === groupId) !== index) return null;
+                  const group = generations.filter(g => g.comparisonGroupId === groupId);
+                  return (
+                    <div key={groupId} id={`generation-${groupId}`} className="bg-zinc-900/30 border border-zinc-800/50 rounded-2xl overflow-hidden">
+                      <div className="px-4 py-3 flex items-center justify-between gap-2 border-b border-zinc-800/30">
+                        <p className="text-sm text-zinc-300 flex-1 line-clamp-1">{gen.prompt}</p>
+                        <div className="flex items-center gap-1">
+                          <span className="px-2 py-0.5 bg-sky-400/10 text-sky-400 text-xs font-medium rounded-md flex items-center gap-1">
+                            <Columns className="w-3 h-3" />
+                            {group.length} models
+                          </span>
+                          <button onClick={() => copyPrompt(gen.prompt, groupId)} className="p-1.5 text-zinc-600 hover:text-white transition-colors flex-shrink-0">
+                            {copiedId === groupId ? <Check className="w-4 h-4 text-lime-400" /> : <Copy className="w-4 h-4" />}
+                          </button>
+                        </div>
+                      </div>
+                      <ModelComparison
+                        entries={group.map(g => ({
+                          id: g.id,
+                          model: g.model || null,
+                          url: g.outputImage,
+                          previewUrl: g.previewImage,
+                          loading: g.loading,
+                          error: g.error,
+                          latencyMs: g.latencyMs,
+                          isWinner: g.isComparisonWinner,
+                        }))}
+                        prompt={gen.prompt}
+                        onOpen={(itemId) => setFullView(group.find(g => g.id === itemId) || null)}
+                        onUseAsInput={useAsInput}
+                        onPickWinner={(itemId) => pickComparisonWinner(groupId, itemId)}
+                      />
+                    </div>
+                  );
+                }
+
+                // Images from one request render together as a single batch card
+                if (gen.batchId) {
+                  if (generations[index - 1]?.batchId === gen.batchId) return null;
+                  const batch = generations.filter(g => g.batchId === gen.batchId);
+                  return (
+                    <div key={gen.batchId} id={`generation-${gen.batchId}`} className="bg-zinc-900/30 border border-zinc-800/50 rounded-2xl overflow-hidden">
+                      <div className="px-4 py-3 flex items-center justify-between gap-2 border-b border-zinc-800/30">
+                        <p className="text-sm text-zinc-300 flex-1 line-clamp-1">{gen.prompt}</p>
+                        <div className="flex items-center gap-1">
+                          <span className="px-2 py-0.5 bg-lime-400/10 text-lime-400 text-xs font-medium rounded-md">
+                            {batch.length} variations
+                          </span>
+                          <span className="text-xs text-zinc-600">{gen.aspectRatio || "auto"}</span>
+                          <button onClick={() => copyPrompt(gen.prompt, gen.batchId!)} className="p-1.5 text-zinc-600 hover:text-white transition-colors flex-shrink-0">
+                            {copiedId === gen.batchId ? <Check className="w-4 h-4 text-lime-400" /> : <Copy className="w-4 h-4" />}
+                          </button>
+                        </div>
+                      </div>
+                      <GenerationBatch
+                        images={batch.map(g => ({ id: g.id, url: g.outputImage!, previewUrl: g.previewImage, seed: g.seed }))}
+                        prompt={gen.prompt}
+                        onOpen={(batchItemId) => setFullView(batch.find(g => g.id === batchItemId) || null)}
+                        onUseAsInput={useAsInput}
+                        onDelete={handleDeleteGeneration}
+                      />
+                    </div>
+                  );
+                }
+
+                return (
+                <div key={gen.id} id={`generation-${gen.id}`} className="group bg-zinc-900/30 border border-zinc-800/50 rounded-2xl overflow-hidden">
                   {/* Header bar */}
                   <div className="px-4 py-3 flex items-center justify-between gap-2 border-b border-zinc-800/30">
                     {gen.type === "upload" ? (
@@ -1146,16 +1672,28 @@ export default function ProjectWorkspace() {
                           <div className="w-12 h-12 rounded-xl bg-lime-400/10 flex items-center justify-center border border-lime-400/20 animate-[breathe_2s_ease-in-out_infinite]">
                             <Sparkles className="w-5 h-5 text-lime-400" />
                           </div>
-                          <span className="text-sm text-zinc-400">Generating...</span>
+                          <span className="text-sm text-zinc-400">
+                            {gen.numImages && gen.numImages > 1 ? `Generating ${gen.numImages} images...` : "Generating..."}
+                          </span>
+                          {gen.jobId && (
+                            <button onClick={() => cancelGeneration(gen)} className="px-3 py-1.5 text-xs text-zinc-500 hover:text-white bg-zinc-800/60 hover:bg-zinc-700 rounded-lg transition-colors">
+                              Cancel
+                            </button>
+                          )}
                         </div>
                       </div>
                     ) : gen.error ? (
                       <div className="w-full min-h-[200px] bg-zinc-800 flex items-center justify-center">
                         <div className="text-center p-4">
                           <p className="text-red-400 mb-3 text-sm">{gen.error}</p>
-                          <button onClick={() => retry(gen)} className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 rounded-lg text-sm flex items-center gap-2 mx-auto">
-                            <RotateCcw className="w-4 h-4" />Retry
-                          </button>
+                          <div className="flex items-center justify-center gap-2">
+                            <button onClick={() => retry(gen)} className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 rounded-lg text-sm flex items-center gap-2">
+                              <RotateCcw className="w-4 h-4" />Retry
+                            </button>
+                            <button onClick={() => dismissGeneration(gen)} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-400 rounded-lg text-sm">
+                              Dismiss
+                            </button>
+                          </div>
                         </div>
                       </div>
                     ) : gen.inputImage && gen.outputImage && showBeforeAfter ? (
@@ -1179,6 +1717,7 @@ export default function ProjectWorkspace() {
                         )}
                         <img 
                           src={gen.outputImage} 
+                          {...feedImageSources(gen)}
                           alt={gen.prompt} 
                           className="max-w-full max-h-[calc(100vh-280px)] lg:max-h-[calc(100vh-200px)] w-auto h-auto object-contain cursor-pointer"
                           onClick={() => setFullView(gen)}
@@ -1219,7 +1758,10 @@ export default function ProjectWorkspace() {
                       </button>
                       <AnnotateButton
                         imageUrl={gen.outputImage}
-                        onAnnotated={handleAnnotatedImage}
+                        onAnnotated={(annotatedUrl, details) => handleAnnotatedImage(annotatedUrl, gen.id, details)}
+                        enableEditRegion
+                        sourceImageId={isSavedImageId(gen.id) ? gen.id : undefined}
+                        projectId={currentProject?.id}
                         className="p-2.5 bg-violet-500/20 hover:bg-violet-500/30 text-violet-400 rounded-xl transition-colors border border-violet-500/20"
                       >
                         <Pencil className="w-4 h-4" />
@@ -1235,7 +1777,8 @@ export default function ProjectWorkspace() {
                     </div>
                   )}
                 </div>
-              ))}
+                );
+              })}
               <div ref={historyEndRef} />
             </div>
           )}
@@ -1304,10 +1847,10 @@ export default function ProjectWorkspace() {
                 {/* Generate button */}
                 <button
                   onClick={() => { generate(); }}
-                  disabled={!prompt.trim()}
+                  disabled={!canGenerate}
                   className={cn(
                     "flex-shrink-0 w-10 h-10 rounded-lg flex items-center justify-center transition-all",
-                    !prompt.trim() ? "bg-zinc-800 text-zinc-600" : "bg-lime-400 text-black"
+                    !canGenerate ? "bg-zinc-800 text-zinc-600" : "bg-lime-400 text-black"
                   )}
                 >
                   {activeGenerations > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
@@ -1400,6 +1943,24 @@ export default function ProjectWorkspace() {
                   </div>
                 )}
 
+                {editRegionActive && (
+                  <div className="mt-2 flex items-center gap-2 px-3 py-2 text-xs text-lime-300 bg-lime-400/10 border border-lime-400/20 rounded-lg">
+                    <Highlighter className="w-3.5 h-3.5 flex-shrink-0" />
+                    <span className="flex-1">Editing marked region only</span>
+                    <button onClick={() => setEditRegion(null)} className="text-zinc-400 hover:text-white" title="Edit the whole image">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+                {!editRegionActive && !!inputInstructions?.length && (
+                  <div className="mt-2 flex items-center gap-2 px-3 py-2 text-xs text-violet-300 bg-violet-500/10 border border-violet-500/20 rounded-lg">
+                    <Pencil className="w-3.5 h-3.5 flex-shrink-0" />
+                    <span>
+                      {inputInstructions.length} marked {inputInstructions.length === 1 ? "region" : "regions"} will be described in the prompt
+                    </span>
+                  </div>
+                )}
+
                 {/* Remove all images button */}
                 {inputImages.length > 0 && (
                   <button 
@@ -1459,7 +2020,7 @@ export default function ProjectWorkspace() {
                           )}
                           disabled={inputImages.includes(gen.outputImage!)}
                         >
-                          <img src={gen.outputImage} alt="Generated" className="w-full h-full object-cover" />
+                          <img src={gen.thumbnailImage || gen.outputImage} alt="Generated" className="w-full h-full object-cover" loading="lazy" />
                           {!inputImages.includes(gen.outputImage!) && (
                             <div className="absolute inset-0 bg-lime-500/30 flex items-center justify-center">
                               <Sparkles className="w-3 h-3 text-lime-200" />
@@ -1481,35 +2042,44 @@ export default function ProjectWorkspace() {
                 >
                   <div className="flex items-center gap-2">
                     <Wand2 className="w-4 h-4 text-lime-400" />
-                    <span className="text-sm text-zinc-300">{MODEL_OPTIONS.find(m => m.value === selectedModel)?.label}</span>
+                    <span className="text-sm text-zinc-300 truncate">
+                      {compareMode ? activeModels.map(model => model.label).join(" vs ") : selectedModelInfo?.label}
+                    </span>
                   </div>
                   <ChevronDown className={cn("w-4 h-4 text-zinc-500 transition-transform", mobileShowModel && "rotate-180")} />
                 </button>
                 
                 {mobileShowModel && (
                   <div className="grid grid-cols-2 gap-1.5 p-2 bg-zinc-800/30 rounded-xl">
-                    {MODEL_OPTIONS.map((opt) => (
-                      <button
-                        key={opt.value}
-                        onClick={() => {
-                          setSelectedModel(opt.value);
-                          if (opt.value === "google-nano-banana") setAspectRatio("match_input_image");
-                          else if (opt.value === "nano-banana-pro") setAspectRatio("auto");
-                          else if (opt.value === "seedream-edit") setImageSize("auto_4K");
-                          else if (opt.value === "seedream") setImageSize("auto_2K");
-                        }}
-                        className={cn(
-                          "px-2 py-2 rounded-lg text-center transition-colors",
-                          selectedModel === opt.value
-                            ? "bg-lime-400/20 border border-lime-400/30"
-                            : "bg-zinc-800 border border-transparent"
-                        )}
-                      >
-                        <p className={cn("text-xs font-medium truncate", selectedModel === opt.value ? "text-lime-400" : "text-white")}>
-                          {opt.label}
-                        </p>
-                      </button>
-                    ))}
+                    {getGenerationModels().map((opt) => {
+                      const isSelected = compareMode ? compareModels.includes(opt.id) : selectedModel === opt.id;
+                      return (
+                        <button
+                          key={opt.id}
+                          onClick={() => (compareMode ? toggleCompareModel(opt.id) : selectModel(opt.id))}
+                          className={cn(
+                            "px-2 py-2 rounded-lg text-center transition-colors",
+                            isSelected
+                              ? "bg-lime-400/20 border border-lime-400/30"
+                              : "bg-zinc-800 border border-transparent"
+                          )}
+                        >
+                          <p className={cn("text-xs font-medium truncate", isSelected ? "text-lime-400" : "text-white")}>
+                            {opt.label}
+                          </p>
+                        </button>
+                      );
+                    })}
+                    <button
+                      onClick={() => setCompareMode(!compareMode)}
+                      className={cn(
+                        "col-span-2 flex items-center justify-center gap-1.5 px-2 py-2 rounded-lg text-xs font-medium transition-colors",
+                        compareMode ? "bg-lime-400 text-black" : "bg-zinc-800 text-zinc-400"
+                      )}
+                    >
+                      <Columns className="w-3.5 h-3.5" />
+                      {compareMode ? "Comparing models" : "Compare models"}
+                    </button>
                   </div>
                 )}
 
@@ -1521,9 +2091,9 @@ export default function ProjectWorkspace() {
                   <div className="flex items-center gap-2">
                     <Settings2 className="w-4 h-4 text-zinc-400" />
                     <span className="text-sm text-zinc-300">
-                      {selectedModel === "seedream" || selectedModel === "seedream-edit" 
+                      {modelCapabilities?.imageSizes
                         ? formatSizeLabel(imageSize) 
-                        : selectedModel === "nano-banana-pro" 
+                        : modelCapabilities?.resolutions
                           ? `${aspectRatio} • ${resolution}` 
                           : aspectRatio}
                     </span>
@@ -1533,26 +2103,12 @@ export default function ProjectWorkspace() {
 
                 {mobileShowSettings && (
                   <div className="p-3 bg-zinc-800/30 rounded-xl space-y-3">
-                    {/* Seedream Text-to-Image: Image Size */}
-                    {selectedModel === "seedream" && (
+                    {/* Image Size presets */}
+                    {modelCapabilities?.imageSizes && (
                       <div className="flex items-center gap-2">
                         <span className="text-xs text-zinc-500 w-10">Size</span>
                         <div className="flex flex-wrap gap-1.5 flex-1">
-                          {SEEDREAM_SIZES.slice(0, 6).map((size) => (
-                            <button key={size} onClick={() => setImageSize(size as ImageSize)}
-                              className={cn("px-2.5 py-1.5 text-xs rounded-lg transition-colors", imageSize === size ? "bg-lime-400 text-black font-medium" : "bg-zinc-700 text-zinc-400")}
-                            >{formatSizeLabel(size)}</button>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-
-                    {/* Seedream Edit: Size Presets */}
-                    {selectedModel === "seedream-edit" && (
-                      <div className="flex items-center gap-2">
-                        <span className="text-xs text-zinc-500 w-10">Size</span>
-                        <div className="flex flex-wrap gap-1.5 flex-1">
-                          {SEEDREAM_EDIT_SIZES.slice(0, 6).map((size) => (
+                          {modelCapabilities.imageSizes.slice(0, 6).map((size) => (
                             <button key={size} onClick={() => setImageSize(size as ImageSize)}
                               className={cn("px-2.5 py-1.5 text-xs rounded-lg transition-colors", imageSize === size ? "bg-lime-400 text-black font-medium" : "bg-zinc-700 text-zinc-400")}
                             >{formatSizeLabel(size)}</button>
@@ -1562,7 +2118,7 @@ export default function ProjectWorkspace() {
                     )}
 
                     {/* Aspect Ratio */}
-                    {(selectedModel === "nano-banana-pro" || selectedModel === "google-nano-banana") && (
+                    {aspectRatioOptions.length > 0 && (
                       <div className="flex items-center gap-2">
                         <span className="text-xs text-zinc-500 w-10">Ratio</span>
                         <div className="flex flex-wrap gap-1.5 flex-1">
@@ -1576,11 +2132,11 @@ export default function ProjectWorkspace() {
                     )}
 
                     {/* Resolution */}
-                    {selectedModel === "nano-banana-pro" && (
+                    {modelCapabilities?.resolutions && (
                       <div className="flex items-center gap-2">
                         <span className="text-xs text-zinc-500 w-10">Quality</span>
                         <div className="flex gap-1.5">
-                          {["1K", "2K", "4K"].map((res) => (
+                          {modelCapabilities.resolutions.map((res) => (
                             <button key={res} onClick={() => setResolution(res as Resolution)}
                               className={cn("px-3 py-1.5 text-xs rounded-lg transition-colors", resolution === res ? "bg-lime-400 text-black font-medium" : "bg-zinc-700 text-zinc-400")}
                             >{res}</button>
@@ -1588,6 +2144,41 @@ export default function ProjectWorkspace() {
                         </div>
                       </div>
                     )}
+
+                    {/* Number of images */}
+                    {modelCapabilities && modelCapabilities.maxOutputs > 1 && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-zinc-500 w-10">Images</span>
+                        <div className="flex gap-1.5">
+                          {Array.from({ length: modelCapabilities.maxOutputs }, (_, i) => i + 1).map((count) => (
+                            <button key={count} onClick={() => setNumImages(count)}
+                              className={cn("px-3 py-1.5 text-xs rounded-lg transition-colors", numImages === count ? "bg-lime-400 text-black font-medium" : "bg-zinc-700 text-zinc-400")}
+                            >{count}</button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Seed */}
+                    {modelCapabilities?.seed && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-zinc-500 w-10">Seed</span>
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          maxLength={15}
+                          value={seed}
+                          onChange={(e) => setSeed(e.target.value.replace(/\D/g, ""))}
+                          placeholder="Random"
+                          className="flex-1 min-w-0 px-2.5 py-1.5 text-xs rounded-lg bg-zinc-700 text-white placeholder:text-zinc-400 outline-none"
+                        />
+                        {seed && (
+                          <button onClick={() => setSeed("")} title="Use a random seed"
+                            className="px-2.5 py-1.5 rounded-lg bg-zinc-700 text-zinc-400"
+                          ><Dices className="w-3.5 h-3.5" /></button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -1600,7 +2191,7 @@ export default function ProjectWorkspace() {
               )}
 
               {/* Warning if model requires image but none provided */}
-              {MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0 && (
+              {selectedModelNeedsImage && (
                 <div className="mb-3 flex items-center gap-2 px-3 py-2 bg-amber-500/10 border border-amber-500/20 rounded-lg">
                   <Upload className="w-4 h-4 text-amber-400" />
                   <span className="text-xs text-amber-400">Add an image to use this model</span>
@@ -1610,16 +2201,16 @@ export default function ProjectWorkspace() {
               {/* Generate Button */}
               <button
                 onClick={() => { generate(); setMobileSheetExpanded(false); }}
-                disabled={!prompt.trim() || (MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0)}
+                disabled={!canGenerate || selectedModelNeedsImage}
                 className={cn(
                   "w-full py-3.5 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all",
-                  !prompt.trim() || (MODEL_OPTIONS.find(m => m.value === selectedModel)?.requiresImageInput && inputImages.length === 0)
+                  !canGenerate || selectedModelNeedsImage
                     ? "bg-zinc-800 text-zinc-500" 
                     : "bg-lime-400 text-black active:scale-[0.98]"
                 )}
               >
                 <Sparkles className="w-5 h-5" />
-                Generate
+                {generateLabel}
               </button>
             </div>
           )}
@@ -1633,6 +2224,15 @@ export default function ProjectWorkspace() {
         onSelectPrompt={handleSelectPrompt}
       />
 
+      {/* History Tree Modal */}
+      <HistoryTree
+        isOpen={showHistoryTree}
+        onClose={() => setShowHistoryTree(false)}
+        items={historyTreeItems}
+        activeImageUrl={inputImages[selectedImageIndex]}
+        onSelect={branchFromImage}
+      />
+
       {/* Full View Modal */}
       {fullView && (
         <div
@@ -1679,16 +2279,106 @@ export default function ProjectWorkspace() {
             {fullView.outputImage && (
               <AnnotateButton
                 imageUrl={fullView.outputImage}
-                onAnnotated={(annotatedUrl) => {
-                  handleAnnotatedImage(annotatedUrl);
+                onAnnotated={(annotatedUrl, details) => {
+                  handleAnnotatedImage(annotatedUrl, fullView.id, details);
                   setFullView(null);
                 }}
+                enableEditRegion
+                sourceImageId={isSavedImageId(fullView.id) ? fullView.id : undefined}
+                projectId={currentProject?.id}
                 className="flex-1 lg:flex-initial flex items-center justify-center gap-2 px-4 py-3 lg:py-2.5 bg-violet-500/20 hover:bg-violet-500/30 text-violet-400 rounded-xl font-medium transition-colors text-sm max-w-xs border border-violet-500/20"
               >
                 <Pencil className="w-4 h-4" />
                 Annotate
               </AnnotateButton>
             )}
+            {fullView.outputImage && (
+              <div className="relative flex-1 lg:flex-initial max-w-xs" onClick={(e) => e.stopPropagation()}>
+                <button
+                  onClick={() => setExtendMenuFor(extendMenuFor === fullView.id ? null : fullView.id)}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 lg:py-2.5 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl font-medium transition-colors text-sm"
+                  title="Extend the canvas to a new aspect ratio"
+                >
+                  <Expand className="w-4 h-4" />
+                  <span className="hidden sm:inline">Extend</span>
+                  <ChevronUp className={cn("w-3 h-3 transition-transform", extendMenuFor !== fullView.id && "rotate-180")} />
+                </button>
+                {extendMenuFor === fullView.id && (
+                  <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 flex gap-1 p-1 bg-zinc-900 border border-zinc-800 rounded-xl shadow-xl">
+                    {EXTEND_CANVAS_RATIOS.map((ratio) => (
+                      <button
+                        key={ratio}
+                        onClick={() => {
+                          extendCanvasFrom(fullView, ratio);
+                          setExtendMenuFor(null);
+                          setFullView(null);
+                        }}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium text-zinc-300 hover:bg-zinc-800 hover:text-lime-400 transition-colors"
+                      >
+                        {ratio}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {fullView.outputImage && UPSCALE_FACTORS.map((factor) => (
+              <button
+                key={factor}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleUpscale(fullView, factor);
+                }}
+                disabled={upscaling !== null}
+                className="flex-1 lg:flex-initial flex items-center justify-center gap-2 px-4 py-3 lg:py-2.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors text-sm max-w-xs"
+                title={`Upscale ${factor}× into a new image`}
+              >
+                {upscaling === factor ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageUpscale className="w-4 h-4" />}
+                <span className="hidden sm:inline">Upscale</span> {factor}×
+              </button>
+            ))}
+            {fullView.comparisonGroupId && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setFullView(null);
+                  document.getElementById(`generation-${fullView.comparisonGroupId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+                }}
+                className="flex-1 lg:flex-initial flex items-center justify-center gap-2 px-4 py-3 lg:py-2.5 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl font-medium transition-colors text-sm max-w-xs"
+                title="Show the other models' results for this prompt"
+              >
+                <Columns className="w-4 h-4" />
+                <span className="hidden sm:inline">Comparison</span>
+              </button>
+            )}
+            {fullView.canRerun && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  rerunGeneration(fullView);
+                  setFullView(null);
+                }}
+                className="flex-1 lg:flex-initial flex items-center justify-center gap-2 px-4 py-3 lg:py-2.5 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl font-medium transition-colors text-sm max-w-xs"
+                title="Send the exact same request again (model, inputs and seed)"
+              >
+                <Repeat className="w-4 h-4" />
+                <span className="hidden sm:inline">Re-run</span>
+              </button>
+            )}
+            {fullView.seed !== undefined && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  applySeedFrom(fullView);
+                  setFullView(null);
+                }}
+                className="flex-1 lg:flex-initial flex items-center justify-center gap-2 px-4 py-3 lg:py-2.5 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl font-medium transition-colors text-sm max-w-xs"
+                title="Use this seed and prompt for the next generation"
+              >
+                <Dices className="w-4 h-4" />
+                <span className="hidden sm:inline">Seed</span> {fullView.seed}
+              </button>
+            )}
             <a
               href={fullView.outputImage}
               download
@@ -1700,6 +2390,11 @@ export default function ProjectWorkspace() {
               Download
             </a>
           </div>
+          {upscaleError?.itemId === fullView.id && (
+            <p className="flex-shrink-0 pb-3 text-center text-xs text-red-400 bg-zinc-900/80" onClick={(e) => e.stopPropagation()}>
+              {upscaleError.message}
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { getProjects, getUsageSummary } from "@/lib/supabase";
+import type { UsageSummaryRow } from "@/lib/database.types";
+import {
+  formatCost,
+  groupUsage,
+  sumUsage,
+  type UsageTotals,
+} from "@/lib/usage";
+import { AlertCircle, ArrowLeft, Loader2, Receipt } from "lucide-react";
+
+const RANGE_OPTIONS = [7, 30, 90] as const;
+
+// Grouping key for events without a project (launch kits, deleted projects)
+const NO_PROJECT = "none";
+
+function formatCount(value: number): string {
+  return value.toLocaleString();
+}
+
+function UsageTable({
+  title,
+  rows,
+  emptyLabel,
+}: {
+  title: string;
+  rows: { key: string; label: string; totals: UsageTotals }[];
+  emptyLabel: string;
+}) {
+  const maxCost = Math.max(0, ...rows.map((row) => row.totals.costUsd));
+
+  return (
+    <section className="bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden">
+      <h2 className="px-4 py-3 text-sm font-semibold text-white border-b border-zinc-800">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-zinc-500 text-center">{emptyLabel}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="px-4 py-2 font-medium"></th>
+                <th className="px-4 py-2 font-medium text-right">Calls</th>
+                <th className="px-4 py-2 font-medium text-right">Images</th>
+                <th className="px-4 py-2 font-medium text-right">Video</th>
+                <th className="px-4 py-2 font-medium text-right">Tokens</th>
+                <th className="px-4 py-2 font-medium text-right w-40">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ key, label, totals }) => (
+                <tr key={key} className="border-t border-zinc-800/60">
+                  <td className="px-4 py-2 text-zinc-200 truncate max-w-[240px]">{label}</td>
+                  <td className="px-4 py-2 text-right text-zinc-400">{formatCount(totals.events)}</td>
+                  <td className="px-4 py-2 text-right text-zinc-400">{formatCount(totals.images)}</td>
+                  <td className="px-4 py-2 text-right text-zinc-400">
+                    {totals.videoSeconds > 0 ? `${formatCount(totals.videoSeconds)}s` : "—"}
+                  </td>
+                  <td className="px-4 py-2 text-right text-zinc-400">
+                    {formatCount(totals.inputTokens + totals.outputTokens)}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center justify-end gap-2">
+                      <div className="hidden sm:block w-16 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-lime-400 rounded-full"
+                          style={{ width: `${maxCost > 0 ? (totals.costUsd / maxCost) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <span className="text-white font-medium tabular-nums">{formatCost(totals.costUsd)}</span>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default function UsagePage() {
+  const [rangeDays, setRangeDays] = useState<(typeof RANGE_OPTIONS)[number]>(30);
+  // Range the current summary (or error) belongs to - loading until it matches
+  const [loaded, setLoaded] = useState<{ days: number; rows: UsageSummaryRow[]; error?: string } | null>(null);
+  const [projectNames, setProjectNames] = useState<Map<string, string>>(new Map());
+
+  const loading = loaded?.days !== rangeDays;
+  const error = loaded?.error ?? null;
+
+  useEffect(() => {
+    getProjects()
+      .then((projects) => setProjectNames(new Map(projects.map((project) => [project.id, project.name]))))
+      .catch((projectsError) => console.error("Error loading projects:", projectsError));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const since = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString();
+
+    // Days are grouped in the browser's time zone
+    getUsageSummary(since, Intl.DateTimeFormat().resolvedOptions().timeZone)
+      .then((rows) => {
+        if (!cancelled) setLoaded({ days: rangeDays, rows });
+      })
+      .catch((loadError) => {
+        console.error("Error loading usage:", loadError);
+        if (!cancelled) setLoaded({ days: rangeDays, rows: [], error: "Failed to load usage events" });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeDays]);
+
+  const rows = useMemo(() => (loaded?.days === rangeDays ? loaded.rows : []), [loaded, rangeDays]);
+  const totals = useMemo(() => sumUsage(rows), [rows]);
+
+  const dayRows = useMemo(
+    () =>
+      [...groupUsage(rows, (row) => row.day)].map(([day, dayTotals]) => ({
+        key: day,
+        label: new Date(`${day}T00:00:00`).toLocaleDateString(undefined, {
+          weekday: "short",
+          month: "short",
+          day: "numeric",
+        }),
+        totals: dayTotals,
+      })),
+    [rows]
+  );
+
+  const projectRows = useMemo(
+    () =>
+      [...groupUsage(rows, (row) => row.project_id || NO_PROJECT)]
+        .map(([projectId, projectTotals]) => ({
+          key: projectId,
+          label:
+            projectId === NO_PROJECT
+              ? "No project"
+              : projectNames.get(projectId) || "Unknown project",
+          totals: projectTotals,
+        }))
+        .sort((a, b) => b.totals.costUsd - a.totals.costUsd),
+    [rows, projectNames]
+  );
+
+  const modelRows = useMemo(
+    () =>
+      // Labelled with the price table key
+      [...groupUsage(rows, (row) => `${row.model} (${row.provider})`)]
+        .map(([label, modelTotals]) => ({ key: label, label, totals: modelTotals }))
+        .sort((a, b) => b.totals.costUsd - a.totals.costUsd),
+    [rows]
+  );
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-lime-400/10 text-lime-400 text-sm">
+              <Receipt className="w-4 h-4" />
+              Usage
+            </div>
+            <h1 className="mt-3 text-2xl sm:text-3xl font-bold">Provider spend</h1>
+            <p className="text-zinc-400 text-sm mt-1">
+              Estimated from the price table in <code className="text-zinc-300">src/lib/usage.ts</code> (override
+              with <code className="text-zinc-300">USAGE_PRICES</code>). Check provider invoices for exact figures.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex bg-zinc-900 border border-zinc-800 rounded-xl p-1">
+              {RANGE_OPTIONS.map((days) => (
+                <button
+                  key={days}
+                  onClick={() => setRangeDays(days)}
+                  className={cn(
+                    "px-3 py-1.5 text-sm rounded-lg transition-colors",
+                    rangeDays === days ? "bg-lime-400 text-black font-medium" : "text-zinc-400 hover:text-white"
+                  )}
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+            <Link
+              href="/"
+              className="flex items-center gap-2 px-3 py-2 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-zinc-400 hover:text-white transition-colors text-sm"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="w-8 h-8 text-lime-400 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {/* Range totals */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[
+                { label: "Estimated cost", value: formatCost(totals.costUsd) },
+                { label: "Provider calls", value: formatCount(totals.events) },
+                { label: "Images", value: formatCount(totals.images) },
+                { label: "Tokens", value: formatCount(totals.inputTokens + totals.outputTokens) },
+              ].map((stat) => (
+                <div key={stat.label} className="p-4 bg-zinc-900 border border-zinc-800 rounded-2xl">
+                  <p className="text-xs text-zinc-500">{stat.label}</p>
+                  <p className="mt-1 text-xl font-semibold tabular-nums">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <UsageTable title="By day" rows={dayRows} emptyLabel="No usage in this range" />
+            <UsageTable title="By project" rows={projectRows} emptyLabel="No usage in this range" />
+            <UsageTable title="By model" rows={modelRows} emptyLabel="No usage in this range" />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
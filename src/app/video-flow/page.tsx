@@ -4,7 +4,8 @@ import { useState, useRef, useEffect, Suspense } from "react";
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { cn } from "@/lib/utils";
-import { supabase, createVideoFlow, updateVideoFlow, getVideoFlows, getProject, type VideoFlow, type Project } from "@/lib/supabase";
+import { createVideoFlow, updateVideoFlow, getVideoFlows, getProject, type VideoFlow, type Project } from "@/lib/supabase";
+import { runGenerationJob } from "@/lib/generation-jobs";
 import {
   Upload,
   Sparkles,
@@ -146,34 +147,23 @@ function VideoFlowPageContent() {
       // Upload data URL to Supabase before sending to API to prevent "request too large" errors
       let uploadedImageUrl = flowState.uploadedImage;
       if (flowState.uploadedImage.startsWith("data:")) {
-        const { uploadDataUrlToSupabase } = await import("@/lib/image-utils");
+        const { uploadDataUrlToStorage } = await import("@/lib/image-utils");
         try {
-          uploadedImageUrl = await uploadDataUrlToSupabase(flowState.uploadedImage, "video-flow");
+          uploadedImageUrl = await uploadDataUrlToStorage(flowState.uploadedImage, "video-flow");
         } catch (error) {
           console.error("Failed to upload image, using original:", error);
           // Continue with original if upload fails
         }
       }
 
-      const response = await fetch("/api/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          prompt: flowState.prompt,
-          imageInputs: [uploadedImageUrl],
-          aspectRatio: "auto",
-          resolution: "2K",
-          numImages: 1,
-        }),
+      const data = await runGenerationJob({
+        prompt: flowState.prompt,
+        imageInputs: [uploadedImageUrl],
+        aspectRatio: "auto",
+        resolution: "2K",
+        numImages: 1,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Generation failed");
-      }
-
-      const data = await response.json();
-
       if (data.imageUrl) {
         setFlowState((prev) => ({
           ...prev,
@@ -193,43 +183,30 @@ function VideoFlowPageContent() {
 
     try {
       // Upload images to get public URLs
-      const uploadImage = async (dataUrl: string, name: string) => {
-        if (!dataUrl.startsWith("data:")) return dataUrl;
-        
-        const response = await fetch(dataUrl);
-        const blob = await response.blob();
-        const fileName = `video-flow/${Date.now()}-${name}.png`;
-
-        const { error: uploadError } = await supabase.storage
-          .from("generated-images")
-          .upload(fileName, blob, {
-            contentType: "image/png",
-            cacheControl: "3600",
-          });
-
-        if (uploadError) {
-          throw new Error(`Failed to upload ${name} image: ${uploadError.message}`);
-        }
+      const { uploadDataUrlToStorage, requestImageDerivatives } = await import("@/lib/image-utils");
+      const uploadImage = (dataUrl: string) => uploadDataUrlToStorage(dataUrl, "video-flow");
 
-        const { data: publicUrlData } = supabase.storage
-          .from("generated-images")
-          .getPublicUrl(fileName);
-
-        return publicUrlData.publicUrl;
-      };
-
-      const uploadedUrl = await uploadImage(flowState.uploadedImage, "uploaded");
-      const generatedUrl = await uploadImage(flowState.generatedImage, "generated");
+      const uploadedUrl = await uploadImage(flowState.uploadedImage);
+      const generatedUrl = await uploadImage(flowState.generatedImage);
 
       // Determine before/after based on mode
       const beforeUrl = flowState.mode === "before-to-after" ? uploadedUrl : generatedUrl;
       const afterUrl = flowState.mode === "before-to-after" ? generatedUrl : uploadedUrl;
 
+      // Small preview for the history strip (optional - falls back to the full image)
+      const thumbnailUrl = await requestImageDerivatives(afterUrl)
+        .then((derivatives) => derivatives.thumbnailUrl)
+        .catch((error) => {
+          console.warn("Could not create flow thumbnail:", error);
+          return null;
+        });
+
       // Save to database with project association
       const dbRecord = await createVideoFlow({
         projectId: currentProject?.id || null,
         beforeImageUrl: beforeUrl,
         afterImageUrl: afterUrl,
+        thumbnailUrl,
         prompt: flowState.prompt,
       });
       
@@ -297,6 +274,7 @@ function VideoFlowPageContent() {
           aspectRatio: "auto",
           resolution: "720p",
           generateAudio: false,
+          projectId: currentProject?.id,
         }),
       });
 
@@ -554,8 +532,9 @@ function VideoFlowPageContent() {
               >
                 <div className="aspect-video relative">
                   <img
-                    src={flow.after_image_url}
+                    src={flow.thumbnail_url || flow.after_image_url}
                     alt="Preview"
+                    loading="lazy"
                     className="w-full h-full object-cover"
                   />
                   {flow.status === "completed" && flow.video_url && (
@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { DesignMessage, RoomDesign } from "@/lib/database.types";
+import { countDesignPatchChanges, parseDesignPatch } from "@/lib/design-patch";
+import { Loader2, MessageSquare, Send } from "lucide-react";
+
+type DesignChatPanelProps = {
+  // Oldest first
+  messages: DesignMessage[];
+  // User message waiting for a reply, shown at the end of the thread
+  pendingMessage?: string | null;
+  isSending?: boolean;
+  error?: string | null;
+  // To show which version an assistant turn produced
+  versions?: RoomDesign[];
+  onSend: (content: string) => void;
+  className?: string;
+};
+
+// Conversation with the designer assistant; each reply can patch the design
+export function DesignChatPanel({
+  messages,
+  pendingMessage,
+  isSending = false,
+  error,
+  versions = [],
+  onSend,
+  className,
+}: DesignChatPanelProps) {
+  const [draft, setDraft] = useState("");
+  const threadRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight });
+  }, [messages.length, pendingMessage]);
+
+  const send = () => {
+    const content = draft.trim();
+    if (!content || isSending) return;
+    onSend(content);
+    setDraft("");
+  };
+
+  return (
+    <div className={cn("bg-zinc-900/50 border border-zinc-800 rounded-2xl flex flex-col", className)}>
+      <div className="flex items-center gap-2 px-4 pt-3 text-sm font-medium text-zinc-300">
+        <MessageSquare className="w-4 h-4 text-violet-400" />
+        Design chat
+        <span className="text-zinc-600 font-normal">{messages.length}</span>
+        {error && <span className="ml-auto text-xs font-normal text-red-400 truncate">{error}</span>}
+      </div>
+
+      <div ref={threadRef} className="max-h-72 overflow-y-auto p-3 space-y-2">
+        {messages.length === 0 && !pendingMessage && (
+          <p className="text-xs text-zinc-500">
+            Refine the design step by step, e.g. &quot;make it warmer&quot; or &quot;swap the rug for jute&quot;.
+          </p>
+        )}
+
+        {messages.map((message) => {
+          const changes = message.patch ? countDesignPatchChanges(parseDesignPatch(message.patch)) : 0;
+          const version = message.design_id ? versions.find((v) => v.id === message.design_id) : undefined;
+
+          return (
+            <div
+              key={message.id}
+              className={cn("flex", message.role === "user" ? "justify-end" : "justify-start")}
+            >
+              <div
+                className={cn(
+                  "max-w-[85%] rounded-xl px-3 py-2 text-sm whitespace-pre-wrap",
+                  message.role === "user" ? "bg-violet-500/20 text-violet-100" : "bg-zinc-800 text-zinc-200"
+                )}
+              >
+                {message.content}
+                {message.role === "assistant" && changes > 0 && (
+                  <p className="mt-1 text-[11px] text-zinc-500">
+                    {changes} {changes === 1 ? "change" : "changes"}
+                    {version ? ` · saved as v${version.version_number}` : ""}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {pendingMessage && (
+          <>
+            <div className="flex justify-end">
+              <div className="max-w-[85%] rounded-xl px-3 py-2 text-sm whitespace-pre-wrap bg-violet-500/20 text-violet-100 opacity-70">
+                {pendingMessage}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-zinc-500">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              Thinking...
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-end gap-2 p-3 pt-0">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          rows={1}
+          placeholder="Ask for a change..."
+          className="flex-1 resize-none bg-zinc-800 border border-zinc-700 rounded-xl px-3 py-2 text-sm text-white placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-violet-500"
+        />
+        <button
+          onClick={send}
+          disabled={!draft.trim() || isSending}
+          className="p-2.5 bg-violet-500 hover:bg-violet-600 disabled:bg-zinc-800 disabled:text-zinc-600 text-white rounded-xl transition-colors"
+          title="Send"
+        >
+          {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </button>
+      </div>
+    </div>
+  );
+}
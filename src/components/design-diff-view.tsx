@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { RoomDesign } from "@/lib/database.types";
+import { Comparison } from "@/components/ui/comparison";
+import { getVersionTitle } from "@/lib/design-versions";
+import { formatCategoryName } from "@/lib/design-json";
+import { diffDesigns, type ListChange } from "@/lib/design-diff";
+import { ArrowRight, GitCompare, Image as ImageIcon, X } from "lucide-react";
+
+type DesignDiffViewProps = {
+  // Newest first
+  versions: RoomDesign[];
+  initialBeforeId: string;
+  initialAfterId: string;
+  onClose: () => void;
+};
+
+function VersionSelect({
+  label,
+  value,
+  versions,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  versions: RoomDesign[];
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="flex-1 min-w-0">
+      <span className="block text-xs text-zinc-500 mb-1">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-violet-500"
+      >
+        {versions.map((version) => (
+          <option key={version.id} value={version.id}>
+            v{version.version_number} · {version.label || getVersionTitle(version)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function RenderPane({ version }: { version: RoomDesign }) {
+  return (
+    <div className="relative flex-1 bg-zinc-950 flex items-center justify-center">
+      {version.rendered_image_url ? (
+        <img
+          src={version.rendered_image_url}
+          alt={version.label || getVersionTitle(version)}
+          className="w-full h-full object-contain"
+        />
+      ) : (
+        <div className="flex flex-col items-center gap-2 text-zinc-600 text-xs">
+          <ImageIcon className="w-6 h-6" />
+          No render for v{version.version_number}
+        </div>
+      )}
+      <span className="absolute top-2 left-2 px-1.5 py-0.5 bg-black/70 text-white text-xs font-semibold rounded-md">
+        v{version.version_number}
+      </span>
+    </div>
+  );
+}
+
+function ListChangeTags({ label, change }: { label: string; change: ListChange }) {
+  if (change.added.length === 0 && change.removed.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      <span className="text-zinc-500 mr-1">{label}</span>
+      {change.removed.map((value, index) => (
+        <span key={`-${index}`} className="px-1.5 py-0.5 rounded bg-red-500/10 text-red-400 line-through">
+          {value}
+        </span>
+      ))}
+      {change.added.map((value, index) => (
+        <span key={`+${index}`} className="px-1.5 py-0.5 rounded bg-lime-500/10 text-lime-400">
+          {value}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Modal comparing two design versions: renders in a slider plus a structural diff
+export function DesignDiffView({ versions, initialBeforeId, initialAfterId, onClose }: DesignDiffViewProps) {
+  const [beforeId, setBeforeId] = useState(initialBeforeId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+
+  const before = versions.find((version) => version.id === beforeId);
+  const after = versions.find((version) => version.id === afterId);
+  const diff = useMemo(
+    () => (before && after ? diffDesigns(before.design_json, after.design_json) : null),
+    [before, after]
+  );
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] mx-4 flex flex-col">
+        <div className="flex items-center gap-2 px-5 py-4 border-b border-zinc-800">
+          <GitCompare className="w-4 h-4 text-violet-400" />
+          <h3 className="text-lg font-semibold text-white">Compare versions</h3>
+          <button
+            onClick={onClose}
+            className="ml-auto p-1 text-zinc-500 hover:text-white hover:bg-zinc-800 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5">
+          <div className="flex items-end gap-3">
+            <VersionSelect label="From" value={beforeId} versions={versions} onChange={setBeforeId} />
+            <ArrowRight className="w-4 h-4 mb-3 text-zinc-600 flex-shrink-0" />
+            <VersionSelect label="To" value={afterId} versions={versions} onChange={setAfterId} />
+          </div>
+
+          {before && after && (
+            <div className="w-full aspect-video rounded-xl overflow-hidden border border-zinc-800 bg-zinc-950">
+              {before.rendered_image_url && after.rendered_image_url ? (
+                <Comparison
+                  key={`${before.id}-${after.id}`}
+                  firstImage={before.rendered_image_url}
+                  secondImage={after.rendered_image_url}
+                  className="w-full h-full"
+                  firstImageClassName="object-contain"
+                  secondImageClassname="object-contain"
+                />
+              ) : (
+                <div className="flex w-full h-full divide-x divide-zinc-800">
+                  <RenderPane version={before} />
+                  <RenderPane version={after} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {diff && (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <span className="px-2 py-1 rounded-lg bg-lime-500/10 text-lime-400">+{diff.counts.added} added</span>
+                <span className="px-2 py-1 rounded-lg bg-red-500/10 text-red-400">−{diff.counts.removed} removed</span>
+                <span className="px-2 py-1 rounded-lg bg-amber-500/10 text-amber-400">~{diff.counts.changed} changed</span>
+              </div>
+
+              {diff.isEmpty ? (
+                <p className="text-sm text-zinc-500">These versions have the same design.</p>
+              ) : (
+                <div className="space-y-3">
+                  {(diff.meta.title || diff.meta.summary || diff.meta.styleTags.added.length > 0 || diff.meta.styleTags.removed.length > 0) && (
+                    <div className="rounded-xl border border-zinc-800 p-3 space-y-2">
+                      <h4 className="text-sm font-medium text-zinc-300">Meta</h4>
+                      {diff.meta.title && (
+                        <p className="text-xs text-zinc-400">
+                          Title: <span className="text-red-400 line-through">{diff.meta.title.before || "—"}</span>{" "}
+                          <span className="text-lime-400">{diff.meta.title.after || "—"}</span>
+                        </p>
+                      )}
+                      {diff.meta.summary && (
+                        <div className="text-xs space-y-1">
+                          <p className="text-zinc-500">Summary</p>
+                          <p className="text-red-400/80 line-through">{diff.meta.summary.before || "—"}</p>
+                          <p className="text-lime-400/90">{diff.meta.summary.after || "—"}</p>
+                        </div>
+                      )}
+                      <ListChangeTags label="Style" change={diff.meta.styleTags} />
+                    </div>
+                  )}
+
+                  {diff.categories.map((category) => (
+                    <div key={`${category.section}.${category.category}`} className="rounded-xl border border-zinc-800 p-3 space-y-2">
+                      <h4 className="text-sm font-medium text-zinc-300">
+                        {formatCategoryName(category.category)}
+                        <span className="ml-2 text-xs font-normal text-zinc-600">{category.section}</span>
+                      </h4>
+                      <ListChangeTags label="Overall materials" change={category.materialsOverall} />
+                      {category.added.map((item, index) => (
+                        <p key={`+${index}`} className="text-xs text-lime-400">
+                          + {item.label}
+                          {item.materials.length > 0 && <span className="text-zinc-500"> · {item.materials.join(", ")}</span>}
+                        </p>
+                      ))}
+                      {category.removed.map((item, index) => (
+                        <p key={`-${index}`} className="text-xs text-red-400 line-through">
+                          − {item.label}
+                        </p>
+                      ))}
+                      {category.changed.map((item, index) => (
+                        <div key={`~${index}`} className="space-y-1">
+                          <p className="text-xs text-amber-400">
+                            ~ {item.previousLabel ? (
+                              <>
+                                <span className="line-through text-zinc-500">{item.previousLabel}</span> {item.label}
+                              </>
+                            ) : (
+                              item.label
+                            )}
+                          </p>
+                          <div className="pl-3 space-y-1">
+                            <ListChangeTags label="Materials" change={item.materials} />
+                            <ListChangeTags label="Colors" change={item.colors} />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import type { RoomDesign, RoomDesignSource } from "@/lib/database.types";
+import { getVersionTitle, MAX_VERSION_LABEL_LENGTH } from "@/lib/design-versions";
+import {
+  Check,
+  GitCompare,
+  History,
+  Image as ImageIcon,
+  Loader2,
+  Pencil,
+  RotateCcw,
+  Save,
+  Sparkles,
+  Wand2,
+  X,
+} from "lucide-react";
+
+const SOURCE_BADGES: Record<RoomDesignSource, { label: string; icon: typeof Save }> = {
+  generate: { label: "Generated", icon: Sparkles },
+  render: { label: "Rendered", icon: Wand2 },
+  manual: { label: "Saved", icon: Save },
+  restore: { label: "Restored", icon: RotateCcw },
+};
+
+type DesignVersionTimelineProps = {
+  // Newest first
+  versions: RoomDesign[];
+  // Version currently loaded in the editor
+  currentVersionId?: string | null;
+  // Version being restored, shown with a spinner
+  restoringId?: string | null;
+  error?: string | null;
+  onRestore: (version: RoomDesign) => void;
+  onRename: (version: RoomDesign, label: string | null) => void;
+  // Open a diff of this version against the latest
+  onCompare?: (version: RoomDesign) => void;
+  className?: string;
+};
+
+function formatVersionTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// Horizontal strip of a room's saved versions with restore and rename
+export function DesignVersionTimeline({
+  versions,
+  currentVersionId,
+  restoringId,
+  error,
+  onRestore,
+  onRename,
+  onCompare,
+  className,
+}: DesignVersionTimelineProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState("");
+
+  const startEditing = (version: RoomDesign) => {
+    setEditingId(version.id);
+    setDraftLabel(version.label || "");
+  };
+
+  const commitLabel = (version: RoomDesign) => {
+    setEditingId(null);
+    const label = draftLabel.trim() || null;
+    if (label !== version.label) onRename(version, label);
+  };
+
+  return (
+    <div className={cn("bg-zinc-900/50 border border-zinc-800 rounded-2xl", className)}>
+      <div className="flex items-center gap-2 px-4 pt-3 text-sm font-medium text-zinc-300">
+        <History className="w-4 h-4 text-violet-400" />
+        Versions
+        <span className="text-zinc-600 font-normal">{versions.length}</span>
+        {error && <span className="ml-auto text-xs font-normal text-red-400 truncate">{error}</span>}
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto p-3">
+        {versions.map((version, index) => {
+          const badge = version.source ? SOURCE_BADGES[version.source] : null;
+          const BadgeIcon = badge?.icon;
+          const isLatest = index === 0;
+          const isCurrent = version.id === currentVersionId;
+
+          return (
+            <div
+              key={version.id}
+              className={cn(
+                "group/version flex-shrink-0 w-44 rounded-xl overflow-hidden border bg-zinc-900 transition-colors",
+                isCurrent ? "border-violet-500" : "border-zinc-800 hover:border-zinc-700"
+              )}
+            >
+              {/* Rendered image, if this version has one */}
+              <div className="relative aspect-[4/3] bg-zinc-950 flex items-center justify-center">
+                {version.rendered_image_url ? (
+                  <img
+                    src={version.rendered_image_url}
+                    alt={version.label || getVersionTitle(version)}
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                  />
+                ) : (
+                  <ImageIcon className="w-6 h-6 text-zinc-700" />
+                )}
+                <span className="absolute top-1.5 left-1.5 px-1.5 py-0.5 bg-black/70 text-white text-xs font-semibold rounded-md">
+                  v{version.version_number}
+                </span>
+                {isLatest && (
+                  <span className="absolute top-1.5 right-1.5 px-1.5 py-0.5 bg-lime-400 text-black text-[10px] font-bold uppercase rounded-md">
+                    Latest
+                  </span>
+                )}
+              </div>
+
+              <div className="p-2 space-y-1">
+                {editingId === version.id ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      value={draftLabel}
+                      onChange={(e) => setDraftLabel(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitLabel(version);
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      maxLength={MAX_VERSION_LABEL_LENGTH}
+                      placeholder="Label"
+                      className="min-w-0 flex-1 bg-zinc-800 border border-zinc-700 rounded px-1.5 py-0.5 text-xs text-white focus:outline-none focus:ring-1 focus:ring-violet-500"
+                      autoFocus
+                    />
+                    <button
+                      onClick={() => commitLabel(version)}
+                      className="p-0.5 text-lime-400 hover:text-lime-300"
+                      title="Save label"
+                    >
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="p-0.5 text-zinc-500 hover:text-white"
+                      title="Cancel"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <p
+                      className={cn("flex-1 truncate text-xs", version.label ? "text-white font-medium" : "text-zinc-400")}
+                      title={version.label || getVersionTitle(version)}
+                    >
+                      {version.label || getVersionTitle(version)}
+                    </p>
+                    <button
+                      onClick={() => startEditing(version)}
+                      className="p-0.5 text-zinc-600 hover:text-white opacity-100 lg:opacity-0 lg:group-hover/version:opacity-100 transition-opacity"
+                      title="Rename version"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between gap-1 text-[11px] text-zinc-500">
+                  <span className="flex items-center gap-1 truncate">
+                    {BadgeIcon && <BadgeIcon className="w-3 h-3 flex-shrink-0" />}
+                    {badge ? `${badge.label} · ` : ""}
+                    {formatVersionTime(version.created_at)}
+                  </span>
+                </div>
+
+                {!isLatest && (
+                  <div className="flex gap-1 mt-1">
+                    <button
+                      onClick={() => onRestore(version)}
+                      disabled={!!restoringId}
+                      className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1 text-xs bg-zinc-800 hover:bg-violet-500/20 hover:text-violet-300 text-zinc-300 rounded-lg transition-colors disabled:opacity-50"
+                      title="Restore this design as a new version"
+                    >
+                      {restoringId === version.id ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-3 h-3" />
+                      )}
+                      Restore
+                    </button>
+                    {onCompare && (
+                      <button
+                        onClick={() => onCompare(version)}
+                        className="flex items-center justify-center px-2 py-1 text-xs bg-zinc-800 hover:bg-violet-500/20 hover:text-violet-300 text-zinc-300 rounded-lg transition-colors"
+                        title="Compare with the latest version"
+                      >
+                        <GitCompare className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { ArrowRight, Download, Trash2 } from "lucide-react";
+
+type BatchImage = {
+  id: string;
+  url: string;
+  // 768px derivative shown in the grid (the original is used for downloads)
+  previewUrl?: string;
+  seed?: number;
+};
+
+type GenerationBatchProps = {
+  images: BatchImage[];
+  prompt: string;
+  onOpen: (id: string) => void;
+  onUseAsInput: (url: string) => void;
+  onDelete: (id: string) => void;
+  className?: string;
+};
+
+// Grid of variations returned by a single generation request
+export function GenerationBatch({
+  images,
+  prompt,
+  onOpen,
+  onUseAsInput,
+  onDelete,
+  className,
+}: GenerationBatchProps) {
+  return (
+    <div className={cn("grid gap-2 p-2", images.length > 1 ? "grid-cols-2" : "grid-cols-1", className)}>
+      {images.map((image, index) => (
+        <div key={image.id} className="group/tile relative rounded-xl overflow-hidden bg-zinc-900">
+          <img
+            src={image.previewUrl || image.url}
+            alt={`${prompt} (${index + 1}/${images.length})`}
+            className="w-full h-full max-h-[calc(50vh-100px)] object-contain cursor-pointer"
+            onClick={() => onOpen(image.id)}
+            loading="lazy"
+          />
+
+          {/* Variation number and seed */}
+          <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/60 text-zinc-300 text-xs rounded-md">
+            #{index + 1}
+            {image.seed !== undefined && <span className="text-zinc-500"> • seed {image.seed}</span>}
+          </span>
+
+          {/* Tile actions */}
+          <div className="absolute bottom-2 right-2 flex gap-1 opacity-100 lg:opacity-0 lg:group-hover/tile:opacity-100 transition-opacity">
+            <button
+              onClick={() => onUseAsInput(image.url)}
+              className="p-2 bg-lime-400/90 hover:bg-lime-400 text-black rounded-lg transition-colors"
+              title="Edit this"
+            >
+              <ArrowRight className="w-4 h-4" />
+            </button>
+            <a
+              href={image.url}
+              download={`banana-${image.id}.png`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-2 bg-zinc-800/90 hover:bg-zinc-700 text-white rounded-lg transition-colors"
+              title="Download"
+            >
+              <Download className="w-4 h-4" />
+            </a>
+            <button
+              onClick={() => onDelete(image.id)}
+              className="p-2 bg-zinc-800/90 hover:bg-red-500/20 hover:text-red-400 text-white rounded-lg transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
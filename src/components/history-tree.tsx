@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { buildLineageForest, getLineagePath, type LineageNode } from "@/lib/lineage";
+import { GitBranch, GitMerge, X, ArrowRight } from "lucide-react";
+
+export type HistoryTreeItem = {
+  id: string;
+  outputImage: string;
+  thumbnailImage?: string;
+  prompt: string;
+  timestamp: Date;
+  parentImageIds?: string[];
+};
+
+interface HistoryTreeProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: HistoryTreeItem[];
+  // Image currently used as input - its chain is highlighted
+  activeImageUrl?: string;
+  onSelect: (item: HistoryTreeItem) => void;
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function TreeNode({
+  node,
+  activePath,
+  activeId,
+  onSelect,
+}: {
+  node: LineageNode<HistoryTreeItem>;
+  activePath: Set<string>;
+  activeId?: string;
+  onSelect: (item: HistoryTreeItem) => void;
+}) {
+  const { item, children, otherParentIds } = node;
+  const isActive = item.id === activeId;
+  const onPath = activePath.has(item.id);
+
+  return (
+    <li>
+      <div
+        className={cn(
+          "group flex items-center gap-3 p-2 rounded-xl border transition-colors",
+          isActive
+            ? "bg-lime-400/10 border-lime-400/30"
+            : onPath
+              ? "bg-zinc-900 border-lime-400/10"
+              : "bg-zinc-900/50 border-transparent hover:bg-zinc-900"
+        )}
+      >
+        <img src={item.thumbnailImage || item.outputImage} alt={item.prompt} className="w-14 h-14 rounded-lg object-cover flex-shrink-0 bg-zinc-800" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-zinc-200 line-clamp-2">{item.prompt}</p>
+          <div className="flex items-center gap-2 mt-1 text-xs text-zinc-500">
+            <span>{formatTime(item.timestamp)}</span>
+            {children.length > 1 && (
+              <span className="flex items-center gap-1 text-lime-400/80">
+                <GitBranch className="w-3 h-3" />
+                {children.length} branches
+              </span>
+            )}
+            {otherParentIds.length > 0 && (
+              <span className="flex items-center gap-1 text-violet-400/80" title="Also made from other images">
+                <GitMerge className="w-3 h-3" />
+                +{otherParentIds.length}
+              </span>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={() => onSelect(item)}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg bg-zinc-800 text-zinc-300 hover:bg-lime-400 hover:text-black transition-colors flex-shrink-0"
+          title="Use this image as the input for the next generation"
+        >
+          <ArrowRight className="w-3.5 h-3.5" />
+          Branch
+        </button>
+      </div>
+
+      {children.length > 0 && (
+        <ul className="ml-7 mt-2 pl-4 border-l border-zinc-800 space-y-2">
+          {children.map((child) => (
+            <TreeNode key={child.item.id} node={child} activePath={activePath} activeId={activeId} onSelect={onSelect} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function HistoryTree({ isOpen, onClose, items, activeImageUrl, onSelect }: HistoryTreeProps) {
+  const forest = useMemo(() => buildLineageForest(items), [items]);
+
+  const activeId = useMemo(
+    () => items.find((item) => item.outputImage === activeImageUrl)?.id,
+    [items, activeImageUrl]
+  );
+  const activePath = useMemo(
+    () => new Set(activeId ? getLineagePath(items, activeId) : []),
+    [items, activeId]
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-3xl max-h-[85vh] bg-zinc-950 rounded-2xl border border-zinc-800 shadow-2xl overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-lime-500/10 rounded-xl flex items-center justify-center">
+              <GitBranch className="w-5 h-5 text-lime-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">History Tree</h2>
+              <p className="text-sm text-zinc-400">Every edit chain in this project - branch from any step</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Tree */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {forest.length === 0 ? (
+            <p className="text-sm text-zinc-500 text-center py-12">No generated images yet</p>
+          ) : (
+            <ul className="space-y-4">
+              {forest.map((root) => (
+                <TreeNode key={root.item.id} node={root} activePath={activePath} activeId={activeId} onSelect={onSelect} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
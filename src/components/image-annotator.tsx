@@ -1,16 +1,30 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import { X, Check, Undo2, Redo2, Pencil, Type, ArrowRight, Circle, Square, Eraser, ChevronDown, Move } from "lucide-react";
+import { X, Check, Undo2, Redo2, Pencil, Type, ArrowRight, Circle, Square, Eraser, ChevronDown, Move, Highlighter } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/lib/supabase";
+import { uploadBlobToStorage } from "@/lib/image-utils";
+import { getLatestAnnotation, saveAnnotation } from "@/lib/supabase";
+import {
+  createAnnotationDocument,
+  extractAnnotationInstructions,
+  parseAnnotationDocument,
+  scaleAnnotationShapes,
+  type AnnotationDocument,
+  type AnnotationInstruction,
+} from "@/lib/annotations";
 
 type Tool = "select" | "pen" | "arrow" | "rectangle" | "circle" | "text" | "eraser";
+// "annotate" burns marks into a copy; "region" paints a mask of the area to regenerate
+type AnnotatorMode = "annotate" | "region";
 type HandleType = "nw" | "ne" | "sw" | "se" | "start" | "end" | null;
 
+type ShapeType = Exclude<Tool, "select" | "eraser">;
+const SHAPE_TYPES: ShapeType[] = ["pen", "arrow", "rectangle", "circle", "text"];
+
 type DrawAction = {
   id: string;
-  type: Exclude<Tool, "select" | "eraser">;
+  type: ShapeType;
   points?: { x: number; y: number }[];
   start?: { x: number; y: number };
   end?: { x: number; y: number };
@@ -45,18 +59,87 @@ const generateId = () => Math.random().toString(36).substring(2, 9);
 const HANDLE_SIZE = 12;
 const HANDLE_HIT_RADIUS = 16;
 
+// Edit-region shapes: shown as a light overlay, exported as white-on-black
+const REGION_OVERLAY_COLOR = "rgba(255, 255, 255, 0.45)";
+const REGION_BRUSH_SCALE = 3;
+const REGION_TOOLS: Tool[] = ["select", "rectangle", "circle", "pen", "eraser"];
+
+// Filled version of a shape, used for edit-region masks
+const drawRegionShape = (context: CanvasRenderingContext2D, action: DrawAction, color: string) => {
+  context.fillStyle = color;
+  context.strokeStyle = color;
+  context.lineWidth = action.lineWidth * REGION_BRUSH_SCALE;
+
+  switch (action.type) {
+    case "pen":
+      if (action.points && action.points.length > 0) {
+        context.beginPath();
+        context.moveTo(action.points[0].x, action.points[0].y);
+        for (let i = 1; i < action.points.length; i++) {
+          context.lineTo(action.points[i].x, action.points[i].y);
+        }
+        // A single click still paints a dot
+        if (action.points.length === 1) {
+          context.lineTo(action.points[0].x + 0.1, action.points[0].y);
+        }
+        context.stroke();
+      }
+      break;
+    case "rectangle":
+      if (action.start && action.end) {
+        context.fillRect(
+          Math.min(action.start.x, action.end.x),
+          Math.min(action.start.y, action.end.y),
+          Math.abs(action.end.x - action.start.x),
+          Math.abs(action.end.y - action.start.y)
+        );
+      }
+      break;
+    case "circle":
+      if (action.start && action.end) {
+        const radius = Math.hypot(action.end.x - action.start.x, action.end.y - action.start.y);
+        context.beginPath();
+        context.arc(action.start.x, action.start.y, radius, 0, 2 * Math.PI);
+        context.fill();
+      }
+      break;
+  }
+};
+
+// Extra output of a save, besides the image URL
+export type AnnotationSaveDetails = {
+  // Edit-region mode: the mask to inpaint (the image URL is then the untouched original)
+  maskUrl?: string;
+  // Annotate mode: each marked region and its label, for the generation prompt
+  instructions?: AnnotationInstruction[];
+};
+
 interface InlineAnnotatorProps {
   imageUrl: string;
-  onSave: (annotatedImageUrl: string) => void;
+  onSave: (annotatedImageUrl: string, details?: AnnotationSaveDetails) => void;
   onCancel: () => void;
   className?: string;
+  // Offer the edit-region (mask) mode alongside annotations
+  enableEditRegion?: boolean;
+  // Stored with the saved shapes so they can be found again
+  sourceImageId?: string;
+  projectId?: string | null;
 }
 
-export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: InlineAnnotatorProps) {
+export function InlineAnnotator({
+  imageUrl,
+  onSave,
+  onCancel,
+  className,
+  enableEditRegion = false,
+  sourceImageId,
+  projectId,
+}: InlineAnnotatorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [ctx, setCtx] = useState<CanvasRenderingContext2D | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
+  const [mode, setMode] = useState<AnnotatorMode>("annotate");
   const [currentTool, setCurrentTool] = useState<Tool>("rectangle");
   const [currentColor, setCurrentColor] = useState("#ef4444"); // Red
   const [lineWidth, setLineWidth] = useState(15); // Bigger default size
@@ -64,6 +147,10 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
   const [redoStack, setRedoStack] = useState<DrawAction[]>([]);
   const [currentAction, setCurrentAction] = useState<DrawAction | null>(null);
   const [imageLoaded, setImageLoaded] = useState(false);
+  // Image the shapes are drawn on - the source when reopening an annotated copy
+  const [baseImageUrl, setBaseImageUrl] = useState(imageUrl);
+  const [restoredCount, setRestoredCount] = useState(0);
+  const restoredSourceIdRef = useRef<string | null>(null);
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [selectedActionId, setSelectedActionId] = useState<string | null>(null);
@@ -88,16 +175,52 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  // Load image and setup canvas
+  // Load saved shapes (if any), then the image they belong to
   useEffect(() => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => {
-      imageRef.current = img;
-      setImageDimensions({ width: img.naturalWidth, height: img.naturalHeight });
-      setImageLoaded(true);
+    let cancelled = false;
+
+    const load = async () => {
+      let baseUrl = imageUrl;
+      let saved: AnnotationDocument | null = null;
+      try {
+        const annotation = await getLatestAnnotation(imageUrl);
+        const document = annotation && parseAnnotationDocument(annotation.data);
+        if (annotation && document?.editor === "annotator") {
+          saved = document;
+          restoredSourceIdRef.current = annotation.source_image_id;
+          // Reopening an annotated copy edits the clean source, not the flattened pixels
+          if (annotation.annotated_image_url === imageUrl && annotation.source_image_url) {
+            baseUrl = annotation.source_image_url;
+          }
+        }
+      } catch (error) {
+        console.error("Failed to load saved annotations:", error);
+      }
+      if (cancelled) return;
+
+      const img = new Image();
+      img.crossOrigin = "anonymous";
+      img.onload = () => {
+        if (cancelled) return;
+        imageRef.current = img;
+        setBaseImageUrl(baseUrl);
+        setImageDimensions({ width: img.naturalWidth, height: img.naturalHeight });
+        if (saved) {
+          const restored = scaleAnnotationShapes(saved, img.naturalWidth, img.naturalHeight)
+            .filter((shape) => SHAPE_TYPES.includes(shape.type as ShapeType))
+            .map((shape) => ({ ...shape, id: shape.id || generateId(), type: shape.type as ShapeType }));
+          setActions(restored);
+          setRestoredCount(restored.length);
+        }
+        setImageLoaded(true);
+      };
+      img.src = baseUrl;
+    };
+
+    load();
+    return () => {
+      cancelled = true;
     };
-    img.src = imageUrl;
   }, [imageUrl]);
 
   // Setup canvas context
@@ -190,7 +313,7 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
     if (currentAction) {
       drawAction(ctx, currentAction, false);
     }
-  }, [ctx, actions, currentAction, selectedActionId, getActionBounds, hoveringHandle]);
+  }, [ctx, actions, currentAction, selectedActionId, getActionBounds, hoveringHandle, mode]);
 
   const drawAction = (context: CanvasRenderingContext2D, action: DrawAction, isSelected: boolean) => {
     context.strokeStyle = action.color;
@@ -223,6 +346,11 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
       context.restore();
     }
 
+    if (mode === "region") {
+      drawRegionShape(context, action, REGION_OVERLAY_COLOR);
+      return;
+    }
+
     // Reset styles for drawing the actual shape
     context.strokeStyle = action.color;
     context.fillStyle = action.color;
@@ -830,6 +958,9 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
     if (!canvasRef.current || !imageRef.current || isSaving) return;
 
     setIsSaving(true);
+
+    const annotationDocument = createAnnotationDocument("annotator", imageDimensions.width, imageDimensions.height, actions);
+    const details: AnnotationSaveDetails = { instructions: extractAnnotationInstructions(annotationDocument) };
     
     try {
       // Deselect before saving
@@ -859,6 +990,28 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
         return;
       }
 
+      // Edit region: export a black/white mask and hand back the original image
+      if (mode === "region") {
+        exportCtx.fillStyle = "#000000";
+        exportCtx.fillRect(0, 0, exportWidth, exportHeight);
+        exportCtx.lineCap = "round";
+        exportCtx.lineJoin = "round";
+        exportCtx.scale(exportWidth / imageDimensions.width, exportHeight / imageDimensions.height);
+        actions.forEach(action => drawRegionShape(exportCtx, action, "#ffffff"));
+
+        const blob = await new Promise<Blob | null>((resolve) => exportCanvas.toBlob(resolve, "image/png"));
+        let maskUrl: string;
+        try {
+          if (!blob) throw new Error("Failed to convert mask to blob");
+          maskUrl = await uploadBlobToStorage(blob, "masks", "image/png");
+        } catch (error) {
+          console.error("Error uploading mask:", error);
+          maskUrl = exportCanvas.toDataURL("image/png");
+        }
+        onSave(baseImageUrl, { maskUrl });
+        return;
+      }
+
       // Scale and draw original image
       exportCtx.drawImage(imageRef.current, 0, 0, exportWidth, exportHeight);
       
@@ -874,7 +1027,7 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
       actions.forEach(action => drawAction(exportCtx, action, false));
       exportCtx.restore();
 
-      // Convert canvas to blob and upload to Supabase
+      // Convert canvas to blob and upload to storage
       await new Promise<void>((resolve) => {
         exportCanvas.toBlob(async (blob) => {
           try {
@@ -882,42 +1035,29 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
               console.error("Failed to convert canvas to blob");
               // Fallback to data URL if blob conversion fails
               const dataUrl = exportCanvas.toDataURL("image/png");
-              onSave(dataUrl);
+              onSave(dataUrl, details);
               resolve();
               return;
             }
 
-            // Upload to Supabase storage
-            const fileName = `annotations/${Date.now()}-${crypto.randomUUID()}.png`;
-            
-            const { error: uploadError } = await supabase.storage
-              .from("generated-images")
-              .upload(fileName, blob, {
-                contentType: "image/png",
-                cacheControl: "3600",
-              });
-
-            if (uploadError) {
-              console.error("Failed to upload annotated image:", uploadError);
-              // Fallback to data URL if upload fails
-              const dataUrl = exportCanvas.toDataURL("image/png");
-              onSave(dataUrl);
-              resolve();
-              return;
-            }
-
-            // Get public URL
-            const { data: urlData } = supabase.storage
-              .from("generated-images")
-              .getPublicUrl(fileName);
-
-            onSave(urlData.publicUrl);
+            // Upload to storage (the catch below falls back to a data URL)
+            const url = await uploadBlobToStorage(blob, "annotations", "image/png");
+            onSave(url, details);
             resolve();
+
+            // Keep the shapes so this image can be reopened and edited (best-effort)
+            saveAnnotation({
+              projectId,
+              sourceImageUrl: baseImageUrl.startsWith("data:") ? null : baseImageUrl,
+              sourceImageId: sourceImageId || restoredSourceIdRef.current,
+              annotatedImageUrl: url,
+              document: annotationDocument,
+            }).catch((error) => console.error("Failed to save annotation layers:", error));
           } catch (error) {
             console.error("Error in blob processing:", error);
             // Fallback to data URL if anything fails
             const dataUrl = exportCanvas.toDataURL("image/png");
-            onSave(dataUrl);
+            onSave(dataUrl, details);
             resolve();
           }
         }, "image/png", 0.95); // Use PNG with 95% quality to reduce size
@@ -934,13 +1074,13 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
           exportCtx.drawImage(imageRef.current, 0, 0);
           actions.forEach(action => drawAction(exportCtx, action, false));
           const dataUrl = exportCanvas.toDataURL("image/png");
-          onSave(dataUrl);
+          onSave(dataUrl, details);
         }
       }
     } finally {
       setIsSaving(false);
     }
-  }, [imageDimensions, onSave, actions, isSaving]);
+  }, [imageDimensions, onSave, actions, isSaving, mode, baseImageUrl, projectId, sourceImageId]);
 
   // Get cursor based on what's under it
   const getCursor = (): string => {
@@ -979,7 +1119,19 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
     { id: "pen" as Tool, icon: Pencil, label: "Draw" },
     { id: "text" as Tool, icon: Type, label: "Text" },
     { id: "eraser" as Tool, icon: Eraser, label: "Eraser" },
-  ];
+  ].filter((tool) => mode === "annotate" || REGION_TOOLS.includes(tool.id));
+
+  // Annotations and region shapes don't mix - switching starts over
+  const handleModeChange = (nextMode: AnnotatorMode) => {
+    if (nextMode === mode) return;
+    setMode(nextMode);
+    setActions([]);
+    setRedoStack([]);
+    setCurrentAction(null);
+    setSelectedActionId(null);
+    setRestoredCount(0);
+    if (!REGION_TOOLS.includes(currentTool)) setCurrentTool("rectangle");
+  };
 
   if (!imageLoaded) {
     return (
@@ -997,7 +1149,7 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
         <div className="relative max-w-full max-h-[70vh]" style={{ aspectRatio: `${imageDimensions.width} / ${imageDimensions.height}` }}>
           {/* Image as background */}
           <img
-            src={imageUrl}
+            src={baseImageUrl}
             alt="Annotate"
             className="w-full h-full object-contain rounded-xl"
             draggable={false}
@@ -1022,6 +1174,33 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
 
         {/* Floating toolbar - positioned at top center of image */}
         <div className="absolute top-2 left-1/2 -translate-x-1/2 flex flex-wrap items-center justify-center gap-1 p-1.5 bg-zinc-900/95 backdrop-blur-sm rounded-xl border border-zinc-700 shadow-xl max-w-[95%]">
+          {/* Mode */}
+          {enableEditRegion && (
+            <>
+              <div className="flex items-center p-0.5 bg-zinc-800 rounded-lg">
+                {([
+                  { id: "annotate" as AnnotatorMode, icon: Pencil, label: "Annotate" },
+                  { id: "region" as AnnotatorMode, icon: Highlighter, label: "Edit region" },
+                ]).map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => handleModeChange(option.id)}
+                    className={cn(
+                      "flex items-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded-md transition-all",
+                      mode === option.id ? "bg-lime-400 text-black" : "text-zinc-400 hover:text-white"
+                    )}
+                    title={option.id === "region" ? "Mark the area to regenerate - everything else stays untouched" : "Draw notes onto a copy of the image"}
+                  >
+                    <option.icon className="w-3.5 h-3.5" />
+                    <span className="hidden sm:inline">{option.label}</span>
+                  </button>
+                ))}
+              </div>
+
+              <div className="w-px h-6 bg-zinc-700 mx-1 hidden sm:block" />
+            </>
+          )}
+
           {/* Tools */}
           {tools.map((tool) => (
             <button
@@ -1048,66 +1227,68 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
           <div className="w-px h-6 bg-zinc-700 mx-1 hidden sm:block" />
           
           {/* Color picker with dropdown */}
-          <div className="relative" ref={colorPickerRef}>
-            <button
-              onClick={() => setShowColorPicker(!showColorPicker)}
-              className="flex items-center gap-1 p-1.5 rounded-lg hover:bg-zinc-800 transition-all"
-              title="Pick color"
-            >
-              <div 
-                className="w-5 h-5 rounded-full border-2 border-white/50"
-                style={{ backgroundColor: currentColor }}
-              />
-              <ChevronDown className={cn(
-                "w-3 h-3 text-zinc-400 transition-transform",
-                showColorPicker && "rotate-180"
-              )} />
-            </button>
-            
-            {/* Color dropdown */}
-            {showColorPicker && (
-              <div className="absolute top-full left-0 mt-2 p-3 bg-zinc-900 border border-zinc-700 rounded-xl shadow-xl z-50 min-w-[180px]">
-                <div className="text-xs text-zinc-500 mb-2">Colors</div>
-                <div className="grid grid-cols-4 gap-2 mb-3">
-                  {colorPalette.primary.map((color) => (
-                    <button
-                      key={color}
-                      onClick={() => {
-                        setCurrentColor(color);
-                        setShowColorPicker(false);
-                      }}
-                      className={cn(
-                        "w-7 h-7 rounded-lg border-2 transition-all hover:scale-110",
-                        currentColor === color ? "border-white" : "border-transparent"
-                      )}
-                      style={{ backgroundColor: color }}
-                      title={color}
-                    />
-                  ))}
-                </div>
-                <div className="text-xs text-zinc-500 mb-2">Neutral</div>
-                <div className="grid grid-cols-4 gap-2">
-                  {colorPalette.neutral.map((color) => (
-                    <button
-                      key={color}
-                      onClick={() => {
-                        setCurrentColor(color);
-                        setShowColorPicker(false);
-                      }}
-                      className={cn(
-                        "w-7 h-7 rounded-lg border-2 transition-all hover:scale-110",
-                        currentColor === color ? "border-lime-400" : "border-zinc-600"
-                      )}
-                      style={{ backgroundColor: color }}
-                      title={color}
-                    />
-                  ))}
+          {mode === "annotate" && (
+            <div className="relative" ref={colorPickerRef}>
+              <button
+                onClick={() => setShowColorPicker(!showColorPicker)}
+                className="flex items-center gap-1 p-1.5 rounded-lg hover:bg-zinc-800 transition-all"
+                title="Pick color"
+              >
+                <div 
+                  className="w-5 h-5 rounded-full border-2 border-white/50"
+                  style={{ backgroundColor: currentColor }}
+                />
+                <ChevronDown className={cn(
+                  "w-3 h-3 text-zinc-400 transition-transform",
+                  showColorPicker && "rotate-180"
+                )} />
+              </button>
+              
+              {/* Color dropdown */}
+              {showColorPicker && (
+                <div className="absolute top-full left-0 mt-2 p-3 bg-zinc-900 border border-zinc-700 rounded-xl shadow-xl z-50 min-w-[180px]">
+                  <div className="text-xs text-zinc-500 mb-2">Colors</div>
+                  <div className="grid grid-cols-4 gap-2 mb-3">
+                    {colorPalette.primary.map((color) => (
+                      <button
+                        key={color}
+                        onClick={() => {
+                          setCurrentColor(color);
+                          setShowColorPicker(false);
+                        }}
+                        className={cn(
+                          "w-7 h-7 rounded-lg border-2 transition-all hover:scale-110",
+                          currentColor === color ? "border-white" : "border-transparent"
+                        )}
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                  </div>
+                  <div className="text-xs text-zinc-500 mb-2">Neutral</div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {colorPalette.neutral.map((color) => (
+                      <button
+                        key={color}
+                        onClick={() => {
+                          setCurrentColor(color);
+                          setShowColorPicker(false);
+                        }}
+                        className={cn(
+                          "w-7 h-7 rounded-lg border-2 transition-all hover:scale-110",
+                          currentColor === color ? "border-lime-400" : "border-zinc-600"
+                        )}
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
-          <div className="w-px h-6 bg-zinc-700 mx-1 hidden sm:block" />
+          {mode === "annotate" && <div className="w-px h-6 bg-zinc-700 mx-1 hidden sm:block" />}
 
           {/* Undo/Redo */}
           <button
@@ -1141,7 +1322,7 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
             onClick={handleSave}
             disabled={isSaving}
             className="p-2 text-lime-400 hover:bg-lime-400/20 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-            title={isSaving ? "Saving..." : "Save"}
+            title={isSaving ? "Saving..." : mode === "region" ? "Use region" : "Save"}
           >
             <Check className="w-4 h-4" />
           </button>
@@ -1171,6 +1352,23 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
             <span className="hidden sm:inline">• Del to remove</span>
           </div>
         )}
+
+        {/* Restored shapes hint - bottom right */}
+        {!selectedActionId && restoredCount > 0 && (
+          <div className="absolute bottom-2 right-2 flex items-center gap-2 px-3 py-2 bg-zinc-900/95 backdrop-blur-sm rounded-lg border border-zinc-700 text-xs text-zinc-400">
+            <span>Restored {restoredCount} saved {restoredCount === 1 ? "shape" : "shapes"}</span>
+            <button
+              onClick={() => {
+                setActions([]);
+                setRedoStack([]);
+                setRestoredCount(0);
+              }}
+              className="text-lime-400 hover:text-lime-300"
+            >
+              Start over
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1179,11 +1377,14 @@ export function InlineAnnotator({ imageUrl, onSave, onCancel, className }: Inlin
 // Wrapper component that toggles between normal image view and annotation mode
 interface AnnotatableImageProps {
   imageUrl: string;
-  onAnnotated: (annotatedImageUrl: string) => void;
+  onAnnotated: (annotatedImageUrl: string, details?: AnnotationSaveDetails) => void;
   className?: string;
   imageClassName?: string;
   children?: React.ReactNode;
   showAnnotateButton?: boolean;
+  enableEditRegion?: boolean;
+  sourceImageId?: string;
+  projectId?: string | null;
 }
 
 export function AnnotatableImage({ 
@@ -1193,11 +1394,14 @@ export function AnnotatableImage({
   imageClassName,
   children,
   showAnnotateButton = true,
+  enableEditRegion,
+  sourceImageId,
+  projectId,
 }: AnnotatableImageProps) {
   const [isAnnotating, setIsAnnotating] = useState(false);
 
-  const handleSave = useCallback((annotatedUrl: string) => {
-    onAnnotated(annotatedUrl);
+  const handleSave = useCallback((annotatedUrl: string, details?: AnnotationSaveDetails) => {
+    onAnnotated(annotatedUrl, details);
     setIsAnnotating(false);
   }, [onAnnotated]);
 
@@ -1208,6 +1412,9 @@ export function AnnotatableImage({
         onSave={handleSave}
         onCancel={() => setIsAnnotating(false)}
         className={className}
+        enableEditRegion={enableEditRegion}
+        sourceImageId={sourceImageId}
+        projectId={projectId}
       />
     );
   }
@@ -1232,16 +1439,27 @@ export function AnnotatableImage({
 // Simple button to trigger annotation (for backward compatibility)
 interface AnnotateButtonProps {
   imageUrl: string;
-  onAnnotated: (annotatedImageUrl: string) => void;
+  onAnnotated: (annotatedImageUrl: string, details?: AnnotationSaveDetails) => void;
   className?: string;
   children?: React.ReactNode;
+  enableEditRegion?: boolean;
+  sourceImageId?: string;
+  projectId?: string | null;
 }
 
-export function AnnotateButton({ imageUrl, onAnnotated, className, children }: AnnotateButtonProps) {
+export function AnnotateButton({
+  imageUrl,
+  onAnnotated,
+  className,
+  children,
+  enableEditRegion,
+  sourceImageId,
+  projectId,
+}: AnnotateButtonProps) {
   const [isAnnotating, setIsAnnotating] = useState(false);
 
-  const handleSave = useCallback((annotatedUrl: string) => {
-    onAnnotated(annotatedUrl);
+  const handleSave = useCallback((annotatedUrl: string, details?: AnnotationSaveDetails) => {
+    onAnnotated(annotatedUrl, details);
     setIsAnnotating(false);
   }, [onAnnotated]);
 
@@ -1263,6 +1481,9 @@ export function AnnotateButton({ imageUrl, onAnnotated, className, children }: A
               onSave={handleSave}
               onCancel={() => setIsAnnotating(false)}
               className="w-full max-w-5xl"
+              enableEditRegion={enableEditRegion}
+              sourceImageId={sourceImageId}
+              projectId={projectId}
             />
           </div>
         </div>
@@ -2,8 +2,19 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { cn } from "@/lib/utils";
-import { getGeneratedImages, deleteGeneratedImage } from "@/lib/supabase";
+import {
+  getGeneratedImages,
+  getGeneratedImage,
+  getComparisonImages,
+  setComparisonWinner,
+  deleteGeneratedImage,
+} from "@/lib/supabase";
 import type { GeneratedImage } from "@/lib/database.types";
+import { formatModelName } from "@/lib/image-models";
+import { requestUpscale, UPSCALE_FACTORS, type UpscaleFactor } from "@/lib/upscale";
+import { requestCutout } from "@/lib/cutout";
+import { runGenerationJob } from "@/lib/generation-jobs";
+import { ModelComparison } from "@/components/model-comparison";
 import {
   Images,
   Trash2,
@@ -17,23 +28,12 @@ import {
   RotateCcw,
   Maximize2,
   Wand2,
+  ImageUpscale,
+  Scissors,
+  Repeat,
+  Columns,
 } from "lucide-react";
 
-// Format model name for display
-function formatModelName(model: string | null): string {
-  if (!model) return "Unknown";
-  
-  // Clean up common model name patterns
-  const modelMap: Record<string, string> = {
-    "nano-banana-pro/edit": "Nano Banana Pro",
-    "google/nano-banana": "Google Nano Banana",
-    "bytedance/seedream/v4.5/text-to-image": "Seedream 4.5",
-    "bytedance/seedream/v4.5/edit": "Seedream 4.5 Edit",
-  };
-  
-  return modelMap[model] || model.split("/").pop() || model;
-}
-
 interface ImageGalleryProps {
   isOpen: boolean;
   onClose: () => void;
@@ -55,6 +55,14 @@ export function ImageGallery({
     null
   );
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [upscaling, setUpscaling] = useState<UpscaleFactor | null>(null);
+  const [isCuttingOut, setIsCuttingOut] = useState(false);
+  const [isRerunning, setIsRerunning] = useState(false);
+  // Reopened model comparison (every image sharing the selected one's group id)
+  const [comparison, setComparison] = useState<{ groupId: string; images: GeneratedImage[] } | null>(null);
+  const [isLoadingComparison, setIsLoadingComparison] = useState(false);
+  // Upscale / cutout / re-run failure for the selected image
+  const [actionError, setActionError] = useState<string | null>(null);
   
   // Full-screen zoom viewer state
   const [isZoomViewerOpen, setIsZoomViewerOpen] = useState(false);
@@ -109,6 +117,82 @@ export function ImageGallery({
     }
   };
 
+  const handleUpscale = async (image: GeneratedImage, factor: UpscaleFactor) => {
+    setUpscaling(factor);
+    setActionError(null);
+    try {
+      const { image: upscaled } = await requestUpscale({ imageId: image.id }, factor);
+      setImages((prev) => [upscaled, ...prev]);
+      setSelectedImage(upscaled);
+    } catch (error) {
+      console.error("Error upscaling image:", error);
+      setActionError(error instanceof Error ? error.message : "Failed to upscale image");
+    } finally {
+      setUpscaling(null);
+    }
+  };
+
+  const handleCutout = async (image: GeneratedImage) => {
+    setIsCuttingOut(true);
+    setActionError(null);
+    try {
+      const { image: cutout } = await requestCutout({ imageId: image.id });
+      setImages((prev) => [cutout, ...prev]);
+      setSelectedImage(cutout);
+    } catch (error) {
+      console.error("Error cutting out image:", error);
+      setActionError(error instanceof Error ? error.message : "Failed to cut out image");
+    } finally {
+      setIsCuttingOut(false);
+    }
+  };
+
+  // Replay the image's stored provider request and show the new result
+  const handleRerun = async (image: GeneratedImage) => {
+    setIsRerunning(true);
+    setActionError(null);
+    try {
+      const result = await runGenerationJob({ rerunOf: image.id });
+      const savedIds = result.images.flatMap((item) => (item.id ? [item.id] : []));
+      const rows = await Promise.all(savedIds.map((id) => getGeneratedImage(id)));
+      const rerun = rows.filter((row): row is GeneratedImage => !!row);
+      if (rerun.length === 0) throw new Error("The re-run finished but its images weren't saved");
+      setImages((prev) => [...rerun, ...prev]);
+      setSelectedImage(rerun[0]);
+    } catch (error) {
+      console.error("Error re-running image:", error);
+      setActionError(error instanceof Error ? error.message : "Failed to re-run image");
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
+  const openComparison = async (groupId: string) => {
+    setIsLoadingComparison(true);
+    setActionError(null);
+    try {
+      setComparison({ groupId, images: await getComparisonImages(groupId) });
+    } catch (error) {
+      console.error("Error loading comparison:", error);
+      setActionError(error instanceof Error ? error.message : "Failed to load comparison");
+    } finally {
+      setIsLoadingComparison(false);
+    }
+  };
+
+  const handlePickWinner = async (groupId: string, imageId: string) => {
+    try {
+      await setComparisonWinner(groupId, imageId);
+      const markWinner = (image: GeneratedImage) =>
+        image.comparison_group_id === groupId ? { ...image, is_comparison_winner: image.id === imageId } : image;
+      setComparison((prev) => (prev ? { ...prev, images: prev.images.map(markWinner) } : prev));
+      setImages((prev) => prev.map(markWinner));
+      setSelectedImage((prev) => (prev ? markWinner(prev) : prev));
+    } catch (error) {
+      console.error("Error picking comparison winner:", error);
+    }
+  };
+
   const handleUseAsInput = (url: string) => {
     onUseAsInput(url);
     onClose();
@@ -364,7 +448,10 @@ export function ImageGallery({
                   {images.map((image) => (
                     <div
                       key={image.id}
-                      onClick={() => setSelectedImage(image)}
+                      onClick={() => {
+                        setSelectedImage(image);
+                        setActionError(null);
+                      }}
                       className={cn(
                         "group relative aspect-square rounded-xl overflow-hidden cursor-pointer border-2 transition-all",
                         selectedImage?.id === image.id
@@ -373,9 +460,10 @@ export function ImageGallery({
                       )}
                     >
                       <img
-                        src={image.image_url}
+                        src={image.thumbnail_url || image.image_url}
                         alt={image.prompt}
                         className="w-full h-full object-cover"
+                        loading="lazy"
                       />
                       {/* Model badge - always visible */}
                       {image.model && (
@@ -406,7 +494,7 @@ export function ImageGallery({
                     onClick={openZoomViewer}
                   >
                     <img
-                      src={selectedImage.image_url}
+                      src={selectedImage.preview_url || selectedImage.image_url}
                       alt={selectedImage.prompt}
                       className="w-full aspect-square object-cover rounded-xl transition-all group-hover:brightness-90"
                     />
@@ -482,6 +570,16 @@ export function ImageGallery({
                           ).toLocaleDateString()}
                         </span>
                       </div>
+                      {typeof selectedImage.seed === "number" && (
+                        <div className="bg-zinc-800/50 rounded-lg p-2 col-span-2">
+                          <span className="text-zinc-500 block text-xs">
+                            Seed
+                          </span>
+                          <span className="text-white font-mono">
+                            {selectedImage.seed}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -514,6 +612,67 @@ export function ImageGallery({
                       Use as Input
                       <ArrowRight className="w-4 h-4" />
                     </button>
+                    <div className="flex gap-2">
+                      {UPSCALE_FACTORS.map((factor) => (
+                        <button
+                          key={factor}
+                          onClick={() => handleUpscale(selectedImage, factor)}
+                          disabled={upscaling !== null || isCuttingOut}
+                          className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+                        >
+                          {upscaling === factor ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <ImageUpscale className="w-4 h-4" />
+                          )}
+                          Upscale {factor}×
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => handleCutout(selectedImage)}
+                      disabled={upscaling !== null || isCuttingOut}
+                      className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+                    >
+                      {isCuttingOut ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Scissors className="w-4 h-4" />
+                      )}
+                      Remove Background
+                    </button>
+                    {selectedImage.comparison_group_id && (
+                      <button
+                        onClick={() => openComparison(selectedImage.comparison_group_id!)}
+                        disabled={isLoadingComparison}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+                      >
+                        {isLoadingComparison ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Columns className="w-4 h-4" />
+                        )}
+                        Open Comparison
+                      </button>
+                    )}
+                    {selectedImage.provider_request && (
+                      <button
+                        onClick={() => handleRerun(selectedImage)}
+                        disabled={isRerunning}
+                        title="Send the exact same request again (model, inputs and seed)"
+                        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+                      >
+                        {isRerunning ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Repeat className="w-4 h-4" />
+                        )}
+                        Re-run with Same Settings
+                      </button>
+                    )}
+                    {actionError && (
+                      <p className="text-xs text-red-400">{actionError}</p>
+                    )}
                     <a
                       href={selectedImage.image_url}
                       target="_blank"
@@ -545,6 +704,51 @@ export function ImageGallery({
         </div>
       </div>
 
+      {/* Reopened model comparison */}
+      {comparison && (
+        <div
+          className="fixed inset-0 z-[60] bg-black/90 flex items-center justify-center p-4"
+          onClick={() => setComparison(null)}
+        >
+          <div
+            className="w-full max-w-5xl max-h-full overflow-y-auto bg-zinc-900 rounded-2xl border border-zinc-800"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between gap-4 p-4 border-b border-zinc-800">
+              <div className="min-w-0">
+                <h3 className="text-lg font-semibold text-white">Model Comparison</h3>
+                <p className="text-sm text-zinc-400 truncate">{comparison.images[0]?.prompt}</p>
+              </div>
+              <button
+                onClick={() => setComparison(null)}
+                className="w-10 h-10 rounded-xl bg-zinc-800 hover:bg-zinc-700 flex items-center justify-center transition-colors flex-shrink-0"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <ModelComparison
+              entries={comparison.images.map((image) => ({
+                id: image.id,
+                model: image.model,
+                url: image.image_url,
+                previewUrl: image.preview_url || undefined,
+                latencyMs: image.latency_ms ?? undefined,
+                isWinner: image.is_comparison_winner,
+              }))}
+              prompt={comparison.images[0]?.prompt || ""}
+              onOpen={(imageId) => {
+                const image = comparison.images.find((item) => item.id === imageId);
+                if (image) setSelectedImage(image);
+                setComparison(null);
+              }}
+              onUseAsInput={handleUseAsInput}
+              onPickWinner={(imageId) => handlePickWinner(comparison.groupId, imageId)}
+              className="p-4"
+            />
+          </div>
+        </div>
+      )}
+
       {/* Full-Screen Zoom Viewer */}
       {isZoomViewerOpen && selectedImage && (
         <div 
@@ -0,0 +1,125 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { formatModelName } from "@/lib/image-models";
+import { AlertCircle, ArrowRight, Loader2, Timer, Trophy } from "lucide-react";
+
+export type ComparisonEntry = {
+  id: string;
+  // Registry id or stored model name
+  model: string | null;
+  url?: string;
+  // 768px derivative shown in the grid
+  previewUrl?: string;
+  loading?: boolean;
+  error?: string;
+  latencyMs?: number;
+  isWinner?: boolean;
+};
+
+type ModelComparisonProps = {
+  entries: ComparisonEntry[];
+  prompt: string;
+  onOpen?: (id: string) => void;
+  onUseAsInput?: (url: string) => void;
+  // Omit to show the grid read-only
+  onPickWinner?: (id: string) => void;
+  className?: string;
+};
+
+export function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// One cell per model, all answering the same prompt and inputs
+export function ModelComparison({
+  entries,
+  prompt,
+  onOpen,
+  onUseAsInput,
+  onPickWinner,
+  className,
+}: ModelComparisonProps) {
+  const finished = entries.filter((entry) => entry.latencyMs !== undefined && !entry.loading);
+  const fastest = finished.length > 1 ? Math.min(...finished.map((entry) => entry.latencyMs!)) : undefined;
+
+  return (
+    <div className={cn("grid gap-2 p-2", entries.length > 1 ? "grid-cols-2 lg:grid-cols-3" : "grid-cols-1", className)}>
+      {entries.map((entry) => (
+        <div
+          key={entry.id}
+          className={cn(
+            "group/tile relative rounded-xl overflow-hidden bg-zinc-900 border-2 transition-colors",
+            entry.isWinner ? "border-amber-400" : "border-transparent"
+          )}
+        >
+          {/* Model and latency */}
+          <div className="flex items-center justify-between gap-2 px-2.5 py-2 text-xs">
+            <span className="font-medium text-zinc-200 truncate">{formatModelName(entry.model)}</span>
+            {entry.latencyMs !== undefined && (
+              <span
+                className={cn(
+                  "flex items-center gap-1 flex-shrink-0",
+                  entry.latencyMs === fastest ? "text-lime-400" : "text-zinc-500"
+                )}
+              >
+                <Timer className="w-3 h-3" />
+                {formatLatency(entry.latencyMs)}
+              </span>
+            )}
+          </div>
+
+          <div className="aspect-square flex items-center justify-center bg-zinc-950">
+            {entry.loading ? (
+              <Loader2 className="w-6 h-6 text-zinc-500 animate-spin" />
+            ) : entry.error ? (
+              <div className="flex flex-col items-center gap-2 px-4 text-center">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <p className="text-xs text-red-400 line-clamp-3">{entry.error}</p>
+              </div>
+            ) : entry.url ? (
+              <img
+                src={entry.previewUrl || entry.url}
+                alt={`${prompt} (${formatModelName(entry.model)})`}
+                className={cn("w-full h-full object-contain", onOpen && "cursor-pointer")}
+                onClick={() => onOpen?.(entry.id)}
+                loading="lazy"
+              />
+            ) : null}
+          </div>
+
+          {entry.isWinner && (
+            <span className="absolute top-10 left-2 flex items-center gap-1 px-2 py-0.5 bg-amber-400 text-black text-xs font-medium rounded-md">
+              <Trophy className="w-3 h-3" />
+              Winner
+            </span>
+          )}
+
+          {/* Tile actions */}
+          {entry.url && !entry.loading && (onPickWinner || onUseAsInput) && (
+            <div className="absolute bottom-2 right-2 flex gap-1 opacity-100 lg:opacity-0 lg:group-hover/tile:opacity-100 transition-opacity">
+              {onPickWinner && !entry.isWinner && (
+                <button
+                  onClick={() => onPickWinner(entry.id)}
+                  className="p-2 bg-zinc-800/90 hover:bg-amber-400 hover:text-black text-white rounded-lg transition-colors"
+                  title="Pick as winner"
+                >
+                  <Trophy className="w-4 h-4" />
+                </button>
+              )}
+              {onUseAsInput && (
+                <button
+                  onClick={() => onUseAsInput(entry.url!)}
+                  className="p-2 bg-lime-400/90 hover:bg-lime-400 text-black rounded-lg transition-colors"
+                  title="Edit this"
+                >
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
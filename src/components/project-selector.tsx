@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { cn } from "@/lib/utils";
 import {
   getProjects,
@@ -19,6 +19,8 @@ import {
   ArrowLeft,
   Lightbulb,
   Palette,
+  Download,
+  Upload,
 } from "lucide-react";
 
 type ProjectSelectorProps = {
@@ -44,6 +46,8 @@ export function ProjectSelector({
   const [newProjectDescription, setNewProjectDescription] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadProjects();
@@ -102,6 +106,33 @@ export function ProjectSelector({
     }
   };
 
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      setError(null);
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/projects/import", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import project");
+      }
+      setProjects((prev) => [data as Project, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import project");
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
     const now = new Date();
@@ -197,13 +228,31 @@ export function ProjectSelector({
 
         {/* Create Project Button / Form */}
         {!showCreateForm ? (
-          <button
-            onClick={() => setShowCreateForm(true)}
-            className="w-full mb-6 p-4 border-2 border-dashed border-zinc-700 hover:border-lime-500/50 rounded-xl flex items-center justify-center gap-3 text-zinc-400 hover:text-lime-400 transition-colors group"
-          >
-            <FolderPlus className="w-5 h-5 group-hover:scale-110 transition-transform" />
-            <span className="font-medium">Create New Project</span>
-          </button>
+          <div className="flex gap-2 mb-6">
+            <button
+              onClick={() => setShowCreateForm(true)}
+              className="flex-1 p-4 border-2 border-dashed border-zinc-700 hover:border-lime-500/50 rounded-xl flex items-center justify-center gap-3 text-zinc-400 hover:text-lime-400 transition-colors group"
+            >
+              <FolderPlus className="w-5 h-5 group-hover:scale-110 transition-transform" />
+              <span className="font-medium">Create New Project</span>
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={importing}
+              className="px-4 border-2 border-dashed border-zinc-700 hover:border-lime-500/50 rounded-xl flex items-center justify-center gap-2 text-zinc-400 hover:text-lime-400 transition-colors disabled:opacity-50"
+              title="Import a project exported as ZIP"
+            >
+              {importing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              <span className="font-medium">{importing ? "Importing..." : "Import"}</span>
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleImportProject}
+              className="hidden"
+            />
+          </div>
         ) : (
           <form
             onSubmit={handleCreateProject}
@@ -326,6 +375,15 @@ export function ProjectSelector({
                       </div>
                     </div>
                     <div className="flex items-center gap-2 ml-4">
+                      <a
+                        href={`/api/projects/${project.id}/export`}
+                        download
+                        onClick={(e) => e.stopPropagation()}
+                        className="p-2 text-zinc-600 hover:text-lime-400 hover:bg-lime-400/10 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+                        title="Export project as ZIP"
+                      >
+                        <Download className="w-4 h-4" />
+                      </a>
                       <button
                         onClick={(e) => handleDeleteProject(project.id, e)}
                         disabled={deletingId === project.id}
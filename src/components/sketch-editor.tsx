@@ -0,0 +1,388 @@
+"use client";
+
+import { useCallback } from "react";
+import {
+  Tldraw,
+  AssetRecordType,
+  Box,
+  DefaultColorStyle,
+  DefaultColorThemePalette,
+  FONT_SIZES,
+  STROKE_SIZES,
+  createShapeId,
+  defaultColorNames,
+  getArrowInfo,
+  getColorValue,
+  getIndices,
+  getSnapshot,
+  loadSnapshot,
+  renderPlaintextFromRichText,
+  toRichText,
+  type Editor,
+  type TLArrowShape,
+  type TLDrawShape,
+  type TLGeoShape,
+  type TLHighlightShape,
+  type TLImageShape,
+  type TLLineShape,
+  type TLDefaultColorStyle,
+  type TLDefaultSizeStyle,
+  type TLShape,
+  type TLShapePartial,
+  type TLStoreSnapshot,
+  type TLTextShape,
+  type VecLike,
+} from "tldraw";
+import "tldraw/tldraw.css";
+import { cn } from "@/lib/utils";
+import type { AnnotationPoint, AnnotationShape } from "@/lib/annotations";
+
+export type SketchBackground = {
+  url: string;
+  width: number;
+  height: number;
+  mimeType: string | null;
+};
+
+// Bound to a mounted editor; the page only touches tldraw through this
+export type SketchHandle = {
+  background: SketchBackground;
+  // Flattened drawing (background + shapes) cropped to the photo
+  exportImage: () => Promise<Blob>;
+  // Shapes in background pixel space, for annotation instructions
+  getShapes: () => AnnotationShape[];
+  // Store snapshot to reopen the sketch later
+  getSnapshot: () => TLStoreSnapshot;
+  clear: () => void;
+};
+
+interface SketchEditorProps {
+  background: SketchBackground;
+  // Stored document snapshot to restore instead of starting blank
+  snapshot?: unknown;
+  // Flat shapes in background pixel space, for drawings saved without a snapshot
+  shapes?: AnnotationShape[];
+  onMount: (handle: SketchHandle) => void;
+  className?: string;
+}
+
+const BACKGROUND_SHAPE_ID = createShapeId("background");
+const BACKGROUND_ASSET_ID = AssetRecordType.createId("background");
+
+// Longest edge of the exported composite
+const MAX_EXPORT_SIZE = 2048;
+
+const theme = DefaultColorThemePalette.lightMode;
+
+// Place the photo at the page origin, locked underneath everything else
+function setBackground(editor: Editor, background: SketchBackground) {
+  editor.createAssets([
+    AssetRecordType.create({
+      id: BACKGROUND_ASSET_ID,
+      type: "image",
+      props: {
+        name: "background",
+        src: background.url,
+        w: background.width,
+        h: background.height,
+        mimeType: background.mimeType,
+        isAnimated: false,
+      },
+    }),
+  ]);
+  editor.createShape({
+    id: BACKGROUND_SHAPE_ID,
+    type: "image",
+    x: 0,
+    y: 0,
+    isLocked: true,
+    props: { assetId: BACKGROUND_ASSET_ID, w: background.width, h: background.height },
+  });
+  editor.sendToBack([BACKGROUND_SHAPE_ID]);
+}
+
+// Nearest tldraw color to a hex color from the old canvas editor
+function toTldrawColor(hex: string): TLDefaultColorStyle {
+  const rgb = (value: string) => {
+    const match = /^#?([0-9a-f]{6})$/i.exec(value);
+    const n = match ? parseInt(match[1], 16) : 0;
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+  };
+  const target = rgb(hex);
+  const distance = (name: TLDefaultColorStyle) =>
+    rgb(getColorValue(theme, name, "solid")).reduce((sum, channel, i) => sum + (channel - target[i]) ** 2, 0);
+  return defaultColorNames.reduce((best, name) => (distance(name) < distance(best) ? name : best));
+}
+
+// Nearest tldraw size to a pixel value
+function toTldrawSize(value: number, sizes: Record<TLDefaultSizeStyle, number>): TLDefaultSizeStyle {
+  return (Object.keys(sizes) as TLDefaultSizeStyle[]).reduce((best, size) =>
+    Math.abs(sizes[size] - value) < Math.abs(sizes[best] - value) ? size : best
+  );
+}
+
+// Rebuild a shape drawn with the old canvas editor as a tldraw shape
+function fromAnnotationShape(shape: AnnotationShape): TLShapePartial | null {
+  const color = toTldrawColor(shape.color);
+  const size = toTldrawSize(shape.lineWidth, STROKE_SIZES);
+  const { start, end, points } = shape;
+
+  switch (shape.type) {
+    case "pen": {
+      if (!points?.length) return null;
+      const [origin] = points;
+      return {
+        id: createShapeId(),
+        type: "draw",
+        x: origin.x,
+        y: origin.y,
+        props: {
+          color,
+          size,
+          isComplete: true,
+          segments: [{ type: "free", points: points.map((p) => ({ x: p.x - origin.x, y: p.y - origin.y, z: 0.5 })) }],
+        },
+      };
+    }
+    case "line": {
+      if (!start || !end) return null;
+      const [a, b] = getIndices(1);
+      return {
+        id: createShapeId(),
+        type: "line",
+        x: start.x,
+        y: start.y,
+        props: {
+          color,
+          size,
+          points: {
+            [a]: { id: a, index: a, x: 0, y: 0 },
+            [b]: { id: b, index: b, x: end.x - start.x, y: end.y - start.y },
+          },
+        },
+      };
+    }
+    case "arrow":
+      if (!start || !end) return null;
+      return {
+        id: createShapeId(),
+        type: "arrow",
+        x: start.x,
+        y: start.y,
+        props: { color, size, start: { x: 0, y: 0 }, end: { x: end.x - start.x, y: end.y - start.y } },
+      };
+    case "rectangle":
+    case "circle":
+      if (!start || !end) return null;
+      return {
+        id: createShapeId(),
+        type: "geo",
+        x: Math.min(start.x, end.x),
+        y: Math.min(start.y, end.y),
+        props: {
+          geo: shape.type === "circle" ? "ellipse" : "rectangle",
+          color,
+          size,
+          w: Math.max(1, Math.abs(end.x - start.x)),
+          h: Math.max(1, Math.abs(end.y - start.y)),
+        },
+      };
+    case "text": {
+      if (!start || !shape.text?.trim()) return null;
+      // The canvas drew text at lineWidth * 4 px from its baseline
+      const fontSize = shape.lineWidth * 4;
+      return {
+        id: createShapeId(),
+        type: "text",
+        x: start.x,
+        y: start.y - fontSize,
+        props: { color, size: toTldrawSize(fontSize, FONT_SIZES), richText: toRichText(shape.text) },
+      };
+    }
+    default:
+      // Eraser strokes cut through pixels, which tldraw shapes can't do
+      return null;
+  }
+}
+
+// Convert a tldraw shape into the flat annotation shapes used for instructions
+function toAnnotationShapes(editor: Editor, shape: TLShape): AnnotationShape[] {
+  const transform = editor.getShapePageTransform(shape);
+  const toPage = (point: VecLike): AnnotationPoint => {
+    const { x, y } = transform.applyToPoint(point);
+    return { x, y };
+  };
+  const bounds = editor.getShapePageBounds(shape);
+  const label = (text: string, at: AnnotationPoint, color: string): AnnotationShape[] =>
+    text.trim() ? [{ type: "text", start: at, text, color, lineWidth: 0 }] : [];
+
+  if (editor.isShapeOfType<TLGeoShape>(shape, "geo") && bounds) {
+    const color = getColorValue(theme, shape.props.color, "solid");
+    const isEllipse = shape.props.geo === "ellipse" || shape.props.geo === "oval";
+    return [
+      {
+        id: shape.id,
+        type: isEllipse ? "circle" : "rectangle",
+        start: { x: bounds.minX, y: bounds.minY },
+        end: { x: bounds.maxX, y: bounds.maxY },
+        color,
+        lineWidth: STROKE_SIZES[shape.props.size],
+      },
+      // Text typed inside the shape labels it
+      ...label(renderPlaintextFromRichText(editor, shape.props.richText), bounds.center, color),
+    ];
+  }
+
+  if (
+    editor.isShapeOfType<TLDrawShape>(shape, "draw") ||
+    editor.isShapeOfType<TLHighlightShape>(shape, "highlight")
+  ) {
+    const points = shape.props.segments.flatMap((segment) => segment.points.map(toPage));
+    if (!points.length) return [];
+    return [
+      {
+        id: shape.id,
+        type: "pen",
+        points,
+        color: getColorValue(theme, shape.props.color, "solid"),
+        lineWidth: STROKE_SIZES[shape.props.size],
+      },
+    ];
+  }
+
+  if (editor.isShapeOfType<TLLineShape>(shape, "line")) {
+    const points = Object.values(shape.props.points)
+      .sort((a, b) => (a.index < b.index ? -1 : a.index > b.index ? 1 : 0))
+      .map(toPage);
+    if (points.length < 2) return [];
+    return [
+      {
+        id: shape.id,
+        type: "line",
+        start: points[0],
+        end: points[points.length - 1],
+        color: getColorValue(theme, shape.props.color, "solid"),
+        lineWidth: STROKE_SIZES[shape.props.size],
+      },
+    ];
+  }
+
+  if (editor.isShapeOfType<TLArrowShape>(shape, "arrow")) {
+    const info = getArrowInfo(editor, shape);
+    if (!info) return [];
+    const color = getColorValue(theme, shape.props.color, "solid");
+    const start = toPage(info.start.point);
+    return [
+      {
+        id: shape.id,
+        type: "arrow",
+        start,
+        end: toPage(info.end.point),
+        color,
+        lineWidth: STROKE_SIZES[shape.props.size],
+      },
+      // Arrow labels describe what the arrow points at, like text at its tail
+      ...label(renderPlaintextFromRichText(editor, shape.props.richText), start, color),
+    ];
+  }
+
+  if (editor.isShapeOfType<TLTextShape>(shape, "text") && bounds) {
+    return label(
+      renderPlaintextFromRichText(editor, shape.props.richText),
+      { x: bounds.minX, y: bounds.minY },
+      getColorValue(theme, shape.props.color, "solid")
+    );
+  }
+
+  return [];
+}
+
+function createSketchHandle(editor: Editor, background: SketchBackground): SketchHandle {
+  const drawnShapeIds = () =>
+    [...editor.getCurrentPageShapeIds()].filter((id) => id !== BACKGROUND_SHAPE_ID);
+
+  return {
+    background,
+    exportImage: async () => {
+      const scale = Math.min(1, MAX_EXPORT_SIZE / Math.max(background.width, background.height));
+      const { blob } = await editor.toImage([...editor.getCurrentPageShapeIds()], {
+        format: "png",
+        bounds: new Box(0, 0, background.width, background.height),
+        padding: 0,
+        background: true,
+        scale,
+        pixelRatio: 1,
+      });
+      return blob;
+    },
+    getShapes: () =>
+      editor
+        .getCurrentPageShapesSorted()
+        .filter((shape) => shape.id !== BACKGROUND_SHAPE_ID)
+        .flatMap((shape) => toAnnotationShapes(editor, shape)),
+    getSnapshot: () => getSnapshot(editor.store).document,
+    clear: () => editor.deleteShapes(drawnShapeIds()),
+  };
+}
+
+// tldraw hides the editor a few seconds after loading on a deployed production
+// build (https, not localhost) that has no license key
+function isLicenseMissing(): boolean {
+  return (
+    !process.env.NEXT_PUBLIC_TLDRAW_LICENSE_KEY &&
+    process.env.NODE_ENV === "production" &&
+    window.location.protocol === "https:" &&
+    window.location.hostname !== "localhost"
+  );
+}
+
+export function SketchEditor({ background, snapshot, shapes, onMount, className }: SketchEditorProps) {
+  const handleMount = useCallback(
+    (editor: Editor) => {
+      if (snapshot) {
+        try {
+          loadSnapshot(editor.store, { document: snapshot as TLStoreSnapshot });
+        } catch (error) {
+          console.error("Failed to restore sketch, starting from the photo:", error);
+        }
+      }
+      const asset = editor.getAsset(BACKGROUND_ASSET_ID);
+      if (!editor.getShape(BACKGROUND_SHAPE_ID)) {
+        setBackground(editor, background);
+        if (shapes?.length) {
+          editor.createShapes(shapes.map(fromAnnotationShape).filter((shape) => shape !== null));
+        }
+      } else if (asset?.type === "image" && asset.props.src !== background.url) {
+        // The photo may have moved since the sketch was saved (e.g. an imported project)
+        editor.updateAssets([{ ...asset, props: { ...asset.props, src: background.url } }]);
+      }
+      // A restored sketch keeps the photo size it was drawn on
+      const { w, h } = editor.getShape<TLImageShape>(BACKGROUND_SHAPE_ID)!.props;
+
+      editor.setCurrentTool("draw");
+      editor.setStyleForNextShapes(DefaultColorStyle, "red");
+      editor.zoomToFit();
+      onMount(createSketchHandle(editor, { ...background, width: w, height: h }));
+    },
+    [background, snapshot, shapes, onMount]
+  );
+
+  if (isLicenseMissing()) {
+    return (
+      <div className={cn("relative flex items-center justify-center p-6", className)}>
+        <p className="max-w-md text-center text-sm text-zinc-400">
+          The sketch editor needs a tldraw license key in production. Set{" "}
+          <code className="text-lime-400">NEXT_PUBLIC_TLDRAW_LICENSE_KEY</code> and rebuild the app.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("relative", className)}>
+      <div className="absolute inset-0">
+        <Tldraw onMount={handleMount} licenseKey={process.env.NEXT_PUBLIC_TLDRAW_LICENSE_KEY} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+/**
+ * Annotation layers
+ *
+ * Annotated images are saved as flat PNGs, but the shapes drawn on them are
+ * also kept as versioned JSON (the `annotations` table) so the annotator can
+ * reopen them for editing. Coordinates are in the pixel space of
+ * `width` x `height`; editors rescale when their canvas differs.
+ */
+
+export const ANNOTATION_FORMAT_VERSION = 1;
+
+// Which editor drew the shapes - they render some shapes differently
+export type AnnotationEditor = "annotator" | "draw-to-edit";
+
+export type AnnotationPoint = { x: number; y: number };
+
+export type AnnotationShapeType = "pen" | "eraser" | "line" | "arrow" | "rectangle" | "circle" | "text";
+
+export type AnnotationShape = {
+  id?: string;
+  type: AnnotationShapeType;
+  points?: AnnotationPoint[];
+  start?: AnnotationPoint;
+  end?: AnnotationPoint;
+  text?: string;
+  color: string;
+  lineWidth: number;
+};
+
+export type AnnotationDocument = {
+  version: number;
+  editor: AnnotationEditor;
+  width: number;
+  height: number;
+  shapes: AnnotationShape[];
+  // Editor-native document (draw-to-edit's tldraw store), restored in place of `shapes`
+  snapshot?: unknown;
+};
+
+const SHAPE_TYPES: AnnotationShapeType[] = ["pen", "eraser", "line", "arrow", "rectangle", "circle", "text"];
+
+export function createAnnotationDocument(
+  editor: AnnotationEditor,
+  width: number,
+  height: number,
+  shapes: AnnotationShape[],
+  snapshot?: unknown
+): AnnotationDocument {
+  return {
+    version: ANNOTATION_FORMAT_VERSION,
+    editor,
+    width,
+    height,
+    // Only keep serializable fields (editors carry extra UI state on their actions)
+    shapes: shapes.map(({ id, type, points, start, end, text, color, lineWidth }) => ({
+      id,
+      type,
+      points,
+      start,
+      end,
+      text,
+      color,
+      lineWidth,
+    })),
+    ...(snapshot ? { snapshot } : {}),
+  };
+}
+
+const isPoint = (value: unknown): value is AnnotationPoint =>
+  !!value &&
+  typeof (value as AnnotationPoint).x === "number" &&
+  typeof (value as AnnotationPoint).y === "number";
+
+/**
+ * Validate stored JSON. Returns null for anything we can't render, including
+ * documents written by a newer format version.
+ */
+export function parseAnnotationDocument(data: unknown): AnnotationDocument | null {
+  if (!data || typeof data !== "object") return null;
+  const document = data as Partial<AnnotationDocument>;
+
+  if (typeof document.version !== "number" || document.version > ANNOTATION_FORMAT_VERSION) return null;
+  if (document.editor !== "annotator" && document.editor !== "draw-to-edit") return null;
+  if (!(typeof document.width === "number" && document.width > 0)) return null;
+  if (!(typeof document.height === "number" && document.height > 0)) return null;
+  if (!Array.isArray(document.shapes)) return null;
+
+  const shapes = document.shapes.filter(
+    (shape): shape is AnnotationShape =>
+      !!shape &&
+      SHAPE_TYPES.includes(shape.type) &&
+      typeof shape.color === "string" &&
+      typeof shape.lineWidth === "number" &&
+      (shape.points === undefined || (Array.isArray(shape.points) && shape.points.every(isPoint))) &&
+      (shape.start === undefined || isPoint(shape.start)) &&
+      (shape.end === undefined || isPoint(shape.end))
+  );
+
+  return {
+    version: document.version,
+    editor: document.editor,
+    width: document.width,
+    height: document.height,
+    shapes,
+    ...(document.snapshot && typeof document.snapshot === "object" ? { snapshot: document.snapshot } : {}),
+  };
+}
+
+// Shapes mapped into a canvas of a different size
+export function scaleAnnotationShapes(
+  document: AnnotationDocument,
+  width: number,
+  height: number
+): AnnotationShape[] {
+  const scaleX = width / document.width;
+  const scaleY = height / document.height;
+  if (scaleX === 1 && scaleY === 1) return document.shapes;
+
+  const scalePoint = (point: AnnotationPoint) => ({ x: point.x * scaleX, y: point.y * scaleY });
+  return document.shapes.map((shape) => ({
+    ...shape,
+    points: shape.points?.map(scalePoint),
+    start: shape.start && scalePoint(shape.start),
+    end: shape.end && scalePoint(shape.end),
+    lineWidth: shape.lineWidth * ((scaleX + scaleY) / 2),
+  }));
+}
+
+// ============================================
+// STRUCTURED INSTRUCTIONS
+// ============================================
+
+// Fractions of the image size, origin top-left
+export type AnnotationBox = { x0: number; y0: number; x1: number; y1: number };
+
+/**
+ * One marked area and what should happen there. Labels come from text shapes
+ * placed on (or next to) a shape, or at the tail of an arrow. Text with no
+ * shape nearby becomes its own instruction at the text position.
+ */
+export type AnnotationInstruction = {
+  shape: Exclude<AnnotationShapeType, "eraser">;
+  box: AnnotationBox;
+  label?: string;
+  color: string;
+};
+
+// Used when the marks carry the whole request and the prompt is left empty
+export const DEFAULT_ANNOTATION_PROMPT = "Apply the annotated edits";
+
+const MAX_INSTRUCTIONS = 50;
+const MAX_LABEL_LENGTH = 300;
+// How far (as a fraction of the image) a label may sit from the shape it describes
+const LABEL_MATCH_DISTANCE = 0.2;
+// Area around an arrow's head that the arrow points at
+const ARROW_TARGET_RADIUS = 0.05;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+function boxFromPoints(points: AnnotationPoint[], width: number, height: number): AnnotationBox {
+  const xs = points.map((point) => point.x / width);
+  const ys = points.map((point) => point.y / height);
+  return {
+    x0: clamp01(Math.min(...xs)),
+    y0: clamp01(Math.min(...ys)),
+    x1: clamp01(Math.max(...xs)),
+    y1: clamp01(Math.max(...ys)),
+  };
+}
+
+// Region a non-text shape marks, in normalized coordinates
+function getShapeBox(shape: AnnotationShape, document: AnnotationDocument): AnnotationBox | null {
+  const { width, height } = document;
+  const { start, end } = shape;
+
+  switch (shape.type) {
+    case "pen":
+      return shape.points?.length ? boxFromPoints(shape.points, width, height) : null;
+    case "line":
+    case "rectangle":
+      return start && end ? boxFromPoints([start, end], width, height) : null;
+    case "circle":
+      if (!start || !end) return null;
+      // The annotator draws from the center out; draw-to-edit fits an ellipse in the drag box
+      if (document.editor === "annotator") {
+        const radius = Math.hypot(end.x - start.x, end.y - start.y);
+        return boxFromPoints(
+          [
+            { x: start.x - radius, y: start.y - radius },
+            { x: start.x + radius, y: start.y + radius },
+          ],
+          width,
+          height
+        );
+      }
+      return boxFromPoints([start, end], width, height);
+    case "arrow":
+      if (!end) return null;
+      return {
+        x0: clamp01(end.x / width - ARROW_TARGET_RADIUS),
+        y0: clamp01(end.y / height - ARROW_TARGET_RADIUS),
+        x1: clamp01(end.x / width + ARROW_TARGET_RADIUS),
+        y1: clamp01(end.y / height + ARROW_TARGET_RADIUS),
+      };
+    default:
+      return null;
+  }
+}
+
+function distanceToBox(point: AnnotationPoint, box: AnnotationBox): number {
+  const dx = Math.max(box.x0 - point.x, 0, point.x - box.x1);
+  const dy = Math.max(box.y0 - point.y, 0, point.y - box.y1);
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Turn a document's shapes into region instructions, pairing each text
+ * label with the closest shape.
+ */
+export function extractAnnotationInstructions(document: AnnotationDocument): AnnotationInstruction[] {
+  const { width, height } = document;
+  const regions: (AnnotationInstruction & { labels: string[]; tail?: AnnotationPoint })[] = [];
+  const texts: AnnotationShape[] = [];
+
+  for (const shape of document.shapes) {
+    if (shape.type === "text") {
+      if (shape.text?.trim() && shape.start) texts.push(shape);
+      continue;
+    }
+    if (shape.type === "eraser") continue;
+
+    const box = getShapeBox(shape, document);
+    if (!box) continue;
+    regions.push({
+      shape: shape.type,
+      box,
+      color: shape.color,
+      labels: [],
+      // Arrows are labelled at their tail, not where they point
+      tail: shape.type === "arrow" && shape.start
+        ? { x: shape.start.x / width, y: shape.start.y / height }
+        : undefined,
+    });
+  }
+
+  const standalone: AnnotationInstruction[] = [];
+  for (const text of texts) {
+    const anchor = { x: clamp01(text.start!.x / width), y: clamp01(text.start!.y / height) };
+    let best: (typeof regions)[number] | null = null;
+    let bestDistance = Infinity;
+
+    for (const region of regions) {
+      const distance = region.tail
+        ? Math.hypot(anchor.x - region.tail.x, anchor.y - region.tail.y)
+        : distanceToBox(anchor, region.box);
+      if (distance < bestDistance) {
+        best = region;
+        bestDistance = distance;
+      }
+    }
+
+    const label = text.text!.trim();
+    if (best && bestDistance <= LABEL_MATCH_DISTANCE) {
+      best.labels.push(label);
+    } else {
+      standalone.push({
+        shape: "text",
+        box: { x0: anchor.x, y0: anchor.y, x1: anchor.x, y1: anchor.y },
+        label,
+        color: text.color,
+      });
+    }
+  }
+
+  return [
+    ...regions.map(({ shape, box, color, labels }) => ({
+      shape,
+      box,
+      color,
+      label: labels.length ? labels.join("; ") : undefined,
+    })),
+    ...standalone,
+  ].slice(0, MAX_INSTRUCTIONS);
+}
+
+/**
+ * Validate instructions from a request body. Drops anything malformed and
+ * clamps coordinates, so the result is safe to put in a prompt.
+ */
+export function sanitizeAnnotationInstructions(value: unknown): AnnotationInstruction[] {
+  if (!Array.isArray(value)) return [];
+
+  const shapes = SHAPE_TYPES.filter((type) => type !== "eraser");
+  const instructions: AnnotationInstruction[] = [];
+  for (const item of value.slice(0, MAX_INSTRUCTIONS)) {
+    const box = item?.box;
+    if (!shapes.includes(item?.shape) || !box) continue;
+    if (![box.x0, box.y0, box.x1, box.y1].every((n) => typeof n === "number" && Number.isFinite(n))) continue;
+
+    const label = typeof item.label === "string"
+      ? item.label.replace(/\s+/g, " ").trim().slice(0, MAX_LABEL_LENGTH)
+      : "";
+    instructions.push({
+      shape: item.shape,
+      box: {
+        x0: clamp01(Math.min(box.x0, box.x1)),
+        y0: clamp01(Math.min(box.y0, box.y1)),
+        x1: clamp01(Math.max(box.x0, box.x1)),
+        y1: clamp01(Math.max(box.y0, box.y1)),
+      },
+      label: label || undefined,
+      color: typeof item.color === "string" && /^#[0-9a-f]{6}$/i.test(item.color) ? item.color : "",
+    });
+  }
+  return instructions;
+}
+
+const NAMED_COLORS: [string, [number, number, number]][] = [
+  ["red", [239, 68, 68]],
+  ["orange", [249, 115, 22]],
+  ["yellow", [234, 179, 8]],
+  ["green", [34, 197, 94]],
+  ["teal", [20, 184, 166]],
+  ["cyan", [6, 182, 212]],
+  ["blue", [59, 130, 246]],
+  ["purple", [139, 92, 246]],
+  ["pink", [236, 72, 153]],
+  ["white", [255, 255, 255]],
+  ["gray", [128, 128, 128]],
+  ["black", [0, 0, 0]],
+];
+
+// Closest plain color name for a #rrggbb value
+function describeColor(hex: string): string | null {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return null;
+  const rgb = match.slice(1).map((part) => parseInt(part, 16));
+
+  let best = NAMED_COLORS[0];
+  let bestDistance = Infinity;
+  for (const named of NAMED_COLORS) {
+    const distance = named[1].reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0);
+    if (distance < bestDistance) {
+      best = named;
+      bestDistance = distance;
+    }
+  }
+  return best[0];
+}
+
+// "upper-left", "center", "lower-center", ... from a box's midpoint
+function describeRegion(box: AnnotationBox): string {
+  const cx = (box.x0 + box.x1) / 2;
+  const cy = (box.y0 + box.y1) / 2;
+  const vertical = cy < 1 / 3 ? "upper" : cy > 2 / 3 ? "lower" : "middle";
+  const horizontal = cx < 1 / 3 ? "left" : cx > 2 / 3 ? "right" : "center";
+  if (vertical === "middle" && horizontal === "center") return "center";
+  return `${vertical}-${horizontal}`;
+}
+
+const SHAPE_NAMES: Record<AnnotationInstruction["shape"], string> = {
+  pen: "scribble",
+  line: "line",
+  arrow: "arrow",
+  rectangle: "rectangle",
+  circle: "circle",
+  text: "text label",
+};
+
+const formatFraction = (value: number) => value.toFixed(2);
+
+/**
+ * Append region-referenced instructions to the user's prompt, e.g.
+ * "In the upper-left region (x 0.10–0.30, y 0.05–0.20), marked with a red
+ * rectangle: replace with pendant lamp".
+ */
+export function compileAnnotationPrompt(prompt: string, instructions: AnnotationInstruction[]): string {
+  const basePrompt = prompt.trim() || `${DEFAULT_ANNOTATION_PROMPT}.`;
+  if (instructions.length === 0) return basePrompt;
+
+  const lines = instructions.map((instruction, index) => {
+    const { box } = instruction;
+    const where = box.x0 === box.x1 && box.y0 === box.y1
+      ? `Near the ${describeRegion(box)} (x ${formatFraction(box.x0)}, y ${formatFraction(box.y0)})`
+      : `In the ${describeRegion(box)} region (x ${formatFraction(box.x0)}–${formatFraction(box.x1)}, y ${formatFraction(box.y0)}–${formatFraction(box.y1)})`;
+    const color = describeColor(instruction.color);
+    const marker = instruction.shape === "text"
+      ? ""
+      : `, marked with a ${color ? `${color} ` : ""}${SHAPE_NAMES[instruction.shape]}`;
+    const action = instruction.label || "apply the requested change here";
+    return `${index + 1}. ${where}${marker}: ${action}`;
+  });
+
+  return [
+    basePrompt,
+    "",
+    "Annotated edits (coordinates are fractions of the image width and height, measured from the top-left corner):",
+    ...lines,
+    "",
+    "The colored marks and text labels on the input image are instructions only - do not draw them in the result. Keep everything outside the marked regions unchanged.",
+  ].join("\n");
+}
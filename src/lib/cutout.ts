@@ -0,0 +1,38 @@
+/**
+ * Subject cutouts
+ *
+ * Client helper for /api/cutout. The route gets an alpha matte from a
+ * background-removal model (or a mock matte offline), applies it to the
+ * original with sharp and saves a transparent PNG as a child generation.
+ */
+
+import type { GeneratedImage } from "./database.types";
+
+export type CutoutMethod = "birefnet" | "mock";
+
+export type CutoutResult = {
+  image: GeneratedImage;
+  method: CutoutMethod;
+};
+
+/**
+ * Cut the subject out of a generated image (by row id, or by URL for images
+ * without a row) and return the new transparent generated_images row
+ */
+export async function requestCutout(source: {
+  imageId?: string;
+  imageUrl?: string;
+  projectId?: string | null;
+}): Promise<CutoutResult> {
+  const response = await fetch("/api/cutout", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(source),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to cut out image");
+  }
+  return data;
+}
@@ -46,6 +46,15 @@ export interface Database {
           safety_filter: string;
           input_image_urls: string[];
           model: string | null;
+          parent_image_ids: string[];
+          storage_path: string | null;
+          thumbnail_url: string | null;
+          preview_url: string | null;
+          seed: number | null;
+          provider_request: Json | null;
+          comparison_group_id: string | null;
+          latency_ms: number | null;
+          is_comparison_winner: boolean;
         };
         Insert: {
           id?: string;
@@ -59,6 +68,15 @@ export interface Database {
           safety_filter: string;
           input_image_urls?: string[];
           model?: string | null;
+          parent_image_ids?: string[];
+          storage_path?: string | null;
+          thumbnail_url?: string | null;
+          preview_url?: string | null;
+          seed?: number | null;
+          provider_request?: Json | null;
+          comparison_group_id?: string | null;
+          latency_ms?: number | null;
+          is_comparison_winner?: boolean;
         };
         Update: {
           id?: string;
@@ -72,6 +90,15 @@ export interface Database {
           safety_filter?: string;
           input_image_urls?: string[];
           model?: string | null;
+          parent_image_ids?: string[];
+          storage_path?: string | null;
+          thumbnail_url?: string | null;
+          preview_url?: string | null;
+          seed?: number | null;
+          provider_request?: Json | null;
+          comparison_group_id?: string | null;
+          latency_ms?: number | null;
+          is_comparison_winner?: boolean;
         };
         Relationships: [
           {
@@ -193,6 +220,7 @@ export interface Database {
           duration: string;
           resolution: string;
           status: "pending" | "generating" | "completed" | "failed";
+          thumbnail_url: string | null;
         };
         Insert: {
           id?: string;
@@ -206,6 +234,7 @@ export interface Database {
           duration: string;
           resolution: string;
           status: "pending" | "generating" | "completed" | "failed";
+          thumbnail_url?: string | null;
         };
         Update: {
           id?: string;
@@ -219,6 +248,7 @@ export interface Database {
           duration?: string;
           resolution?: string;
           status?: "pending" | "generating" | "completed" | "failed";
+          thumbnail_url?: string | null;
         };
         Relationships: [
           {
@@ -279,6 +309,10 @@ export interface Database {
           reference_image_urls: string[];
           before_image_url: string | null;
           rendered_image_url: string | null;
+          version_number: number;
+          label: string | null;
+          source: "generate" | "render" | "manual" | "restore" | null;
+          restored_from_id: string | null;
         };
         Insert: {
           id?: string;
@@ -290,6 +324,10 @@ export interface Database {
           reference_image_urls?: string[];
           before_image_url?: string | null;
           rendered_image_url?: string | null;
+          version_number?: number;
+          label?: string | null;
+          source?: "generate" | "render" | "manual" | "restore" | null;
+          restored_from_id?: string | null;
         };
         Update: {
           id?: string;
@@ -301,6 +339,10 @@ export interface Database {
           reference_image_urls?: string[];
           before_image_url?: string | null;
           rendered_image_url?: string | null;
+          version_number?: number;
+          label?: string | null;
+          source?: "generate" | "render" | "manual" | "restore" | null;
+          restored_from_id?: string | null;
         };
         Relationships: [
           {
@@ -309,9 +351,239 @@ export interface Database {
             isOneToOne: false;
             referencedRelation: "rooms";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "room_designs_restored_from_id_fkey";
+            columns: ["restored_from_id"];
+            isOneToOne: false;
+            referencedRelation: "room_designs";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      generation_jobs: {
+        Row: {
+          id: string;
+          created_at: string;
+          updated_at: string;
+          project_id: string | null;
+          status: "queued" | "running" | "completed" | "failed" | "cancelled";
+          model: string;
+          prompt: string;
+          request: Json;
+          result: Json | null;
+          error: string | null;
+          generated_image_ids: string[];
+          started_at: string | null;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+          project_id?: string | null;
+          status?: "queued" | "running" | "completed" | "failed" | "cancelled";
+          model: string;
+          prompt: string;
+          request?: Json;
+          result?: Json | null;
+          error?: string | null;
+          generated_image_ids?: string[];
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+          project_id?: string | null;
+          status?: "queued" | "running" | "completed" | "failed" | "cancelled";
+          model?: string;
+          prompt?: string;
+          request?: Json;
+          result?: Json | null;
+          error?: string | null;
+          generated_image_ids?: string[];
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_project_id_fkey";
+            columns: ["project_id"];
+            isOneToOne: false;
+            referencedRelation: "projects";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      annotations: {
+        Row: {
+          id: string;
+          created_at: string;
+          project_id: string | null;
+          source_image_url: string | null;
+          source_image_id: string | null;
+          annotated_image_url: string;
+          format_version: number;
+          data: Json;
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          project_id?: string | null;
+          source_image_url?: string | null;
+          source_image_id?: string | null;
+          annotated_image_url: string;
+          format_version?: number;
+          data: Json;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          project_id?: string | null;
+          source_image_url?: string | null;
+          source_image_id?: string | null;
+          annotated_image_url?: string;
+          format_version?: number;
+          data?: Json;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "annotations_project_id_fkey";
+            columns: ["project_id"];
+            isOneToOne: false;
+            referencedRelation: "projects";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "annotations_source_image_id_fkey";
+            columns: ["source_image_id"];
+            isOneToOne: false;
+            referencedRelation: "generated_images";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      usage_events: {
+        Row: {
+          id: string;
+          created_at: string;
+          project_id: string | null;
+          route: string;
+          provider: string;
+          model: string;
+          resolution: string | null;
+          image_count: number;
+          video_seconds: number | null;
+          duration_ms: number | null;
+          input_tokens: number | null;
+          output_tokens: number | null;
+          estimated_cost_usd: number;
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          project_id?: string | null;
+          route: string;
+          provider: string;
+          model: string;
+          resolution?: string | null;
+          image_count?: number;
+          video_seconds?: number | null;
+          duration_ms?: number | null;
+          input_tokens?: number | null;
+          output_tokens?: number | null;
+          estimated_cost_usd?: number;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          project_id?: string | null;
+          route?: string;
+          provider?: string;
+          model?: string;
+          resolution?: string | null;
+          image_count?: number;
+          video_seconds?: number | null;
+          duration_ms?: number | null;
+          input_tokens?: number | null;
+          output_tokens?: number | null;
+          estimated_cost_usd?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_project_id_fkey";
+            columns: ["project_id"];
+            isOneToOne: false;
+            referencedRelation: "projects";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      design_messages: {
+        Row: {
+          id: string;
+          created_at: string;
+          room_id: string;
+          role: "user" | "assistant";
+          content: string;
+          patch: Json | null;
+          design_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          room_id: string;
+          role: "user" | "assistant";
+          content: string;
+          patch?: Json | null;
+          design_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          room_id?: string;
+          role?: "user" | "assistant";
+          content?: string;
+          patch?: Json | null;
+          design_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "design_messages_room_id_fkey";
+            columns: ["room_id"];
+            isOneToOne: false;
+            referencedRelation: "rooms";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "design_messages_design_id_fkey";
+            columns: ["design_id"];
+            isOneToOne: false;
+            referencedRelation: "room_designs";
+            referencedColumns: ["id"];
           }
         ];
       };
+      normalized_inputs: {
+        Row: {
+          source_key: string;
+          created_at: string;
+          input_path: string;
+        };
+        Insert: {
+          source_key: string;
+          created_at?: string;
+          input_path: string;
+        };
+        Update: {
+          source_key?: string;
+          created_at?: string;
+          input_path?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: {
       [_ in never]: never;
@@ -321,6 +593,25 @@ export interface Database {
         Args: { prompt_id: string };
         Returns: undefined;
       };
+      get_usage_summary: {
+        Args: { since: string; time_zone?: string };
+        Returns: {
+          day: string;
+          project_id: string | null;
+          provider: string;
+          model: string;
+          events: number;
+          images: number;
+          video_seconds: number;
+          input_tokens: number;
+          output_tokens: number;
+          estimated_cost_usd: number;
+        }[];
+      };
+      set_comparison_winner: {
+        Args: { group_id: string; image_id: string };
+        Returns: undefined;
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -344,3 +635,12 @@ export type PromptTemplate = Database["public"]["Tables"]["prompt_templates"]["R
 export type VideoFlow = Database["public"]["Tables"]["video_flows"]["Row"];
 export type Room = Database["public"]["Tables"]["rooms"]["Row"];
 export type RoomDesign = Database["public"]["Tables"]["room_designs"]["Row"];
+export type RoomDesignSource = NonNullable<RoomDesign["source"]>;
+export type GenerationJob = Database["public"]["Tables"]["generation_jobs"]["Row"];
+export type GenerationJobStatus = GenerationJob["status"];
+export type Annotation = Database["public"]["Tables"]["annotations"]["Row"];
+export type UsageEvent = Database["public"]["Tables"]["usage_events"]["Row"];
+// One day/project/model group of usage_events
+export type UsageSummaryRow = Database["public"]["Functions"]["get_usage_summary"]["Returns"][number];
+export type DesignMessage = Database["public"]["Tables"]["design_messages"]["Row"];
+export type DesignMessageRole = DesignMessage["role"];
@@ -0,0 +1,166 @@
+/**
+ * Design diff
+ *
+ * Structural comparison of two DesignJSON documents. Items are matched by id
+ * first, then by label (case-insensitive) since regenerated designs often
+ * mint new ids for the same piece. Material, color and tag lists are
+ * compared as case-insensitive sets.
+ */
+
+import {
+  DESIGN_CATEGORIES,
+  getDesignCategory,
+  normalizeDesignJSON,
+  type DesignItem,
+  type DesignSection,
+} from "./design-json";
+
+export type ListChange = {
+  added: string[];
+  removed: string[];
+};
+
+export type TextChange = {
+  before: string;
+  after: string;
+};
+
+export type DesignItemChange = {
+  id: string;
+  label: string;
+  // Set when the matched item was renamed
+  previousLabel?: string;
+  materials: ListChange;
+  colors: ListChange;
+};
+
+export type CategoryDiff = {
+  section: DesignSection;
+  category: string;
+  added: DesignItem[];
+  removed: DesignItem[];
+  changed: DesignItemChange[];
+  materialsOverall: ListChange;
+};
+
+export type DesignDiff = {
+  meta: {
+    title: TextChange | null;
+    summary: TextChange | null;
+    styleTags: ListChange;
+  };
+  // Only categories with at least one change, in display order
+  categories: CategoryDiff[];
+  counts: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+  isEmpty: boolean;
+};
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export function diffLists(before: string[], after: string[]): ListChange {
+  const beforeKeys = new Set(before.map(normalizeKey));
+  const afterKeys = new Set(after.map(normalizeKey));
+  return {
+    added: after.filter((value) => !beforeKeys.has(normalizeKey(value))),
+    removed: before.filter((value) => !afterKeys.has(normalizeKey(value))),
+  };
+}
+
+function hasListChange(change: ListChange): boolean {
+  return change.added.length > 0 || change.removed.length > 0;
+}
+
+function diffText(before: string, after: string): TextChange | null {
+  return before.trim() === after.trim() ? null : { before, after };
+}
+
+// Pair items across versions: by id, then by label among the leftovers
+function matchItems(before: DesignItem[], after: DesignItem[]) {
+  const pairs: [DesignItem, DesignItem][] = [];
+  const unmatchedBefore = new Set(before);
+  const unmatchedAfter = new Set(after);
+
+  const afterById = new Map(after.filter((item) => item.id).map((item) => [item.id, item]));
+  for (const item of before) {
+    const match = item.id ? afterById.get(item.id) : undefined;
+    if (match && unmatchedAfter.has(match)) {
+      pairs.push([item, match]);
+      unmatchedBefore.delete(item);
+      unmatchedAfter.delete(match);
+    }
+  }
+
+  for (const item of unmatchedBefore) {
+    const label = normalizeKey(item.label);
+    if (!label) continue;
+    const match = [...unmatchedAfter].find((candidate) => normalizeKey(candidate.label) === label);
+    if (match) {
+      pairs.push([item, match]);
+      unmatchedBefore.delete(item);
+      unmatchedAfter.delete(match);
+    }
+  }
+
+  return { pairs, removed: [...unmatchedBefore], added: [...unmatchedAfter] };
+}
+
+function diffItem(before: DesignItem, after: DesignItem): DesignItemChange | null {
+  const materials = diffLists(before.materials, after.materials);
+  const colors = diffLists(before.colors, after.colors);
+  const renamed = normalizeKey(before.label) !== normalizeKey(after.label);
+  if (!renamed && !hasListChange(materials) && !hasListChange(colors)) return null;
+
+  return {
+    id: after.id || before.id,
+    label: after.label,
+    previousLabel: renamed ? before.label : undefined,
+    materials,
+    colors,
+  };
+}
+
+// Diff two design_json values; missing categories count as empty
+export function diffDesigns(beforeValue: unknown, afterValue: unknown): DesignDiff {
+  const before = normalizeDesignJSON(beforeValue);
+  const after = normalizeDesignJSON(afterValue);
+
+  const categories: CategoryDiff[] = [];
+  for (const { section, name } of DESIGN_CATEGORIES) {
+    const beforeCategory = getDesignCategory(before, section, name)!;
+    const afterCategory = getDesignCategory(after, section, name)!;
+    const { pairs, added, removed } = matchItems(beforeCategory.items, afterCategory.items);
+    const changed = pairs
+      .map(([beforeItem, afterItem]) => diffItem(beforeItem, afterItem))
+      .filter((change): change is DesignItemChange => change !== null);
+    const materialsOverall = diffLists(beforeCategory.materials_overall, afterCategory.materials_overall);
+
+    if (added.length || removed.length || changed.length || hasListChange(materialsOverall)) {
+      categories.push({ section, category: name, added, removed, changed, materialsOverall });
+    }
+  }
+
+  const meta = {
+    title: diffText(before.meta.title, after.meta.title),
+    summary: diffText(before.meta.summary, after.meta.summary),
+    styleTags: diffLists(before.meta.style_tags, after.meta.style_tags),
+  };
+
+  const counts = {
+    added: categories.reduce((sum, category) => sum + category.added.length, 0),
+    removed: categories.reduce((sum, category) => sum + category.removed.length, 0),
+    changed: categories.reduce((sum, category) => sum + category.changed.length, 0),
+  };
+
+  return {
+    meta,
+    categories,
+    counts,
+    isEmpty: categories.length === 0 && !meta.title && !meta.summary && !hasListChange(meta.styleTags),
+  };
+}
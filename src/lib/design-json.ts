@@ -0,0 +1,250 @@
+/**
+ * DesignJSON
+ *
+ * The structured room concept produced by /api/designer and stored on
+ * room_designs.design_json: a meta block plus fixed shell and interior
+ * categories, each holding overall materials and a list of items.
+ */
+
+export interface DesignItem {
+  id: string;
+  label: string;
+  materials: string[];
+  colors: string[];
+  // Approved by the client; kept as-is through regeneration
+  locked?: boolean;
+}
+
+export interface DesignCategory {
+  materials_overall: string[];
+  items: DesignItem[];
+  // The whole category is kept as-is through regeneration
+  locked?: boolean;
+}
+
+export interface DesignMeta {
+  title: string;
+  style_tags: string[];
+  summary: string;
+}
+
+export const SHELL_CATEGORIES = [
+  "ceiling",
+  "walls",
+  "floor",
+  "windows_and_trims",
+  "doors_and_trims",
+  "built_ins",
+] as const;
+
+export const INTERIOR_CATEGORIES = [
+  "layout_and_zoning",
+  "furniture",
+  "lighting",
+  "textiles",
+  "decor_and_art",
+] as const;
+
+export type ShellCategory = (typeof SHELL_CATEGORIES)[number];
+export type InteriorCategory = (typeof INTERIOR_CATEGORIES)[number];
+export type DesignSection = "shell" | "interior";
+
+export interface DesignJSON {
+  meta: DesignMeta;
+  shell: Record<ShellCategory, DesignCategory>;
+  interior: Record<InteriorCategory, DesignCategory>;
+}
+
+// Every category in display order, e.g. { section: "interior", name: "lighting" }
+export const DESIGN_CATEGORIES: { section: DesignSection; name: ShellCategory | InteriorCategory }[] = [
+  ...SHELL_CATEGORIES.map((name) => ({ section: "shell" as const, name })),
+  ...INTERIOR_CATEGORIES.map((name) => ({ section: "interior" as const, name })),
+];
+
+export const emptyDesignJSON: DesignJSON = {
+  meta: { title: "", style_tags: [], summary: "" },
+  shell: {
+    ceiling: { materials_overall: [], items: [] },
+    walls: { materials_overall: [], items: [] },
+    floor: { materials_overall: [], items: [] },
+    windows_and_trims: { materials_overall: [], items: [] },
+    doors_and_trims: { materials_overall: [], items: [] },
+    built_ins: { materials_overall: [], items: [] },
+  },
+  interior: {
+    layout_and_zoning: { materials_overall: [], items: [] },
+    furniture: { materials_overall: [], items: [] },
+    lighting: { materials_overall: [], items: [] },
+    textiles: { materials_overall: [], items: [] },
+    decor_and_art: { materials_overall: [], items: [] },
+  },
+};
+
+// Look up a category by section and name
+export function getDesignCategory(
+  design: DesignJSON,
+  section: DesignSection,
+  name: string
+): DesignCategory | undefined {
+  return (design[section] as Record<string, DesignCategory | undefined>)[name];
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+}
+
+function normalizeCategory(value: unknown): DesignCategory {
+  const category = (value || {}) as { materials_overall?: unknown; items?: unknown; locked?: unknown };
+  const items = Array.isArray(category.items) ? category.items : [];
+  return {
+    materials_overall: toStringList(category.materials_overall),
+    items: items
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+      .map((item) => ({
+        id: typeof item.id === "string" ? item.id : "",
+        label: typeof item.label === "string" ? item.label : "",
+        materials: toStringList(item.materials),
+        colors: toStringList(item.colors),
+        ...(item.locked === true && { locked: true }),
+      })),
+    ...(category.locked === true && { locked: true }),
+  };
+}
+
+/**
+ * Fill in anything a stored or model-produced design is missing (older rows
+ * and "minimal" answers can leave out whole categories), so callers can
+ * walk every category safely.
+ */
+export function normalizeDesignJSON(value: unknown): DesignJSON {
+  const design = (value || {}) as { meta?: Record<string, unknown>; shell?: Record<string, unknown>; interior?: Record<string, unknown> };
+  const meta = design.meta || {};
+  return {
+    meta: {
+      title: typeof meta.title === "string" ? meta.title : "",
+      style_tags: toStringList(meta.style_tags),
+      summary: typeof meta.summary === "string" ? meta.summary : "",
+    },
+    shell: Object.fromEntries(
+      SHELL_CATEGORIES.map((name) => [name, normalizeCategory(design.shell?.[name])])
+    ) as DesignJSON["shell"],
+    interior: Object.fromEntries(
+      INTERIOR_CATEGORIES.map((name) => [name, normalizeCategory(design.interior?.[name])])
+    ) as DesignJSON["interior"],
+  };
+}
+
+export type DesignCategoryRef = {
+  section: DesignSection;
+  name: ShellCategory | InteriorCategory;
+};
+
+// "interior.lighting" -> { section: "interior", name: "lighting" }, or null if unknown
+export function parseDesignCategoryPath(value: unknown): DesignCategoryRef | null {
+  if (typeof value !== "string") return null;
+  const [section, name, ...rest] = value.split(".");
+  if (rest.length > 0) return null;
+  return DESIGN_CATEGORIES.find((category) => category.section === section && category.name === name) || null;
+}
+
+export function getDesignCategoryPath({ section, name }: DesignCategoryRef): string {
+  return `${section}.${name}`;
+}
+
+// Has the top-level shape of a design; the contents are not checked
+export function isDesignJSON(value: unknown): value is DesignJSON {
+  const design = value as Record<string, unknown> | null;
+  return (
+    !!design &&
+    typeof design === "object" &&
+    [design.meta, design.shell, design.interior].every((part) => !!part && typeof part === "object" && !Array.isArray(part))
+  );
+}
+
+/**
+ * Copy the target categories from a generated design into the current one.
+ * Everything else is the current design's own values, so it serializes
+ * exactly as it came in.
+ */
+export function mergeDesignCategories(
+  current: DesignJSON,
+  generated: unknown,
+  targets: DesignCategoryRef[]
+): DesignJSON {
+  const source = normalizeDesignJSON(generated);
+  let merged = current;
+  for (const { section, name } of targets) {
+    merged = {
+      ...merged,
+      [section]: {
+        ...merged[section],
+        [name]: getDesignCategory(source, section, name),
+      },
+    };
+  }
+  return merged;
+}
+
+export type LockedDesignEntries = {
+  categories: (DesignCategoryRef & { category: DesignCategory })[];
+  items: (DesignCategoryRef & { item: DesignItem })[];
+};
+
+// Locked categories, and locked items inside unlocked categories
+export function getLockedEntries(design: DesignJSON): LockedDesignEntries {
+  const locked: LockedDesignEntries = { categories: [], items: [] };
+  for (const ref of DESIGN_CATEGORIES) {
+    const category = getDesignCategory(design, ref.section, ref.name);
+    if (!category) continue;
+    if (category.locked) {
+      locked.categories.push({ ...ref, category });
+      continue;
+    }
+    const items = Array.isArray(category.items) ? category.items : [];
+    for (const item of items) {
+      if (item?.locked) locked.items.push({ ...ref, item });
+    }
+  }
+  return locked;
+}
+
+export function hasLockedEntries(locked: LockedDesignEntries): boolean {
+  return locked.categories.length > 0 || locked.items.length > 0;
+}
+
+/**
+ * Put the current design's locked entries back into a generated design.
+ * Locked categories are copied whole; a locked item replaces the generated
+ * item with the same id (or label), or is appended if the model dropped it.
+ */
+export function applyDesignLocks(current: DesignJSON, generated: DesignJSON): DesignJSON {
+  const locked = getLockedEntries(current);
+  let merged = generated;
+
+  for (const { section, name, category } of locked.categories) {
+    merged = { ...merged, [section]: { ...merged[section], [name]: category } };
+  }
+
+  for (const { section, name, item } of locked.items) {
+    const category = getDesignCategory(merged, section, name) || { materials_overall: [], items: [] };
+    const items = Array.isArray(category.items) ? category.items : [];
+    const label = item.label.trim().toLowerCase();
+    let index = items.findIndex((candidate) => item.id && candidate.id === item.id);
+    if (index === -1 && label) {
+      // Skip locked items already put back, in case two share a label
+      index = items.findIndex((candidate) => !candidate.locked && candidate.label?.trim().toLowerCase() === label);
+    }
+    const nextItems = index === -1 ? [...items, item] : items.map((candidate, i) => (i === index ? item : candidate));
+    merged = { ...merged, [section]: { ...merged[section], [name]: { ...category, items: nextItems } } };
+  }
+
+  return merged;
+}
+
+// "windows_and_trims" -> "Windows And Trims"
+export function formatCategoryName(name: string): string {
+  return name
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
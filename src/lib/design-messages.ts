@@ -0,0 +1,73 @@
+/**
+ * Design chat
+ *
+ * Each room keeps a conversation with the designer assistant in
+ * design_messages. A turn sends the thread and the current design to
+ * /api/designer and gets back a reply plus a patch; the patch is applied
+ * client-side and saved as a new design version that the assistant
+ * message points at. Client helpers for /api/rooms/[id]/messages.
+ */
+
+import type { DesignMessage, DesignMessageRole, Json } from "./database.types";
+import type { DesignJSON } from "./design-json";
+import type { DesignPatch } from "./design-patch";
+
+export const DESIGN_MESSAGE_ROLES: readonly DesignMessageRole[] = ["user", "assistant"];
+
+export function isDesignMessageRole(value: unknown): value is DesignMessageRole {
+  return DESIGN_MESSAGE_ROLES.includes(value as DesignMessageRole);
+}
+
+export type NewDesignMessage = {
+  role: DesignMessageRole;
+  content: string;
+  patch?: Json | null;
+  design_id?: string | null;
+};
+
+export type DesignChatReply = {
+  reply: string;
+  patch: DesignPatch;
+};
+
+// The room's thread, oldest first
+export async function getDesignMessages(roomId: string): Promise<DesignMessage[]> {
+  const response = await fetch(`/api/rooms/${roomId}/messages`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to load design chat");
+  }
+  return data;
+}
+
+export async function saveDesignMessages(roomId: string, messages: NewDesignMessage[]): Promise<DesignMessage[]> {
+  const response = await fetch(`/api/rooms/${roomId}/messages`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ messages }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to save design chat");
+  }
+  return data;
+}
+
+// Ask the designer assistant to answer the last message of the thread
+export async function sendDesignChat(input: {
+  messages: { role: DesignMessageRole; content: string }[];
+  currentDesign: DesignJSON;
+  roomName?: string;
+  projectId?: string;
+}): Promise<DesignChatReply> {
+  const response = await fetch("/api/designer", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to get a design reply");
+  }
+  return { reply: data.reply, patch: data.patch };
+}
@@ -0,0 +1,158 @@
+/**
+ * Design patches
+ *
+ * The small change set a designer chat turn returns instead of a whole
+ * DesignJSON: meta edits, items to add or replace (matched by id), items to
+ * remove and replacement overall materials, each addressed by a category
+ * path like "interior.textiles". Shared by /api/designer and the designer
+ * page so both apply a patch the same way.
+ */
+
+import {
+  getDesignCategory,
+  parseDesignCategoryPath,
+  type DesignCategory,
+  type DesignCategoryRef,
+  type DesignItem,
+  type DesignJSON,
+  type DesignMeta,
+} from "./design-json";
+
+export interface DesignPatch {
+  meta?: Partial<DesignMeta>;
+  upsert_items?: { category: string; item: DesignItem }[];
+  remove_items?: { category: string; id: string }[];
+  category_materials?: { category: string; materials_overall: string[] }[];
+}
+
+function toStringList(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : null;
+}
+
+function toEntries(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === "object")
+    : [];
+}
+
+// Keep only well-formed changes to known categories; nulls mean "no change"
+export function parseDesignPatch(value: unknown): DesignPatch {
+  const raw = (value || {}) as Record<string, unknown>;
+  const patch: DesignPatch = {};
+
+  const meta = (raw.meta || {}) as Record<string, unknown>;
+  const metaPatch: Partial<DesignMeta> = {};
+  if (typeof meta.title === "string") metaPatch.title = meta.title;
+  if (typeof meta.summary === "string") metaPatch.summary = meta.summary;
+  const styleTags = toStringList(meta.style_tags);
+  if (styleTags) metaPatch.style_tags = styleTags;
+  if (Object.keys(metaPatch).length > 0) patch.meta = metaPatch;
+
+  const upserts = toEntries(raw.upsert_items).flatMap((entry) => {
+    const item = (entry.item || {}) as Record<string, unknown>;
+    if (!parseDesignCategoryPath(entry.category) || typeof item.id !== "string" || !item.id) return [];
+    return [{
+      category: entry.category as string,
+      item: {
+        id: item.id,
+        label: typeof item.label === "string" ? item.label : "",
+        materials: toStringList(item.materials) || [],
+        colors: toStringList(item.colors) || [],
+      },
+    }];
+  });
+  if (upserts.length > 0) patch.upsert_items = upserts;
+
+  const removals = toEntries(raw.remove_items).flatMap((entry) =>
+    parseDesignCategoryPath(entry.category) && typeof entry.id === "string"
+      ? [{ category: entry.category as string, id: entry.id }]
+      : []
+  );
+  if (removals.length > 0) patch.remove_items = removals;
+
+  const materials = toEntries(raw.category_materials).flatMap((entry) => {
+    const materialsOverall = toStringList(entry.materials_overall);
+    return parseDesignCategoryPath(entry.category) && materialsOverall
+      ? [{ category: entry.category as string, materials_overall: materialsOverall }]
+      : [];
+  });
+  if (materials.length > 0) patch.category_materials = materials;
+
+  return patch;
+}
+
+export function countDesignPatchChanges(patch: DesignPatch): number {
+  return (
+    Object.keys(patch.meta || {}).length +
+    (patch.upsert_items?.length || 0) +
+    (patch.remove_items?.length || 0) +
+    (patch.category_materials?.length || 0)
+  );
+}
+
+function updateCategory(
+  design: DesignJSON,
+  { section, name }: DesignCategoryRef,
+  update: (category: DesignCategory) => DesignCategory
+): DesignJSON {
+  const category = getDesignCategory(design, section, name) || { materials_overall: [], items: [] };
+  return { ...design, [section]: { ...design[section], [name]: update(category) } };
+}
+
+// Apply a patch; categories it doesn't touch keep their objects
+export function applyDesignPatch(design: DesignJSON, patch: DesignPatch): DesignJSON {
+  let next = patch.meta ? { ...design, meta: { ...design.meta, ...patch.meta } } : design;
+
+  for (const { category, materials_overall } of patch.category_materials || []) {
+    const ref = parseDesignCategoryPath(category);
+    if (ref) next = updateCategory(next, ref, (current) => ({ ...current, materials_overall }));
+  }
+
+  for (const { category, id } of patch.remove_items || []) {
+    const ref = parseDesignCategoryPath(category);
+    if (ref) {
+      next = updateCategory(next, ref, (current) => ({
+        ...current,
+        items: current.items.filter((item) => item.id !== id),
+      }));
+    }
+  }
+
+  for (const { category, item } of patch.upsert_items || []) {
+    const ref = parseDesignCategoryPath(category);
+    if (ref) {
+      next = updateCategory(next, ref, (current) => ({
+        ...current,
+        items: current.items.some((existing) => existing.id === item.id)
+          ? current.items.map((existing) => (existing.id === item.id ? item : existing))
+          : [...current.items, item],
+      }));
+    }
+  }
+
+  return next;
+}
+
+// Drop changes that would touch a locked category or item of the design
+export function withoutLockedChanges(design: DesignJSON, patch: DesignPatch): DesignPatch {
+  const isLocked = (path: string, itemId?: string) => {
+    const ref = parseDesignCategoryPath(path);
+    const category = ref && getDesignCategory(design, ref.section, ref.name);
+    if (!category) return false;
+    if (category.locked) return true;
+    const items = Array.isArray(category.items) ? category.items : [];
+    return !!itemId && items.some((item) => item.id === itemId && item.locked);
+  };
+
+  const filtered: DesignPatch = { ...patch };
+  if (patch.upsert_items) {
+    filtered.upsert_items = patch.upsert_items.filter(({ category, item }) => !isLocked(category, item.id));
+  }
+  if (patch.remove_items) {
+    filtered.remove_items = patch.remove_items.filter(({ category, id }) => !isLocked(category, id));
+  }
+  if (patch.category_materials) {
+    filtered.category_materials = patch.category_materials.filter(({ category }) => !isLocked(category));
+  }
+  return filtered;
+}
@@ -0,0 +1,88 @@
+/**
+ * Room design versions
+ *
+ * Every generate, render and manual save in the designer adds an immutable
+ * room_designs row, numbered per room. Restoring an old version copies it
+ * into a new one, so the timeline only ever grows. Client helpers for
+ * /api/rooms/[id]/designs.
+ */
+
+import type { Json, RoomDesign, RoomDesignSource } from "./database.types";
+
+export const ROOM_DESIGN_SOURCES: readonly RoomDesignSource[] = ["generate", "render", "manual", "restore"];
+
+export const MAX_VERSION_LABEL_LENGTH = 80;
+
+export function isRoomDesignSource(value: unknown): value is RoomDesignSource {
+  return ROOM_DESIGN_SOURCES.includes(value as RoomDesignSource);
+}
+
+// Trimmed label, or null when empty
+export function normalizeVersionLabel(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const label = value.trim().slice(0, MAX_VERSION_LABEL_LENGTH);
+  return label || null;
+}
+
+// Title from the design JSON, for versions without a label
+export function getVersionTitle(version: RoomDesign): string {
+  const meta = (version.design_json as { meta?: { title?: unknown } } | null)?.meta;
+  return typeof meta?.title === "string" && meta.title ? meta.title : "Untitled design";
+}
+
+export type NewDesignVersion = {
+  design_json: Json;
+  source: RoomDesignSource;
+  prompt?: string | null;
+  label?: string | null;
+  reference_image_urls?: string[];
+  before_image_url?: string | null;
+  rendered_image_url?: string | null;
+};
+
+async function readVersionResponse(response: Response, fallbackError: string): Promise<RoomDesign> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+// All versions of a room, newest first
+export async function getDesignVersions(roomId: string): Promise<RoomDesign[]> {
+  const response = await fetch(`/api/rooms/${roomId}/designs`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to load design versions");
+  }
+  return data;
+}
+
+export async function saveDesignVersion(roomId: string, version: NewDesignVersion): Promise<RoomDesign> {
+  const response = await fetch(`/api/rooms/${roomId}/designs`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(version),
+  });
+  return readVersionResponse(response, "Failed to save design version");
+}
+
+// Copy an earlier version into a new latest version
+export async function restoreDesignVersion(roomId: string, designId: string, label?: string): Promise<RoomDesign> {
+  const response = await fetch(`/api/rooms/${roomId}/designs`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ restore_from: designId, label }),
+  });
+  return readVersionResponse(response, "Failed to restore design version");
+}
+
+// Labels are the only part of a version that can change
+export async function labelDesignVersion(roomId: string, designId: string, label: string | null): Promise<RoomDesign> {
+  const response = await fetch(`/api/rooms/${roomId}/designs/${designId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ label }),
+  });
+  return readVersionResponse(response, "Failed to update version label");
+}
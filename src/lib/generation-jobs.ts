@@ -0,0 +1,152 @@
+/**
+ * Generation job client
+ *
+ * POST /api/generate queues a job and returns its id straight away; the
+ * server finishes the provider call, upload and database insert on its own.
+ * These helpers submit jobs and poll /api/jobs until they settle.
+ */
+
+import type { GenerationJob, GenerationJobStatus } from "./database.types";
+import type { ProviderRequest } from "./image-models";
+
+export type GenerationJobImage = {
+  // generated_images row id (only when the job was saved to a project)
+  id?: string;
+  url: string;
+  // 256px / 768px WebP derivatives (absent when storage isn't configured)
+  thumbnailUrl?: string;
+  previewUrl?: string;
+  sourceUrl: string;
+  seed?: number;
+  description?: string;
+};
+
+// Stored on generation_jobs.result when a job completes
+export type GenerationJobResult = {
+  imageUrl: string;
+  images: GenerationJobImage[];
+  prompt: string;
+  settings: {
+    aspectRatio: string;
+    resolution: string;
+    outputFormat: string;
+    imageSize: string;
+  };
+  sourceUrl: string;
+  inputImageUrls: string[];
+  // Edit-region mask applied to the first input (masked edits only)
+  maskUrl?: string;
+  model: string;
+  seed?: number;
+  // Exact provider call, also saved on each generated_images row for re-runs
+  providerRequest?: ProviderRequest;
+  // Generated images used as inputs (set when saved to a project)
+  parentImageIds?: string[];
+  // Provider call plus upload time
+  latencyMs?: number;
+};
+
+export const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ["queued", "running"];
+
+const POLL_INTERVAL_MS = 2000;
+
+export function isJobActive(job: Pick<GenerationJob, "status">): boolean {
+  return ACTIVE_JOB_STATUSES.includes(job.status);
+}
+
+export async function submitGenerationJob(
+  body: Record<string, unknown>
+): Promise<{ jobId: string; status: GenerationJobStatus }> {
+  const response = await fetch("/api/generate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to start generation");
+  }
+  return data;
+}
+
+export async function fetchGenerationJob(jobId: string): Promise<GenerationJob> {
+  const response = await fetch(`/api/jobs/${jobId}`, { cache: "no-store" });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to check generation status");
+  }
+  return data;
+}
+
+export async function fetchGenerationJobs(
+  projectId: string,
+  options: { statuses?: GenerationJobStatus[]; since?: string } = {}
+): Promise<GenerationJob[]> {
+  const params = new URLSearchParams({ project_id: projectId });
+  if (options.statuses?.length) params.set("status", options.statuses.join(","));
+  if (options.since) params.set("since", options.since);
+
+  const response = await fetch(`/api/jobs?${params}`, { cache: "no-store" });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to load generation jobs");
+  }
+  return data;
+}
+
+export async function requestGenerationJobCancel(jobId: string): Promise<void> {
+  const response = await fetch(`/api/jobs/${jobId}/cancel`, { method: "POST" });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to cancel generation");
+  }
+}
+
+// Remove a finished (usually failed) job so it isn't rehydrated again
+export async function dismissGenerationJob(jobId: string): Promise<void> {
+  const response = await fetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to remove generation job");
+  }
+}
+
+/**
+ * Poll a job until it completes. Throws with the job's error message if it
+ * fails or is cancelled.
+ */
+export async function waitForGenerationJob(
+  jobId: string,
+  options: { intervalMs?: number; signal?: AbortSignal } = {}
+): Promise<GenerationJobResult> {
+  const intervalMs = options.intervalMs || POLL_INTERVAL_MS;
+
+  while (true) {
+    if (options.signal?.aborted) {
+      throw new Error("Stopped waiting for generation");
+    }
+
+    const job = await fetchGenerationJob(jobId);
+
+    if (job.status === "completed") {
+      return job.result as unknown as GenerationJobResult;
+    }
+    if (job.status === "failed") {
+      throw new Error(job.error || "Generation failed");
+    }
+    if (job.status === "cancelled") {
+      throw new Error("Generation was cancelled");
+    }
+
+    await new Promise((r) => setTimeout(r, intervalMs));
+  }
+}
+
+// Submit a job and wait for its result (for flows that block on one image)
+export async function runGenerationJob(
+  body: Record<string, unknown>
+): Promise<GenerationJobResult> {
+  const { jobId } = await submitGenerationJob(body);
+  return waitForGenerationJob(jobId);
+}
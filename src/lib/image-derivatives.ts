@@ -0,0 +1,81 @@
+/**
+ * Image derivatives
+ *
+ * Downscaled WebP copies of stored images for grids and timelines, so lists
+ * don't have to load full 2K/4K originals. Derivatives sit next to the
+ * original (`generated/abc.png` -> `generated/abc_256.webp`), which makes
+ * creating them idempotent. Server only (uses sharp).
+ */
+
+import sharp from "sharp";
+import type { ImageStorage } from "./storage";
+
+export const THUMBNAIL_WIDTH = 256;
+export const PREVIEW_WIDTH = 768;
+
+export type ImageDerivativeUrls = {
+  thumbnailUrl: string;
+  previewUrl: string;
+};
+
+export function getDerivativePath(path: string, width: number): string {
+  return `${path.replace(/\.[^./]+$/, "")}_${width}.webp`;
+}
+
+async function renderDerivative(source: Buffer, width: number): Promise<Buffer> {
+  return sharp(source)
+    .rotate()
+    .resize(width, width, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+}
+
+/**
+ * Render and store the thumbnail (256px) and preview (768px) for an image.
+ * Pass the original's bytes when you already have them to skip a download.
+ */
+export async function createImageDerivatives(
+  storage: ImageStorage,
+  path: string,
+  source?: Buffer
+): Promise<ImageDerivativeUrls> {
+  const thumbnailPath = getDerivativePath(path, THUMBNAIL_WIDTH);
+  const previewPath = getDerivativePath(path, PREVIEW_WIDTH);
+
+  const [hasThumbnail, hasPreview] = await Promise.all([
+    storage.exists(thumbnailPath),
+    storage.exists(previewPath),
+  ]);
+
+  if (!hasThumbnail || !hasPreview) {
+    const original = source || (await storage.get(path));
+    if (!original) throw new Error(`Image not found in storage: ${path}`);
+    const buffer = Buffer.from(original);
+
+    await Promise.all([
+      !hasThumbnail &&
+        storage.put(thumbnailPath, new Uint8Array(await renderDerivative(buffer, THUMBNAIL_WIDTH)), "image/webp"),
+      !hasPreview &&
+        storage.put(previewPath, new Uint8Array(await renderDerivative(buffer, PREVIEW_WIDTH)), "image/webp"),
+    ]);
+  }
+
+  return {
+    thumbnailUrl: storage.getPublicUrl(thumbnailPath),
+    previewUrl: storage.getPublicUrl(previewPath),
+  };
+}
+
+// Thumbnails are a nice-to-have - never fail the caller over them
+export async function tryCreateImageDerivatives(
+  storage: ImageStorage,
+  path: string,
+  source?: Buffer
+): Promise<ImageDerivativeUrls | undefined> {
+  try {
+    return await createImageDerivatives(storage, path, source);
+  } catch (error) {
+    console.warn("Failed to create image derivatives:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,409 @@
+/**
+ * Image model registry
+ *
+ * Every image model the app can call is declared here once: its id, display
+ * name, capabilities and the adapter that maps our request shape to the
+ * provider's input and back. The /api/generate route, the model pickers and
+ * the gallery labels are all driven by this list.
+ *
+ * This module is shared by client and server code, so adapters must stay pure
+ * (no SDK imports, no env access). Provider transports live in
+ * `image-providers.ts`.
+ */
+
+export type ImageProvider = "fal" | "replicate";
+
+export type ImageInputSupport = "required" | "optional" | "none";
+
+// Edit-region masks: white = repaint, black = keep
+export type MaskSupport = "required" | "optional";
+
+// Normalized request passed to every adapter
+export type ImageGenerationParams = {
+  prompt: string;
+  imageUrls: string[];
+  // Edit-region mask for the first image (inpainting models only)
+  maskUrl?: string;
+  aspectRatio?: string;
+  resolution?: string;
+  imageSize?: string;
+  outputFormat: string;
+  numImages: number;
+  limitGenerations?: boolean;
+  enableWebSearch?: boolean;
+  syncMode?: boolean;
+  // Fixed seed for reproducible output (models with capabilities.seed only)
+  seed?: number;
+};
+
+// A single image in a response; seed/description override the batch values
+export type GeneratedImageOutput = {
+  url: string;
+  seed?: number;
+  description?: string;
+};
+
+// Normalized response returned by every adapter
+export type ImageGenerationOutput = {
+  images: GeneratedImageOutput[];
+  description?: string;
+  seed?: number;
+};
+
+export interface ImageModelCapabilities {
+  imageInput: ImageInputSupport;
+  maxInputImages: number;
+  maxOutputs: number;
+  // Omitted when the model can't take an edit-region mask
+  mask?: MaskSupport;
+  // Whether the provider accepts a fixed seed
+  seed?: boolean;
+  aspectRatios?: readonly string[];
+  imageSizes?: readonly string[];
+  resolutions?: readonly string[];
+  outputFormats: readonly string[];
+}
+
+export interface ImageModel {
+  id: string;
+  label: string;
+  description: string;
+  provider: ImageProvider;
+  // Provider endpoint (FAL path or Replicate model ref)
+  endpoint: string;
+  // Name stored on generated_images.model
+  modelName: string;
+  capabilities: ImageModelCapabilities;
+  defaults: {
+    aspectRatio?: string;
+    imageSize?: string;
+    resolution?: string;
+  };
+  buildInput: (params: ImageGenerationParams) => Record<string, unknown>;
+  parseOutput: (output: unknown) => ImageGenerationOutput;
+}
+
+const BASE_ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"] as const;
+
+// Seedream image_size presets (must match API exactly)
+const SEEDREAM_SIZES = [
+  "auto_2K", "auto_4K", "square_hd", "square",
+  "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9",
+] as const;
+
+/**
+ * The exact provider call behind a generated image, stored on
+ * generated_images.provider_request so it can be replayed. Image URLs are
+ * the stored copies (never inlined data URLs); the seed is the one the
+ * provider actually used.
+ */
+export type ProviderRequest = {
+  // Registry id of the model that was called
+  model: string;
+  endpoint: string;
+  // Adapter output sent to the provider
+  input: Record<string, unknown>;
+  // Normalized request the input was built from (replayed in mock mode)
+  params: ImageGenerationParams;
+  // Edit-region mask composited onto the first input after the call
+  maskUrl?: string;
+};
+
+// How many images replaying a stored request returns
+export function getProviderRequestImageCount(request: ProviderRequest): number {
+  const count = request.input?.num_images ?? request.params?.numImages;
+  return typeof count === "number" && count > 0 ? count : 1;
+}
+
+// Apply a function to every string in a value, keeping its shape
+function mapStrings(value: unknown, map: (text: string) => string): unknown {
+  if (typeof value === "string") return map(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, map));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+  }
+  return value;
+}
+
+// Swap the image URLs in a stored request (unknown strings must be returned unchanged)
+export function mapProviderRequestUrls(
+  request: ProviderRequest,
+  map: (url: string) => string
+): ProviderRequest {
+  return mapStrings(request, map) as ProviderRequest;
+}
+
+// Read generated_images.provider_request, or null for rows saved without one
+export function parseProviderRequest(value: unknown): ProviderRequest | null {
+  if (!value || typeof value !== "object") return null;
+  const request = value as Partial<ProviderRequest>;
+  if (
+    typeof request.model !== "string" ||
+    typeof request.endpoint !== "string" ||
+    !request.input ||
+    typeof request.input !== "object" ||
+    !request.params ||
+    typeof request.params !== "object"
+  ) {
+    return null;
+  }
+  return request as ProviderRequest;
+}
+
+// Only sent when set, so the provider picks a random seed otherwise
+const seedInput = (params: ImageGenerationParams) =>
+  params.seed !== undefined ? { seed: params.seed } : {};
+
+// FAL responses share one shape across models
+function parseFalOutput(output: unknown): ImageGenerationOutput {
+  const result = (output || {}) as ImageGenerationOutput;
+  return {
+    images: (result.images || []).map((image) => ({
+      url: image.url,
+      seed: image.seed,
+      description: image.description,
+    })),
+    description: result.description,
+    seed: result.seed,
+  };
+}
+
+// Replicate returns a FileOutput, a URL string, or an array of either
+function parseReplicateOutput(output: unknown): ImageGenerationOutput {
+  const outputs = Array.isArray(output) ? output : [output];
+  const images = outputs.map((item) => {
+    if (item && typeof item === "object" && "url" in item) {
+      return { url: String((item as { url: () => string | URL }).url()) };
+    }
+    if (typeof item === "string") {
+      return { url: item };
+    }
+    throw new Error("Unexpected output format from Replicate");
+  });
+  return { images };
+}
+
+// Pick a value from a capability list, falling back when unsupported
+function pickSupported(
+  value: string | undefined,
+  supported: readonly string[],
+  fallback: string
+): string {
+  return value && supported.includes(value) ? value : fallback;
+}
+
+// Map legacy size values (1K/2K/4K) onto Seedream presets
+function mapSeedreamEditSize(size: string | undefined): string | { width: number; height: number } {
+  if (!size) return "auto_4K";
+  if ((SEEDREAM_SIZES as readonly string[]).includes(size)) return size;
+
+  switch (size) {
+    case "1K":
+      return { width: 1024, height: 1024 };
+    case "2K":
+      return "auto_2K";
+    default:
+      return "auto_4K";
+  }
+}
+
+export const IMAGE_MODELS = [
+  {
+    id: "nano-banana-pro",
+    label: "Nano Banana Pro",
+    description: "FAL • Image editing",
+    provider: "fal",
+    endpoint: "fal-ai/nano-banana-pro/edit",
+    modelName: "nano-banana-pro/edit",
+    capabilities: {
+      imageInput: "required",
+      maxInputImages: 10,
+      maxOutputs: 4,
+      aspectRatios: ["auto", ...BASE_ASPECT_RATIOS],
+      resolutions: ["1K", "2K", "4K"],
+      outputFormats: ["png", "jpg"],
+      seed: true,
+    },
+    defaults: { aspectRatio: "auto", resolution: "2K" },
+    buildInput: (params: ImageGenerationParams) => ({
+      prompt: params.prompt,
+      image_urls: params.imageUrls,
+      num_images: params.numImages,
+      aspect_ratio: params.aspectRatio || "auto",
+      output_format: params.outputFormat,
+      resolution: params.resolution || "2K",
+      limit_generations: !!params.limitGenerations,
+      enable_web_search: !!params.enableWebSearch,
+      sync_mode: !!params.syncMode,
+      ...seedInput(params),
+    }),
+    parseOutput: parseFalOutput,
+  },
+  {
+    id: "google-nano-banana",
+    label: "Google Nano Banana",
+    description: "Replicate • Fast & versatile",
+    provider: "replicate",
+    endpoint: "google/nano-banana",
+    modelName: "google/nano-banana",
+    capabilities: {
+      imageInput: "optional",
+      maxInputImages: 10,
+      maxOutputs: 1,
+      aspectRatios: ["match_input_image", ...BASE_ASPECT_RATIOS],
+      outputFormats: ["png", "jpg", "webp"],
+    },
+    defaults: { aspectRatio: "match_input_image" },
+    buildInput: (params: ImageGenerationParams) => {
+      const hasImages = params.imageUrls.length > 0;
+      const fallbackRatio = hasImages ? "match_input_image" : "1:1";
+      const aspectRatio =
+        !params.aspectRatio || params.aspectRatio === "auto"
+          ? fallbackRatio
+          : pickSupported(params.aspectRatio, ["match_input_image", ...BASE_ASPECT_RATIOS], fallbackRatio);
+
+      return {
+        prompt: params.prompt,
+        output_format: params.outputFormat,
+        aspect_ratio: aspectRatio,
+        ...(hasImages ? { image_input: params.imageUrls } : {}),
+      };
+    },
+    parseOutput: parseReplicateOutput,
+  },
+  {
+    id: "seedream-edit",
+    label: "Seedream 4.5 Edit",
+    description: "FAL • Multi-image editing",
+    provider: "fal",
+    endpoint: "fal-ai/bytedance/seedream/v4.5/edit",
+    modelName: "bytedance/seedream/v4.5/edit",
+    capabilities: {
+      imageInput: "required",
+      maxInputImages: 10,
+      maxOutputs: 6,
+      imageSizes: ["auto_4K", "auto_2K", "square_hd", "square", "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9"],
+      outputFormats: ["png", "jpg"],
+      seed: true,
+    },
+    defaults: { imageSize: "auto_4K" },
+    buildInput: (params: ImageGenerationParams) => ({
+      prompt: params.prompt,
+      image_urls: params.imageUrls,
+      image_size: mapSeedreamEditSize(params.imageSize),
+      num_images: params.numImages,
+      max_images: 1, // Single output per generation
+      enable_safety_checker: true,
+      sync_mode: !!params.syncMode,
+      ...seedInput(params),
+    }),
+    parseOutput: parseFalOutput,
+  },
+  {
+    id: "seedream",
+    label: "Seedream 4.5",
+    description: "FAL • Text to image only",
+    provider: "fal",
+    endpoint: "fal-ai/bytedance/seedream/v4.5/text-to-image",
+    modelName: "bytedance/seedream/v4.5/text-to-image",
+    capabilities: {
+      imageInput: "none",
+      maxInputImages: 0,
+      maxOutputs: 6,
+      imageSizes: SEEDREAM_SIZES,
+      outputFormats: ["png", "jpg"],
+      seed: true,
+    },
+    defaults: { imageSize: "auto_2K" },
+    buildInput: (params: ImageGenerationParams) => {
+      if (params.imageSize && !(SEEDREAM_SIZES as readonly string[]).includes(params.imageSize)) {
+        console.warn(`Invalid imageSize "${params.imageSize}" for Seedream, using auto_2K`);
+      }
+      return {
+        prompt: params.prompt,
+        image_size: pickSupported(params.imageSize, SEEDREAM_SIZES, "auto_2K"),
+        num_images: params.numImages,
+        enable_safety_checker: true,
+        sync_mode: !!params.syncMode,
+        ...seedInput(params),
+      };
+    },
+    parseOutput: parseFalOutput,
+  },
+  {
+    id: "flux-pro-fill",
+    label: "FLUX.1 Fill Pro",
+    description: "FAL • Edit a masked region",
+    provider: "fal",
+    endpoint: "fal-ai/flux-pro/v1/fill",
+    modelName: "flux-pro/v1/fill",
+    capabilities: {
+      imageInput: "required",
+      maxInputImages: 1,
+      maxOutputs: 4,
+      mask: "required",
+      outputFormats: ["png", "jpg"],
+      seed: true,
+    },
+    defaults: {},
+    buildInput: (params: ImageGenerationParams) => ({
+      prompt: params.prompt,
+      image_url: params.imageUrls[0],
+      mask_url: params.maskUrl,
+      num_images: params.numImages,
+      output_format: params.outputFormat === "jpg" ? "jpeg" : "png",
+      safety_tolerance: "2",
+      sync_mode: !!params.syncMode,
+      ...seedInput(params),
+    }),
+    parseOutput: parseFalOutput,
+  },
+] as const satisfies readonly ImageModel[];
+
+export type ImageModelId = (typeof IMAGE_MODELS)[number]["id"];
+
+export const DEFAULT_IMAGE_MODEL: ImageModelId = "nano-banana-pro";
+
+// Used for edit-region requests when the selected model can't take a mask
+export const DEFAULT_INPAINTING_MODEL: ImageModelId = "flux-pro-fill";
+
+export function getImageModel(id: string | null | undefined): ImageModel | undefined {
+  return IMAGE_MODELS.find((model) => model.id === id);
+}
+
+// Models that can run without a mask (the general pickers)
+export function getGenerationModels() {
+  return IMAGE_MODELS.filter((model: ImageModel) => model.capabilities.mask !== "required");
+}
+
+// Models that can take the current image as input (editing flows)
+export function getImageEditingModels(): ImageModel[] {
+  return getGenerationModels().filter((model: ImageModel) => model.capabilities.imageInput !== "none");
+}
+
+export function supportsMask(model: ImageModel): boolean {
+  return !!model.capabilities.mask;
+}
+
+// Format a stored model name (or registry id) for display
+export function formatModelName(model: string | null): string {
+  if (!model) return "Unknown";
+
+  const match = IMAGE_MODELS.find((m) => m.modelName === model || m.id === model);
+  return match?.label || model.split("/").pop() || model;
+}
+
+// Format image size presets for display
+export function formatSizeLabel(size: string): string {
+  const labels: Record<string, string> = {
+    "auto_2K": "Auto 2K",
+    "auto_4K": "Auto 4K",
+    "square_hd": "Square HD",
+    "square": "Square",
+    "portrait_4_3": "Portrait 4:3",
+    "portrait_16_9": "Portrait 16:9",
+    "landscape_4_3": "Landscape 4:3",
+    "landscape_16_9": "Landscape 16:9",
+  };
+  return labels[size] || size;
+}
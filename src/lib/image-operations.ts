@@ -0,0 +1,135 @@
+/**
+ * Single-image operations
+ *
+ * Shared plumbing for routes that turn one stored image into a new one
+ * (upscale, cutout): resolve the source row, read its bytes, and save the
+ * result as a child generated_images row. Server only (uses sharp).
+ */
+
+import sharp from "sharp";
+import { tryCreateImageDerivatives } from "./image-derivatives";
+import { createStoragePath, getPathFromStorageUrl, getStorageBackend, type ImageStorage } from "./storage";
+import {
+  findGeneratedImageIdsByUrl,
+  getGeneratedImage,
+  saveGeneratedImage,
+  type GeneratedImage,
+} from "./supabase";
+
+// Bad input from the caller (maps to a 400)
+export class ImageOperationError extends Error {}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type SourceImage = {
+  // Null for images that were never saved (e.g. launch-kit visuals)
+  row: GeneratedImage | null;
+  url: string;
+  buffer: Buffer;
+  width: number;
+  height: number;
+};
+
+async function readImage(storage: ImageStorage, url: string): Promise<Buffer> {
+  const storedPath = getPathFromStorageUrl(url);
+  if (storedPath) {
+    const data = await storage.get(storedPath);
+    if (data) return Buffer.from(data);
+  }
+  if (url.startsWith("http")) {
+    const response = await fetch(url, { signal: AbortSignal.timeout(30000) });
+    if (!response.ok) throw new Error(`Failed to download source image (${response.status})`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+  throw new ImageOperationError(`Source image not found: ${url}`);
+}
+
+/**
+ * Load the image a request points at: a generated_images id, or a URL
+ * (matched back to its row when there is one). Returns null when the id
+ * doesn't exist.
+ */
+export async function loadSourceImage(
+  storage: ImageStorage,
+  request: { imageId?: unknown; imageUrl?: unknown }
+): Promise<SourceImage | null> {
+  const { imageId, imageUrl } = request;
+
+  let row: GeneratedImage | null = null;
+  if (typeof imageId === "string") {
+    // Postgres rejects malformed UUIDs outright
+    if (!UUID_PATTERN.test(imageId)) throw new ImageOperationError("imageId must be a UUID");
+    row = await getGeneratedImage(imageId);
+    if (!row) return null;
+  } else if (typeof imageUrl === "string") {
+    const [matchedId] = await findGeneratedImageIdsByUrl([imageUrl]);
+    row = matchedId ? await getGeneratedImage(matchedId) : null;
+  } else {
+    throw new ImageOperationError("imageId or imageUrl is required");
+  }
+
+  const url = row?.image_url || (imageUrl as string);
+  if (url.startsWith("data:")) {
+    throw new ImageOperationError("Only stored images can be used");
+  }
+
+  const buffer = await readImage(storage, url);
+  const { width, height } = await sharp(buffer).metadata();
+  if (!width || !height) {
+    throw new ImageOperationError("Could not read the source image");
+  }
+  return { row, url, buffer, width, height };
+}
+
+// URL to hand a provider: they can't reach files on our local disk
+export async function getProviderImageUrl(source: SourceImage): Promise<string> {
+  if (getStorageBackend() !== "local" && source.url.startsWith("http")) {
+    return source.url;
+  }
+  const png = await sharp(source.buffer).png().toBuffer();
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+/**
+ * Store an operation's output and save it as a generated image whose parent
+ * is the source. Settings not passed are inherited from the source row.
+ */
+export async function saveDerivedImage(
+  storage: ImageStorage,
+  source: SourceImage,
+  output: {
+    buffer: Buffer;
+    format: "png" | "jpg";
+    model: string;
+    // Used when the source has no prompt of its own
+    fallbackPrompt: string;
+    resolution?: string;
+    // Project for sources without a row
+    projectId?: string | null;
+  }
+): Promise<GeneratedImage> {
+  const path = createStoragePath("generated", output.format);
+  const contentType = output.format === "jpg" ? "image/jpeg" : "image/png";
+  const stored = await storage.put(path, new Uint8Array(output.buffer), contentType);
+
+  const derivatives = await tryCreateImageDerivatives(storage, path, output.buffer);
+
+  const { row } = source;
+  return saveGeneratedImage({
+    projectId: row ? row.project_id : output.projectId ?? null,
+    imageUrl: stored.url,
+    thumbnailUrl: derivatives?.thumbnailUrl,
+    previewUrl: derivatives?.previewUrl,
+    prompt: row?.prompt || output.fallbackPrompt,
+    settings: {
+      aspectRatio: row?.aspect_ratio,
+      resolution: output.resolution || row?.resolution,
+      outputFormat: output.format,
+      safetyFilter: row?.safety_filter,
+    },
+    inputImageUrls: [source.url],
+    model: output.model,
+    parentImageIds: row ? [row.id] : [],
+    storagePath: path,
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Server-side transports for the image model registry.
+ * Only import from API routes - this module reads provider keys from env.
+ */
+
+import Replicate from "replicate";
+import type { ImageModel, ImageProvider } from "./image-models";
+
+// Replicate client
+const replicate = process.env.REPLICATE_API_TOKEN
+  ? new Replicate({ auth: process.env.REPLICATE_API_TOKEN })
+  : null;
+
+// Env variable each provider needs, used for configuration errors
+const PROVIDER_KEYS: Record<ImageProvider, string> = {
+  fal: "FAL_KEY",
+  replicate: "REPLICATE_API_TOKEN",
+};
+
+export function isProviderConfigured(provider: ImageProvider): boolean {
+  return !!process.env[PROVIDER_KEYS[provider]];
+}
+
+export function getProviderKeyName(provider: ImageProvider): string {
+  return PROVIDER_KEYS[provider];
+}
+
+// Also called directly by single-purpose endpoints (e.g. upscaling)
+export async function runFal(endpoint: string, input: Record<string, unknown>): Promise<unknown> {
+  const falResponse = await fetch(`https://fal.run/${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Key ${process.env.FAL_KEY}`,
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!falResponse.ok) {
+    const errorText = await falResponse.text();
+    throw new Error(`Fal request failed (${falResponse.status}): ${errorText}`);
+  }
+
+  return falResponse.json();
+}
+
+async function runReplicate(endpoint: string, input: Record<string, unknown>): Promise<unknown> {
+  if (!replicate) {
+    throw new Error("REPLICATE_API_TOKEN is not configured on the server");
+  }
+  return replicate.run(endpoint as `${string}/${string}`, { input });
+}
+
+/**
+ * Send an adapter-built input to the model's provider and return the raw
+ * provider output (to be normalized with `model.parseOutput`).
+ */
+export async function runImageModel(
+  model: ImageModel,
+  input: Record<string, unknown>
+): Promise<unknown> {
+  switch (model.provider) {
+    case "fal":
+      return runFal(model.endpoint, input);
+    case "replicate":
+      return runReplicate(model.endpoint, input);
+  }
+}
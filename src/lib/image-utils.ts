@@ -2,13 +2,28 @@
  * Client-side utility functions for handling images
  */
 
-import { supabase } from "./supabase";
+import { getClientStorage } from "./supabase";
+import { createStoragePath } from "./storage";
 
 /**
- * Upload a data URL to Supabase storage and return the public URL
+ * Upload a blob to storage and return its public URL
+ */
+export async function uploadBlobToStorage(
+  blob: Blob,
+  prefix = "uploads",
+  contentType = blob.type || "image/png"
+): Promise<string> {
+  const extension = contentType.split("/")[1] || "png";
+  const path = createStoragePath(prefix, extension === "jpeg" ? "jpg" : extension);
+  const { url } = await getClientStorage().put(path, blob, contentType);
+  return url;
+}
+
+/**
+ * Upload a data URL to storage and return the public URL
  * This prevents "request too large" errors by uploading images before sending to API
  */
-export async function uploadDataUrlToSupabase(
+export async function uploadDataUrlToStorage(
   dataUrl: string,
   prefix = "uploads"
 ): Promise<string> {
@@ -22,28 +37,7 @@ export async function uploadDataUrlToSupabase(
     const response = await fetch(dataUrl);
     const blob = await response.blob();
 
-    // Generate unique filename
-    const fileName = `${prefix}/${Date.now()}-${crypto.randomUUID()}.png`;
-
-    // Upload to Supabase storage
-    const { error: uploadError } = await supabase.storage
-      .from("generated-images")
-      .upload(fileName, blob, {
-        contentType: "image/png",
-        cacheControl: "3600",
-      });
-
-    if (uploadError) {
-      console.error("Failed to upload data URL to Supabase:", uploadError);
-      throw new Error(`Failed to upload image: ${uploadError.message}`);
-    }
-
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from("generated-images")
-      .getPublicUrl(fileName);
-
-    return urlData.publicUrl;
+    return await uploadBlobToStorage(blob, prefix, "image/png");
   } catch (error) {
     console.error("Error uploading data URL:", error);
     throw error;
@@ -51,15 +45,15 @@ export async function uploadDataUrlToSupabase(
 }
 
 /**
- * Upload multiple data URLs to Supabase storage
+ * Upload multiple data URLs to storage
  * Returns an array of URLs (or original URLs if they're already URLs)
  */
-export async function uploadDataUrlsToSupabase(
+export async function uploadDataUrlsToStorage(
   imageInputs: string[],
   prefix = "uploads"
 ): Promise<string[]> {
   const uploadPromises = imageInputs.map((input) =>
-    uploadDataUrlToSupabase(input, prefix).catch((error) => {
+    uploadDataUrlToStorage(input, prefix).catch((error) => {
       console.error("Failed to upload image, using original:", error);
       // If upload fails, return original (might be a URL already)
       return input;
@@ -69,3 +63,22 @@ export async function uploadDataUrlsToSupabase(
   return Promise.all(uploadPromises);
 }
 
+/**
+ * Get the 256px thumbnail and 768px preview for an image in storage,
+ * creating them if they don't exist yet
+ */
+export async function requestImageDerivatives(
+  url: string
+): Promise<{ thumbnailUrl: string; previewUrl: string }> {
+  const response = await fetch("/api/derivatives", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to create image derivatives");
+  }
+  return data;
+}
@@ -0,0 +1,114 @@
+/**
+ * Edit-region compositing
+ *
+ * Inpainting models repaint the masked region but still re-encode (and
+ * sometimes subtly shift) the rest of the frame. After generation we paste
+ * the model's output back onto the original through the mask, so pixels
+ * outside the marked region stay identical to the input. Server only.
+ */
+
+import sharp from "sharp";
+
+/**
+ * Blend `edited` over `original` using `mask` (white = take the edit,
+ * black = keep the original). The edit and mask are resized to the
+ * original's dimensions. Always encodes PNG: a lossy format would alter the
+ * pixels outside the mask too.
+ */
+export async function compositeMaskedEdit(original: Buffer, edited: Buffer, mask: Buffer): Promise<Buffer> {
+  const { data: base, info } = await sharp(original)
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+
+  const [overlay, alpha] = await Promise.all([
+    sharp(edited)
+      .resize(width, height, { fit: "fill" })
+      .removeAlpha()
+      .toColourspace("srgb")
+      .raw()
+      .toBuffer(),
+    sharp(mask)
+      .resize(width, height, { fit: "fill" })
+      .flatten({ background: "#000000" })
+      .greyscale()
+      .raw()
+      .toBuffer(),
+  ]);
+
+  const output = Buffer.alloc(base.length);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const weight = alpha[pixel] / 255;
+    for (let channel = 0; channel < channels; channel++) {
+      const i = pixel * channels + channel;
+      output[i] = weight === 0 ? base[i] : Math.round(base[i] + (overlay[i] - base[i]) * weight);
+    }
+  }
+
+  return sharp(output, { raw: { width, height, channels } }).png().toBuffer();
+}
+
+// "16:9" -> 16/9; null for anything that isn't two positive numbers
+export function parseAspectRatio(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/.exec(value);
+  if (!match) return null;
+  const ratio = Number(match[1]) / Number(match[2]);
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : null;
+}
+
+/**
+ * Pad an image out to `aspectRatio` (e.g. "16:9") with the original centered,
+ * and build the matching mask: white over the added border, black over the
+ * original. The border is pre-filled with mirrored edges as context for the
+ * inpainting model.
+ */
+export async function extendCanvas(
+  original: Buffer,
+  aspectRatio: string
+): Promise<{ image: Buffer; mask: Buffer }> {
+  const ratio = parseAspectRatio(aspectRatio);
+  if (!ratio) throw new Error(`Invalid aspect ratio: ${aspectRatio}`);
+
+  const { width, height } = await sharp(original).metadata();
+  if (!width || !height) throw new Error("Could not read image dimensions");
+
+  const targetWidth = Math.max(width, Math.round(height * ratio));
+  const targetHeight = Math.max(height, Math.round(width / ratio));
+  if (targetWidth === width && targetHeight === height) {
+    throw new Error(`Image is already ${aspectRatio}`);
+  }
+
+  const left = Math.floor((targetWidth - width) / 2);
+  const top = Math.floor((targetHeight - height) / 2);
+  const padding = {
+    left,
+    right: targetWidth - width - left,
+    top,
+    bottom: targetHeight - height - top,
+  };
+
+  const keep = await sharp({
+    create: { width, height, channels: 3, background: "#000000" },
+  })
+    .png()
+    .toBuffer();
+
+  const [image, mask] = await Promise.all([
+    sharp(original)
+      .removeAlpha()
+      .toColourspace("srgb")
+      .extend({ ...padding, extendWith: "mirror" })
+      .png()
+      .toBuffer(),
+    sharp({
+      create: { width: targetWidth, height: targetHeight, channels: 3, background: "#ffffff" },
+    })
+      .composite([{ input: keep, left, top }])
+      .png()
+      .toBuffer(),
+  ]);
+
+  return { image, mask };
+}
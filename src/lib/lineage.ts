@@ -0,0 +1,67 @@
+/**
+ * Generation lineage helpers
+ *
+ * Every generated image records the generated images it was made from
+ * (`parent_image_ids`). These helpers turn that flat list into a forest of
+ * edit chains for the project history tree.
+ */
+
+export type LineageItem = {
+  id: string;
+  parentImageIds?: string[];
+  timestamp: Date;
+};
+
+export type LineageNode<T extends LineageItem> = {
+  item: T;
+  children: LineageNode<T>[];
+  // Parents beyond the first (multi-image inputs); shown as merge hints
+  otherParentIds: string[];
+};
+
+/**
+ * Build the lineage forest. Each image hangs under its first known parent;
+ * images whose parents aren't in the list become roots. Parents must be older
+ * than their children, which also rules out cycles from bad data.
+ */
+export function buildLineageForest<T extends LineageItem>(items: T[]): LineageNode<T>[] {
+  const sorted = [...items].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const nodes = new Map<string, LineageNode<T>>();
+  const roots: LineageNode<T>[] = [];
+
+  for (const item of sorted) {
+    const knownParents = (item.parentImageIds || []).filter((id) => nodes.has(id));
+    const node: LineageNode<T> = {
+      item,
+      children: [],
+      otherParentIds: knownParents.slice(1),
+    };
+    nodes.set(item.id, node);
+
+    const parent = knownParents.length > 0 ? nodes.get(knownParents[0]) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+// Ids of an item and all of its ancestors (primary parents only)
+export function getLineagePath<T extends LineageItem>(items: T[], id: string): string[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(id);
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.id);
+    const parentId = current.parentImageIds?.find((parent) => byId.has(parent));
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+
+  return path;
+}
@@ -0,0 +1,377 @@
+/**
+ * Offline mock providers
+ *
+ * When MOCK_PROVIDERS=true every AI route answers from here instead of
+ * calling FAL, Replicate or OpenAI. Output is deterministic for a given
+ * prompt/seed so the whole app can be demoed and tested without keys or
+ * network. Server-only (uses sharp).
+ */
+
+import sharp from "sharp";
+import type { ImageGenerationOutput, ImageGenerationParams, ImageModel } from "./image-models";
+
+export function isMockMode(): boolean {
+  return process.env.MOCK_PROVIDERS === "true";
+}
+
+// Small stable string hash (FNV-1a) used to derive seeds and colors
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(list: readonly T[], seed: number, offset = 0): T {
+  return list[(seed + offset) % list.length];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Break a prompt into short lines for the SVG stamp
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    if ((current + " " + word).trim().length > maxChars) {
+      lines.push(current);
+      current = word;
+      if (lines.length === maxLines) break;
+    } else {
+      current = (current + " " + word).trim();
+    }
+  }
+  if (current && lines.length < maxLines) lines.push(current);
+  if (lines.length === maxLines && words.join(" ").length > lines.join(" ").length) {
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxChars - 1)}…`;
+  }
+  return lines;
+}
+
+// Map aspect ratios / size presets to placeholder dimensions
+function getMockDimensions(params: ImageGenerationParams): { width: number; height: number } {
+  const presetRatios: Record<string, string> = {
+    square_hd: "1:1",
+    square: "1:1",
+    portrait_4_3: "3:4",
+    portrait_16_9: "9:16",
+    landscape_4_3: "4:3",
+    landscape_16_9: "16:9",
+  };
+  const ratio = presetRatios[params.imageSize || ""] || params.aspectRatio || "1:1";
+  const match = ratio.match(/^(\d+):(\d+)$/);
+  if (!match) return { width: 1024, height: 1024 };
+
+  const [w, h] = [Number(match[1]), Number(match[2])];
+  return w >= h
+    ? { width: 1024, height: Math.round((1024 * h) / w) }
+    : { width: Math.round((1024 * w) / h), height: 1024 };
+}
+
+async function loadInputBackground(url: string, width: number, height: number): Promise<Buffer | null> {
+  try {
+    let buffer: Buffer;
+    if (url.startsWith("data:")) {
+      buffer = Buffer.from(url.split(",")[1] || "", "base64");
+    } else {
+      const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+      if (!response.ok) return null;
+      buffer = Buffer.from(await response.arrayBuffer());
+    }
+    return await sharp(buffer).resize(width, height, { fit: "cover" }).toBuffer();
+  } catch {
+    // Offline or unreachable input - fall back to a flat background
+    return null;
+  }
+}
+
+/**
+ * Render a placeholder image stamped with the model, prompt and seed.
+ * If an input image is given it is used as a dimmed background so edit
+ * flows still look like edits.
+ */
+export async function renderMockImage(options: {
+  label: string;
+  prompt: string;
+  seed: number;
+  width: number;
+  height: number;
+  format: string;
+  backgroundUrl?: string;
+}): Promise<Buffer> {
+  const { label, prompt, seed, width, height } = options;
+  const hue = seed % 360;
+  const lines = wrapText(prompt, Math.floor(width / 22), 6);
+  const fontSize = Math.round(width / 32);
+
+  const svg = `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="hsl(${hue}, 55%, 35%)" stop-opacity="0.85"/>
+      <stop offset="100%" stop-color="hsl(${(hue + 60) % 360}, 55%, 20%)" stop-opacity="0.85"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)"/>
+  <text x="50%" y="${height * 0.3}" text-anchor="middle" font-family="sans-serif" font-size="${fontSize * 1.4}" font-weight="bold" fill="#bef264">MOCK • ${escapeXml(label)}</text>
+  ${lines
+    .map(
+      (line, i) =>
+        `<text x="50%" y="${height * 0.3 + fontSize * 2.5 + i * fontSize * 1.4}" text-anchor="middle" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${escapeXml(line)}</text>`
+    )
+    .join("\n  ")}
+  <text x="50%" y="${height - fontSize * 1.5}" text-anchor="middle" font-family="monospace" font-size="${fontSize * 0.8}" fill="#d4d4d8">seed ${seed}</text>
+</svg>`;
+
+  const background = options.backgroundUrl
+    ? await loadInputBackground(options.backgroundUrl, width, height)
+    : null;
+
+  const base = background
+    ? sharp(background)
+    : sharp({ create: { width, height, channels: 3, background: { r: 24, g: 24, b: 27 } } });
+
+  const pipeline = base.composite([{ input: Buffer.from(svg), top: 0, left: 0 }]);
+
+  switch (options.format) {
+    case "jpg":
+    case "jpeg":
+      return pipeline.jpeg({ quality: 85 }).toBuffer();
+    case "webp":
+      return pipeline.webp({ quality: 85 }).toBuffer();
+    default:
+      return pipeline.png().toBuffer();
+  }
+}
+
+/**
+ * Mock transport for the image model registry. Returns data URLs so the
+ * regular upload step (or the client, when storage is not configured)
+ * can consume them like provider URLs.
+ */
+export async function generateMockImages(
+  model: ImageModel,
+  params: ImageGenerationParams
+): Promise<ImageGenerationOutput> {
+  const baseSeed =
+    params.seed ?? hashString(`${model.id}:${params.prompt}:${params.imageUrls.join(",")}`) % 1_000_000;
+  const { width, height } = getMockDimensions(params);
+  const contentType = `image/${params.outputFormat === "jpg" ? "jpeg" : params.outputFormat}`;
+
+  const images = await Promise.all(
+    Array.from({ length: params.numImages }, async (_, i) => {
+      const buffer = await renderMockImage({
+        label: model.label,
+        prompt: params.prompt,
+        seed: baseSeed + i,
+        width,
+        height,
+        format: params.outputFormat,
+        backgroundUrl: params.imageUrls[0],
+      });
+      return {
+        url: `data:${contentType};base64,${buffer.toString("base64")}`,
+        seed: baseSeed + i,
+      };
+    })
+  );
+
+  return {
+    images,
+    description: `Mock render of "${params.prompt}"`,
+    seed: baseSeed,
+  };
+}
+
+/**
+ * Mock background-removal matte: a soft-edged ellipse over the middle of
+ * the frame (white = subject), as a greyscale PNG.
+ */
+export async function renderMockMatte(width: number, height: number): Promise<Buffer> {
+  const feather = Math.max(2, Math.round(Math.min(width, height) * 0.02));
+  const svg = `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+  <defs><filter id="f"><feGaussianBlur stdDeviation="${feather}"/></filter></defs>
+  <rect width="100%" height="100%" fill="#000000"/>
+  <ellipse cx="50%" cy="52%" rx="32%" ry="40%" fill="#ffffff" filter="url(#f)"/>
+</svg>`;
+
+  return sharp(Buffer.from(svg)).greyscale().png().toBuffer();
+}
+
+// ============================================
+// DESIGNER
+// ============================================
+
+const MOCK_STYLES = [
+  { tag: "modern", materials: ["white oak", "matte plaster", "brushed steel"], colors: ["warm white", "charcoal", "sand"] },
+  { tag: "scandinavian", materials: ["birch", "wool", "linen"], colors: ["soft white", "pale grey", "sage"] },
+  { tag: "industrial", materials: ["concrete", "blackened steel", "reclaimed wood"], colors: ["graphite", "rust", "tan"] },
+  { tag: "bohemian", materials: ["rattan", "jute", "terracotta"], colors: ["ochre", "terracotta", "olive"] },
+] as const;
+
+function mockItem(id: string, label: string, materials: readonly string[], colors: readonly string[]) {
+  return { id, label, materials: [...materials], colors: [...colors] };
+}
+
+/**
+ * Canned design matching DESIGN_JSON_SCHEMA in /api/designer.
+ * The style is picked from the prompt so different prompts give
+ * different (but repeatable) concepts.
+ */
+export function createMockDesign(prompt: string, roomName?: string) {
+  const seed = hashString(prompt);
+  const style = pick(MOCK_STYLES, seed);
+  const [primary, secondary, accent] = style.materials;
+  const [light, dark, tone] = style.colors;
+  const room = roomName || "Room";
+  const styleName = style.tag.charAt(0).toUpperCase() + style.tag.slice(1);
+
+  const category = (materials: string[], items: ReturnType<typeof mockItem>[]) => ({
+    materials_overall: materials,
+    items,
+  });
+
+  return {
+    meta: {
+      title: `${styleName} ${room}`,
+      style_tags: [style.tag, "mock", "calm"],
+      summary: `Mock ${style.tag} concept for: ${prompt.slice(0, 80)}`,
+    },
+    shell: {
+      ceiling: category([secondary], [mockItem("flat_ceiling", "Smooth flat ceiling", [secondary], [light])]),
+      walls: category([secondary], [mockItem("feature_wall", "Textured feature wall", [secondary], [tone])]),
+      floor: category([primary], [mockItem("wide_plank_floor", "Wide plank flooring", [primary], [tone])]),
+      windows_and_trims: category([], [mockItem("slim_frames", "Slim window frames", [accent], [dark])]),
+      doors_and_trims: category([], []),
+      built_ins: category([primary], [mockItem("media_niche", "Built-in media niche", [primary], [light])]),
+    },
+    interior: {
+      layout_and_zoning: category([], [mockItem("conversation_zone", "Central conversation zone", [primary], [light])]),
+      furniture: category([primary, accent], [
+        mockItem("low_sofa", "Low profile sofa", [secondary], [light]),
+        mockItem("coffee_table", "Round coffee table", [primary], [tone]),
+      ]),
+      lighting: category([accent], [mockItem("pendant_light", "Sculptural pendant light", [accent], [dark])]),
+      textiles: category([secondary], [mockItem("area_rug", "Flat weave rug", [secondary], [tone])]),
+      decor_and_art: category([], [mockItem("large_print", "Large abstract print", ["paper", "wood frame"], [dark, tone])]),
+    },
+  };
+}
+
+/**
+ * Canned designer chat turn (reply + patch, see src/lib/design-patch.ts).
+ * Adds one textile in a style picked from the message.
+ */
+export function createMockDesignPatch(message: string) {
+  const style = pick(MOCK_STYLES, hashString(message));
+  const styleName = style.tag.charAt(0).toUpperCase() + style.tag.slice(1);
+
+  return {
+    reply: `Mock reply: added a throw in ${style.tag} style for "${message.slice(0, 60)}".`,
+    patch: {
+      upsert_items: [
+        {
+          category: "interior.textiles",
+          item: mockItem(`${style.tag}_throw`, `${styleName} throw`, style.materials.slice(0, 2), style.colors.slice(0, 2)),
+        },
+      ],
+    },
+  };
+}
+
+// ============================================
+// LAUNCH KIT
+// ============================================
+
+/** Canned launch kit matching LAUNCH_KIT_SCHEMA in /api/launch-kit. */
+export function createMockLaunchKit(input: {
+  idea: string;
+  audience?: string;
+  goal?: string;
+  tone?: string;
+  style?: string;
+  platforms: string[];
+}) {
+  const idea = input.idea.trim();
+  const short = idea.length > 60 ? `${idea.slice(0, 57)}…` : idea;
+  const voice = input.tone || "Helpful";
+
+  return {
+    idea_summary: short,
+    target_audience: input.audience || "Early adopters",
+    goal: input.goal || "Launch buzz",
+    angle: `Why ${short} saves time today`,
+    voice,
+    headline_options: [
+      `Meet ${short}`,
+      `The faster way to get it done`,
+      `Built for people who ship`,
+    ],
+    keywords: ["launch", "mock", "offline", "demo", "preview"],
+    visual_prompt: `Hero shot of ${idea}, centered product, clean background`,
+    visual_style: input.style || "Clean 3D render with soft shadows",
+    platforms: input.platforms.map((name) => ({
+      name,
+      hook: `[${name}] Stop scrolling: ${short}`,
+      body: `What it is: ${short}\nWho it's for: ${input.audience || "early adopters"}\nWhy now: it's ready today`,
+      cta: "Try it today",
+      hashtags: ["launch", "mock"],
+      notes: `Mock ${voice.toLowerCase()} copy for ${name}`,
+    })),
+    email_blurb: `We just launched ${short}. It's built for ${input.audience || "early adopters"} - reply to get early access.`,
+  };
+}
+
+// ============================================
+// VIDEO QUEUE
+// ============================================
+
+// Seconds after submission at which the fake job moves to the next status
+const MOCK_VIDEO_QUEUE_SECONDS = 3;
+const MOCK_VIDEO_PROGRESS_SECONDS = 10;
+
+/** Create a fake request id that encodes its submission time. */
+export function submitMockVideo(): string {
+  return `mock-${Date.now().toString(36)}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Walk a fake request through IN_QUEUE → IN_PROGRESS → COMPLETED based on
+ * time since submission. The completed video points at MOCK_VIDEO_URL, or
+ * the placeholder clip in public/mock.
+ */
+export function getMockVideoStatus(requestId: string) {
+  const submittedAt = parseInt(requestId.split("-")[1] || "", 36);
+  if (!requestId.startsWith("mock-") || Number.isNaN(submittedAt)) {
+    return { status: "FAILED" as const, requestId };
+  }
+
+  const elapsed = (Date.now() - submittedAt) / 1000;
+  if (elapsed < MOCK_VIDEO_QUEUE_SECONDS) {
+    return { status: "IN_QUEUE" as const, requestId, logs: [] };
+  }
+  if (elapsed < MOCK_VIDEO_PROGRESS_SECONDS) {
+    return {
+      status: "IN_PROGRESS" as const,
+      requestId,
+      logs: [{ message: `Mock render ${Math.round((elapsed / MOCK_VIDEO_PROGRESS_SECONDS) * 100)}%` }],
+    };
+  }
+  return {
+    status: "COMPLETED" as const,
+    requestId,
+    video: {
+      url: process.env.MOCK_VIDEO_URL || "/mock/timelapse.mp4",
+      content_type: "video/mp4",
+    },
+  };
+}
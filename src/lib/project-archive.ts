@@ -0,0 +1,429 @@
+/**
+ * Project archives
+ *
+ * A project export is a ZIP with `manifest.json` (every row that belongs to
+ * the project) and a `files/` folder holding each image and video those rows
+ * point at. Importing recreates the project with fresh ids and re-uploads the
+ * files, so archives can move between Supabase instances.
+ *
+ * Server only.
+ */
+
+import JSZip from "jszip";
+import { supabase } from "./supabase";
+import { getPathFromStorageUrl } from "./storage";
+import { mapProviderRequestUrls, parseProviderRequest } from "./image-models";
+import { getContentType, getServerStorage } from "./storage-server";
+import type {
+  Annotation,
+  DesignMessage,
+  GeneratedImage,
+  Project,
+  ReferenceImage,
+  Room,
+  RoomDesign,
+  VideoFlow,
+  Json,
+} from "./database.types";
+
+export const PROJECT_ARCHIVE_FORMAT = "banana-project";
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+
+export type ProjectArchiveManifest = {
+  format: typeof PROJECT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Project;
+  rooms: Room[];
+  roomDesigns: RoomDesign[];
+  designMessages: DesignMessage[];
+  generatedImages: GeneratedImage[];
+  referenceImages: ReferenceImage[];
+  videoFlows: VideoFlow[];
+  annotations: Annotation[];
+  // Original URL -> path of its copy inside the archive
+  files: Record<string, string>;
+  // URLs that couldn't be downloaded (kept as-is on import)
+  missingFiles: string[];
+};
+
+export class ProjectArchiveError extends Error {}
+
+// Every file URL referenced by the manifest rows
+function collectFileUrls(
+  manifest: Pick<
+    ProjectArchiveManifest,
+    "rooms" | "roomDesigns" | "generatedImages" | "referenceImages" | "videoFlows" | "annotations"
+  >
+): string[] {
+  const urls: (string | null)[] = [];
+
+  urls.push(...manifest.rooms.map((room) => room.thumbnail_url));
+  for (const design of manifest.roomDesigns) {
+    urls.push(design.before_image_url, design.rendered_image_url, ...(design.reference_image_urls || []));
+  }
+  for (const image of manifest.generatedImages) {
+    urls.push(image.image_url, image.thumbnail_url, image.preview_url, ...(image.input_image_urls || []));
+    // Re-runs of masked edits need the mask too
+    urls.push(parseProviderRequest(image.provider_request)?.maskUrl || null);
+  }
+  urls.push(...manifest.referenceImages.map((image) => image.url));
+  for (const flow of manifest.videoFlows) {
+    urls.push(flow.before_image_url, flow.after_image_url, flow.video_url, flow.thumbnail_url);
+  }
+  for (const annotation of manifest.annotations) {
+    urls.push(annotation.source_image_url, annotation.annotated_image_url);
+  }
+
+  // Data URLs travel inside the manifest; only hosted files are copied
+  const fileUrls = urls.filter(
+    (url): url is string => !!url && (url.startsWith("http") || getPathFromStorageUrl(url) !== null)
+  );
+  return [...new Set(fileUrls)];
+}
+
+function extensionFromContentType(contentType: string | null): string {
+  const subtype = contentType?.split(";")[0].split("/")[1];
+  if (!subtype) return "bin";
+  return subtype === "jpeg" ? "jpg" : subtype.replace(/[^a-z0-9]/gi, "");
+}
+
+// Read a referenced file, preferring our own storage over an HTTP round trip
+async function downloadFile(url: string): Promise<{ data: Uint8Array; contentType: string | null } | null> {
+  const storagePath = getPathFromStorageUrl(url);
+  const storage = getServerStorage();
+  if (storagePath && storage) {
+    const data = await storage.get(storagePath);
+    if (data) return { data, contentType: getContentType(storagePath) };
+  }
+
+  if (!url.startsWith("http")) return null;
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(60000) });
+    if (!response.ok) return null;
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type"),
+    };
+  } catch (error) {
+    console.warn(`Failed to download ${url} for export:`, error);
+    return null;
+  }
+}
+
+async function selectProjectRows<T>(
+  query: PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  label: string
+): Promise<T[]> {
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load ${label}: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Build the export ZIP for a project. Returns null if the project doesn't exist.
+ */
+export async function exportProjectArchive(
+  projectId: string
+): Promise<{ fileName: string; data: Uint8Array } | null> {
+  const { data: project, error } = await supabase
+    .from("projects")
+    .select("*")
+    .eq("id", projectId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") return null;
+    throw new Error(`Failed to load project: ${error.message}`);
+  }
+
+  const rooms = await selectProjectRows(
+    supabase.from("rooms").select("*").eq("project_id", projectId).order("created_at"),
+    "rooms"
+  );
+  const roomIds = rooms.map((room) => room.id);
+  const roomDesigns = roomIds.length
+    ? await selectProjectRows(
+        supabase.from("room_designs").select("*").in("room_id", roomIds).order("created_at"),
+        "room designs"
+      )
+    : [];
+  const designMessages = roomIds.length
+    ? await selectProjectRows(
+        supabase.from("design_messages").select("*").in("room_id", roomIds).order("created_at"),
+        "design messages"
+      )
+    : [];
+  const generatedImages = await selectProjectRows(
+    supabase.from("generated_images").select("*").eq("project_id", projectId).order("created_at"),
+    "generated images"
+  );
+  const referenceImages = await selectProjectRows(
+    supabase.from("reference_images").select("*").eq("project_id", projectId).order("created_at"),
+    "reference images"
+  );
+  const videoFlows = await selectProjectRows(
+    supabase.from("video_flows").select("*").eq("project_id", projectId).order("created_at"),
+    "video flows"
+  );
+  const annotations = await selectProjectRows(
+    supabase.from("annotations").select("*").eq("project_id", projectId).order("created_at"),
+    "annotations"
+  );
+
+  const rows = { project, rooms, roomDesigns, designMessages, generatedImages, referenceImages, videoFlows, annotations };
+  const zip = new JSZip();
+  const files: Record<string, string> = {};
+  const missingFiles: string[] = [];
+
+  // Sequential on purpose - keeps memory and provider load flat for big projects
+  for (const [index, url] of collectFileUrls(rows).entries()) {
+    const file = await downloadFile(url);
+    if (!file) {
+      missingFiles.push(url);
+      continue;
+    }
+
+    const storagePath = getPathFromStorageUrl(url);
+    const archivePath = storagePath
+      ? `files/${storagePath}`
+      : `files/external/${index}.${extensionFromContentType(file.contentType)}`;
+    zip.file(archivePath, file.data);
+    files[url] = archivePath;
+  }
+
+  const manifest: ProjectArchiveManifest = {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...rows,
+    files,
+    missingFiles,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  const data = await zip.generateAsync({
+    type: "uint8array",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+
+  const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "project";
+  return { fileName: `${slug}-${new Date().toISOString().slice(0, 10)}.zip`, data };
+}
+
+/**
+ * Recreate a project from an export ZIP. Every row gets a fresh id and every
+ * archived file is uploaded again under `imported/<new project id>/`.
+ */
+export async function importProjectArchive(archive: ArrayBuffer | Uint8Array): Promise<Project> {
+  const storage = getServerStorage();
+  if (!storage) {
+    throw new Error("Storage is not configured - cannot upload archived files");
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new ProjectArchiveError("File is not a valid ZIP archive");
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new ProjectArchiveError("Archive has no manifest.json");
+  }
+
+  let manifest: ProjectArchiveManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async("string"));
+  } catch {
+    throw new ProjectArchiveError("manifest.json is not valid JSON");
+  }
+  if (!manifest || manifest.format !== PROJECT_ARCHIVE_FORMAT || !manifest.project) {
+    throw new ProjectArchiveError("Archive is not a project export");
+  }
+  if (manifest.version > PROJECT_ARCHIVE_VERSION) {
+    throw new ProjectArchiveError(`Archive version ${manifest.version} is newer than this app supports`);
+  }
+
+  const newProjectId = crypto.randomUUID();
+  const ids = new Map<string, string>();
+  const newId = (oldId: string) => {
+    if (!ids.has(oldId)) ids.set(oldId, crypto.randomUUID());
+    return ids.get(oldId)!;
+  };
+
+  // Upload files first so the rows can point at their new URLs
+  const urls = new Map<string, string>();
+  for (const [url, archivePath] of Object.entries(manifest.files || {})) {
+    const file = zip.file(archivePath);
+    if (!file) continue;
+    const storagePath = `imported/${newProjectId}/${archivePath.replace(/^files\//, "")}`;
+    const stored = await storage.put(storagePath, await file.async("uint8array"), getContentType(storagePath));
+    urls.set(url, stored.url);
+  }
+  const remap = (url: string | null) => (url ? urls.get(url) || url : url);
+  const remapAll = (list: string[] | null) => (list || []).map((url) => remap(url)!);
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .insert({
+      ...manifest.project,
+      id: newProjectId,
+    })
+    .select()
+    .single();
+
+  if (projectError) throw new Error(`Failed to create project: ${projectError.message}`);
+
+  try {
+    const insertRows = async (
+      query: PromiseLike<{ error: { message: string } | null }>,
+      label: string
+    ) => {
+      const { error } = await query;
+      if (error) throw new Error(`Failed to import ${label}: ${error.message}`);
+    };
+
+    if (manifest.rooms?.length) {
+      await insertRows(
+        supabase.from("rooms").insert(
+          manifest.rooms.map((room) => ({
+            ...room,
+            id: newId(room.id),
+            project_id: newProjectId,
+            thumbnail_url: remap(room.thumbnail_url),
+          }))
+        ),
+        "rooms"
+      );
+    }
+
+    const designs = (manifest.roomDesigns || []).filter((design) => ids.has(design.room_id));
+    if (designs.length) {
+      await insertRows(
+        supabase.from("room_designs").insert(
+          designs.map((design) => ({
+            ...design,
+            id: newId(design.id),
+            room_id: newId(design.room_id),
+            restored_from_id: design.restored_from_id ? newId(design.restored_from_id) : null,
+            reference_image_urls: remapAll(design.reference_image_urls),
+            before_image_url: remap(design.before_image_url),
+            rendered_image_url: remap(design.rendered_image_url),
+          }))
+        ),
+        "room designs"
+      );
+    }
+
+    // Older archives have no design chat
+    const designIds = new Set(designs.map((design) => design.id));
+    const messages = (manifest.designMessages || []).filter((message) => ids.has(message.room_id));
+    if (messages.length) {
+      await insertRows(
+        supabase.from("design_messages").insert(
+          messages.map((message) => ({
+            ...message,
+            id: newId(message.id),
+            room_id: newId(message.room_id),
+            design_id: message.design_id && designIds.has(message.design_id) ? newId(message.design_id) : null,
+          }))
+        ),
+        "design messages"
+      );
+    }
+
+    const images = manifest.generatedImages || [];
+    const exportedImageIds = new Set(images.map((image) => image.id));
+    if (images.length) {
+      await insertRows(
+        supabase.from("generated_images").insert(
+          images.map((image) => {
+            const imageUrl = remap(image.image_url)!;
+            const providerRequest = parseProviderRequest(image.provider_request);
+            return {
+              ...image,
+              id: newId(image.id),
+              project_id: newProjectId,
+              image_url: imageUrl,
+              storage_path: getPathFromStorageUrl(imageUrl),
+              thumbnail_url: remap(image.thumbnail_url),
+              preview_url: remap(image.preview_url),
+              input_image_urls: remapAll(image.input_image_urls),
+              provider_request: providerRequest
+                ? (mapProviderRequestUrls(providerRequest, (url) => remap(url)!) as unknown as Json)
+                : image.provider_request ?? null,
+              comparison_group_id: image.comparison_group_id ? newId(image.comparison_group_id) : null,
+              parent_image_ids: (image.parent_image_ids || [])
+                .filter((parentId) => exportedImageIds.has(parentId))
+                .map(newId),
+            };
+          })
+        ),
+        "generated images"
+      );
+    }
+
+    if (manifest.referenceImages?.length) {
+      await insertRows(
+        supabase.from("reference_images").insert(
+          manifest.referenceImages.map((image) => ({
+            ...image,
+            id: newId(image.id),
+            project_id: newProjectId,
+            url: remap(image.url)!,
+          }))
+        ),
+        "reference images"
+      );
+    }
+
+    if (manifest.videoFlows?.length) {
+      await insertRows(
+        supabase.from("video_flows").insert(
+          manifest.videoFlows.map((flow) => ({
+            ...flow,
+            id: newId(flow.id),
+            project_id: newProjectId,
+            before_image_url: remap(flow.before_image_url)!,
+            after_image_url: remap(flow.after_image_url)!,
+            video_url: remap(flow.video_url),
+            thumbnail_url: remap(flow.thumbnail_url),
+          }))
+        ),
+        "video flows"
+      );
+    }
+
+    // Older archives have no annotations
+    if (manifest.annotations?.length) {
+      await insertRows(
+        supabase.from("annotations").insert(
+          manifest.annotations.map((annotation) => ({
+            ...annotation,
+            id: newId(annotation.id),
+            project_id: newProjectId,
+            source_image_url: remap(annotation.source_image_url),
+            source_image_id:
+              annotation.source_image_id && exportedImageIds.has(annotation.source_image_id)
+                ? newId(annotation.source_image_id)
+                : null,
+            annotated_image_url: remap(annotation.annotated_image_url)!,
+          }))
+        ),
+        "annotations"
+      );
+    }
+  } catch (error) {
+    // Don't leave a half-imported project behind (rows cascade; files are left to the storage GC)
+    await supabase.from("projects").delete().eq("id", newProjectId);
+    throw error;
+  }
+
+  return project;
+}
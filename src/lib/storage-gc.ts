@@ -0,0 +1,195 @@
+/**
+ * Storage garbage collection
+ *
+ * Compares the files in storage with every URL the database still points at:
+ * - orphaned objects: files no row references (deleted projects, abandoned uploads)
+ * - missing objects: generated_images rows whose file is gone
+ *
+ * Only rows whose image URL is hosted by the active backend can be checked;
+ * rows stored on the other backend are reported but never deleted.
+ *
+ * Server only. Run as a dry run first to see what would be removed.
+ */
+
+import { supabase } from "./supabase";
+import {
+  getPathFromStorageUrl,
+  getStorageBackend,
+  getStorageUrlBackend,
+  type StorageBackend,
+  type StorageListEntry,
+} from "./storage";
+import { getServerStorage } from "./storage-server";
+import { parseProviderRequest } from "./image-models";
+
+// Files younger than this are left alone - they may belong to a job still in flight
+export const DEFAULT_GC_MIN_AGE_HOURS = 24;
+
+const PAGE_SIZE = 1000;
+const DELETE_BATCH_SIZE = 100;
+
+export type StorageGcOptions = {
+  dryRun?: boolean;
+  minAgeHours?: number;
+};
+
+export type StorageGcReport = {
+  dryRun: boolean;
+  backend: StorageBackend;
+  scannedObjects: number;
+  referencedPaths: number;
+  skippedRecent: number;
+  orphanedObjects: StorageListEntry[];
+  orphanedBytes: number;
+  missingObjectRows: { id: string; storagePath: string }[];
+  // Rows stored on the other backend - not checked, never deleted
+  otherBackendRows: { id: string; backend: StorageBackend; storagePath: string }[];
+  deletedObjects: number;
+  deletedRows: number;
+};
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+// Supabase caps selects at 1000 rows - page through the whole table
+async function fetchAllRows<T>(fetchPage: (from: number, to: number) => PageResult<T>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to scan references: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Every storage path referenced anywhere in the database
+async function collectReferencedPaths(): Promise<{
+  paths: Set<string>;
+  generatedImages: { id: string; created_at: string; backend: StorageBackend; storagePath: string }[];
+}> {
+  const urls: (string | null)[] = [];
+  const paths = new Set<string>();
+
+  const generatedImages = await fetchAllRows((from, to) =>
+    supabase.from("generated_images").select("id, created_at, image_url, storage_path, thumbnail_url, preview_url, input_image_urls, provider_request").range(from, to)
+  );
+  const referenceImages = await fetchAllRows((from, to) =>
+    supabase.from("reference_images").select("url").range(from, to)
+  );
+  const videoFlows = await fetchAllRows((from, to) =>
+    supabase.from("video_flows").select("before_image_url, after_image_url, video_url, thumbnail_url").range(from, to)
+  );
+  const rooms = await fetchAllRows((from, to) =>
+    supabase.from("rooms").select("thumbnail_url").range(from, to)
+  );
+  const roomDesigns = await fetchAllRows((from, to) =>
+    supabase.from("room_designs").select("reference_image_urls, before_image_url, rendered_image_url").range(from, to)
+  );
+  const annotations = await fetchAllRows((from, to) =>
+    supabase.from("annotations").select("source_image_url, annotated_image_url").range(from, to)
+  );
+
+  for (const image of generatedImages) {
+    if (image.storage_path) paths.add(image.storage_path);
+    urls.push(image.image_url, image.thumbnail_url, image.preview_url, ...(image.input_image_urls || []));
+    // The edit-region mask is only referenced from the stored request
+    urls.push(parseProviderRequest(image.provider_request)?.maskUrl || null);
+  }
+  urls.push(...referenceImages.map((image) => image.url));
+  for (const flow of videoFlows) {
+    urls.push(flow.before_image_url, flow.after_image_url, flow.video_url, flow.thumbnail_url);
+  }
+  urls.push(...rooms.map((room) => room.thumbnail_url));
+  for (const design of roomDesigns) {
+    urls.push(design.before_image_url, design.rendered_image_url, ...(design.reference_image_urls || []));
+  }
+  for (const annotation of annotations) {
+    urls.push(annotation.source_image_url, annotation.annotated_image_url);
+  }
+
+  for (const url of urls) {
+    const path = url ? getPathFromStorageUrl(url) : null;
+    if (path) paths.add(path);
+  }
+
+  return {
+    paths,
+    // Provider URLs and data URLs were never stored, so there is nothing to check
+    generatedImages: generatedImages.flatMap((image) => {
+      const backend = getStorageUrlBackend(image.image_url);
+      const storagePath = image.storage_path || getPathFromStorageUrl(image.image_url);
+      return backend && storagePath
+        ? [{ id: image.id, created_at: image.created_at, backend, storagePath }]
+        : [];
+    }),
+  };
+}
+
+/**
+ * Find (and unless dryRun, delete) orphaned objects and rows whose object
+ * is missing. dryRun defaults to true.
+ */
+export async function collectStorageGarbage(options: StorageGcOptions = {}): Promise<StorageGcReport> {
+  const storage = getServerStorage();
+  if (!storage) {
+    throw new Error("Storage is not configured. Set SUPABASE_SERVICE_ROLE_KEY or use the local backend.");
+  }
+
+  const dryRun = options.dryRun ?? true;
+  const minAgeHours = options.minAgeHours ?? DEFAULT_GC_MIN_AGE_HOURS;
+  const cutoff = Date.now() - minAgeHours * 60 * 60 * 1000;
+  const isRecent = (timestamp?: string) => !!timestamp && new Date(timestamp).getTime() > cutoff;
+
+  const objects = await storage.list();
+  const objectPaths = new Set(objects.map((object) => object.path));
+  const { paths: referencedPaths, generatedImages } = await collectReferencedPaths();
+
+  const unreferenced = objects.filter((object) => !referencedPaths.has(object.path));
+  const orphanedObjects = unreferenced.filter((object) => !isRecent(object.updatedAt));
+  const backend = getStorageBackend();
+  const missingObjectRows = generatedImages
+    .filter((image) => image.backend === backend)
+    .filter((image) => !objectPaths.has(image.storagePath) && !isRecent(image.created_at))
+    .map(({ id, storagePath }) => ({ id, storagePath }));
+  const otherBackendRows = generatedImages
+    .filter((image) => image.backend !== backend)
+    .map(({ id, backend, storagePath }) => ({ id, backend, storagePath }));
+
+  let deletedObjects = 0;
+  let deletedRows = 0;
+
+  if (!dryRun) {
+    for (const batch of chunk(orphanedObjects.map((object) => object.path), DELETE_BATCH_SIZE)) {
+      await storage.delete(batch);
+      deletedObjects += batch.length;
+    }
+
+    for (const batch of chunk(missingObjectRows.map((row) => row.id), DELETE_BATCH_SIZE)) {
+      const { error } = await supabase.from("generated_images").delete().in("id", batch);
+      if (error) throw new Error(`Failed to delete rows: ${error.message}`);
+      deletedRows += batch.length;
+    }
+  }
+
+  return {
+    dryRun,
+    backend,
+    scannedObjects: objects.length,
+    referencedPaths: referencedPaths.size,
+    skippedRecent: unreferenced.length - orphanedObjects.length,
+    orphanedObjects,
+    orphanedBytes: orphanedObjects.reduce((total, object) => total + (object.size || 0), 0),
+    missingObjectRows,
+    otherBackendRows,
+    deletedObjects,
+    deletedRows,
+  };
+}
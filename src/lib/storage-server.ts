@@ -0,0 +1,156 @@
+/**
+ * Server-side storage
+ *
+ * The local-disk backend and the storage instance used by API routes.
+ * Only import from server code - this module touches the filesystem and
+ * reads the Supabase service role key.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createClient } from "@supabase/supabase-js";
+import {
+  createSupabaseStorage,
+  getStorageBackend,
+  LOCAL_STORAGE_ROUTE,
+  type ImageStorage,
+  type StorageListEntry,
+} from "./storage";
+
+export function getLocalStorageRoot(): string {
+  return process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), ".data", "storage");
+}
+
+// Resolve a storage path inside the root, rejecting anything that escapes it
+export function resolveLocalPath(root: string, storagePath: string): string {
+  const resolved = path.resolve(root, storagePath);
+  if (!storagePath || (resolved !== root && !resolved.startsWith(root + path.sep))) {
+    throw new Error(`Invalid storage path: ${storagePath}`);
+  }
+  return resolved;
+}
+
+async function toBuffer(data: Blob | ArrayBuffer | Uint8Array): Promise<Buffer> {
+  if (data instanceof Blob) return Buffer.from(await data.arrayBuffer());
+  if (data instanceof ArrayBuffer) return Buffer.from(data);
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+export function createLocalStorage(root = getLocalStorageRoot()): ImageStorage {
+  const rootDir = path.resolve(root);
+  const getPublicUrl = (storagePath: string) =>
+    `${LOCAL_STORAGE_ROUTE}/${storagePath.split("/").map(encodeURIComponent).join("/")}`;
+
+  const walk = async (dir: string): Promise<StorageListEntry[]> => {
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    const entries: StorageListEntry[] = [];
+    for (const name of names) {
+      const fullPath = path.join(dir, name);
+      const stat = await fs.stat(fullPath);
+      if (stat.isDirectory()) {
+        entries.push(...(await walk(fullPath)));
+      } else {
+        entries.push({
+          path: path.relative(rootDir, fullPath).split(path.sep).join("/"),
+          size: stat.size,
+          updatedAt: stat.mtime.toISOString(),
+        });
+      }
+    }
+    return entries;
+  };
+
+  return {
+    async put(storagePath, data) {
+      const filePath = resolveLocalPath(rootDir, storagePath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, await toBuffer(data));
+      return { path: storagePath, url: getPublicUrl(storagePath) };
+    },
+
+    async get(storagePath) {
+      try {
+        return await fs.readFile(resolveLocalPath(rootDir, storagePath));
+      } catch {
+        return null;
+      }
+    },
+
+    async exists(storagePath) {
+      try {
+        await fs.access(resolveLocalPath(rootDir, storagePath));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    getPublicUrl,
+
+    async delete(paths) {
+      await Promise.all(
+        paths.map((storagePath) =>
+          fs.rm(resolveLocalPath(rootDir, storagePath), { force: true })
+        )
+      );
+    },
+
+    async list(prefix = "") {
+      const dir = prefix ? resolveLocalPath(rootDir, prefix.replace(/\/$/, "")) : rootDir;
+      return walk(dir);
+    },
+  };
+}
+
+let serverStorage: ImageStorage | null | undefined;
+
+/**
+ * Storage used by API routes: the local disk when NEXT_PUBLIC_STORAGE_BACKEND
+ * is "local", otherwise Supabase with the service role key (null if that
+ * isn't configured, in which case callers keep provider URLs).
+ */
+export function getServerStorage(): ImageStorage | null {
+  if (serverStorage !== undefined) return serverStorage;
+
+  if (getStorageBackend() === "local") {
+    serverStorage = createLocalStorage();
+  } else if (process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    serverStorage = createSupabaseStorage(
+      createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    );
+  } else {
+    serverStorage = null;
+  }
+  return serverStorage;
+}
+
+// Image types the browser may upload to the local backend, with their file
+// extension. SVG is left out on purpose: it can carry scripts.
+export const UPLOAD_CONTENT_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+// Content type for a stored file, from its extension
+export function getContentType(storagePath: string): string {
+  const extension = path.extname(storagePath).slice(1).toLowerCase();
+  const types: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    webp: "image/webp",
+    gif: "image/gif",
+    mp4: "video/mp4",
+    json: "application/json",
+    zip: "application/zip",
+  };
+  return types[extension] || "application/octet-stream";
+}
@@ -0,0 +1,199 @@
+/**
+ * Storage
+ *
+ * One interface for every file the app stores (generated images, inputs,
+ * annotations, video frames). Two backends:
+ * - supabase: the `generated-images` bucket (default)
+ * - local: files on the server's disk, served by /api/storage/[...path]
+ *
+ * Select with NEXT_PUBLIC_STORAGE_BACKEND=local. This module is shared by
+ * client and server code; the disk implementation lives in
+ * `storage-server.ts`, and the browser reaches it over HTTP. Over HTTP the
+ * browser can only read files and upload new images; writing to a chosen
+ * path and deleting stay with server code.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type StorageBackend = "supabase" | "local";
+
+export type StoredObject = {
+  path: string;
+  url: string;
+};
+
+export type StorageListEntry = {
+  path: string;
+  size?: number;
+  updatedAt?: string;
+};
+
+export type StorageData = Blob | ArrayBuffer | Uint8Array;
+
+export interface ImageStorage {
+  put(path: string, data: StorageData, contentType: string): Promise<StoredObject>;
+  get(path: string): Promise<Uint8Array | null>;
+  exists(path: string): Promise<boolean>;
+  getPublicUrl(path: string): string;
+  delete(paths: string[]): Promise<void>;
+  list(prefix?: string): Promise<StorageListEntry[]>;
+}
+
+export const STORAGE_BUCKET = "generated-images";
+
+// Route that serves (and accepts image uploads for) the local backend
+export const LOCAL_STORAGE_ROUTE = "/api/storage";
+
+export function getStorageBackend(): StorageBackend {
+  return process.env.NEXT_PUBLIC_STORAGE_BACKEND === "local" ? "local" : "supabase";
+}
+
+// Build a unique object path like `generated/1712345678-<uuid>.png`
+export function createStoragePath(prefix: string, extension: string): string {
+  return `${prefix}/${Date.now()}-${crypto.randomUUID()}.${extension}`;
+}
+
+// Which backend hosts a public URL, or null for URLs we don't host
+export function getStorageUrlBackend(url: string): StorageBackend | null {
+  if (url.includes(`/storage/v1/object/public/${STORAGE_BUCKET}/`)) return "supabase";
+  if (url.startsWith(`${LOCAL_STORAGE_ROUTE}/`)) return "local";
+  return null;
+}
+
+/**
+ * Recover the storage path from a public URL produced by either backend.
+ * Returns null for URLs we don't host (provider URLs, data URLs).
+ */
+export function getPathFromStorageUrl(url: string): string | null {
+  const supabaseMarker = `/storage/v1/object/public/${STORAGE_BUCKET}/`;
+  const supabaseIndex = url.indexOf(supabaseMarker);
+  if (supabaseIndex !== -1) {
+    return decodeURIComponent(url.slice(supabaseIndex + supabaseMarker.length).split("?")[0]);
+  }
+
+  const localMarker = `${LOCAL_STORAGE_ROUTE}/`;
+  if (url.startsWith(localMarker)) {
+    return decodeURIComponent(url.slice(localMarker.length).split("?")[0]);
+  }
+
+  return null;
+}
+
+export function createSupabaseStorage(
+  client: SupabaseClient,
+  bucket = STORAGE_BUCKET
+): ImageStorage {
+  const getPublicUrl = (path: string) => client.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+
+  // Supabase lists one folder at a time - walk sub-folders recursively
+  const listFolder = async (prefix: string): Promise<StorageListEntry[]> => {
+    const entries: StorageListEntry[] = [];
+    const pageSize = 1000;
+
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await client.storage
+        .from(bucket)
+        .list(prefix, { limit: pageSize, offset });
+      if (error) throw new Error(`Failed to list storage: ${error.message}`);
+
+      for (const item of data || []) {
+        const path = prefix ? `${prefix}/${item.name}` : item.name;
+        if (item.id === null) {
+          entries.push(...(await listFolder(path)));
+        } else {
+          entries.push({
+            path,
+            size: (item.metadata as { size?: number } | null)?.size,
+            updatedAt: item.updated_at,
+          });
+        }
+      }
+
+      if (!data || data.length < pageSize) break;
+    }
+
+    return entries;
+  };
+
+  return {
+    async put(path, data, contentType) {
+      const { error } = await client.storage.from(bucket).upload(path, data, {
+        contentType,
+        cacheControl: "3600",
+        upsert: false,
+      });
+      if (error) throw new Error(`Failed to upload ${path}: ${error.message}`);
+      return { path, url: getPublicUrl(path) };
+    },
+
+    async get(path) {
+      const { data, error } = await client.storage.from(bucket).download(path);
+      if (error || !data) return null;
+      return new Uint8Array(await data.arrayBuffer());
+    },
+
+    async exists(path) {
+      const { data } = await client.storage.from(bucket).exists(path);
+      return data;
+    },
+
+    getPublicUrl,
+
+    async delete(paths) {
+      if (paths.length === 0) return;
+      const { error } = await client.storage.from(bucket).remove(paths);
+      if (error) throw new Error(`Failed to delete from storage: ${error.message}`);
+    },
+
+    list: (prefix = "") => listFolder(prefix.replace(/\/$/, "")),
+  };
+}
+
+/**
+ * Browser-side client for the local backend. Every call goes through
+ * /api/storage, which owns the files on disk. Uploads keep only the folder of
+ * `path` - the server picks a fresh file name - and deletes are left to the
+ * storage GC, which removes files no row references.
+ */
+export function createHttpStorage(baseUrl = LOCAL_STORAGE_ROUTE): ImageStorage {
+  const getPublicUrl = (path: string) =>
+    `${baseUrl}/${path.split("/").map(encodeURIComponent).join("/")}`;
+
+  return {
+    async put(path, data, contentType) {
+      const prefix = path.split("/").slice(0, -1).join("/") || "uploads";
+      const response = await fetch(`${baseUrl}?prefix=${encodeURIComponent(prefix)}`, {
+        method: "POST",
+        headers: { "Content-Type": contentType },
+        body: data instanceof Blob ? data : new Blob([data as BlobPart], { type: contentType }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `Failed to upload ${path}`);
+      return result as StoredObject;
+    },
+
+    async get(path) {
+      const response = await fetch(getPublicUrl(path));
+      if (!response.ok) return null;
+      return new Uint8Array(await response.arrayBuffer());
+    },
+
+    async exists(path) {
+      const response = await fetch(getPublicUrl(path), { method: "HEAD" });
+      return response.ok;
+    },
+
+    getPublicUrl,
+
+    async delete() {
+      // Not exposed over HTTP; POST /api/storage-gc removes unreferenced files
+    },
+
+    async list(prefix = "") {
+      const response = await fetch(`${baseUrl}?prefix=${encodeURIComponent(prefix)}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to list storage");
+      return result as StorageListEntry[];
+    },
+  };
+}
@@ -1,5 +1,14 @@
 import { createClient } from "@supabase/supabase-js";
-import type { Database, PromptCategory, PromptTemplate } from "./database.types";
+import type { Annotation, Database, GenerationJob, Json, PromptCategory, PromptTemplate, UsageEvent, UsageSummaryRow } from "./database.types";
+import type { AnnotationDocument } from "./annotations";
+import type { ProviderRequest } from "./image-models";
+import {
+  createHttpStorage,
+  createSupabaseStorage,
+  getPathFromStorageUrl,
+  getStorageBackend,
+  type ImageStorage,
+} from "./storage";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabasePublicKey =
@@ -17,6 +26,18 @@ export const supabase = createClient<Database>(
   supabasePublicKey || ""
 );
 
+let clientStorage: ImageStorage | null = null;
+
+// Storage for browser code - Supabase directly, or the local backend over /api/storage
+export function getClientStorage(): ImageStorage {
+  if (!clientStorage) {
+    clientStorage = getStorageBackend() === "local"
+      ? createHttpStorage()
+      : createSupabaseStorage(supabase);
+  }
+  return clientStorage;
+}
+
 // ============================================
 // PROJECT FUNCTIONS
 // ============================================
@@ -115,11 +136,27 @@ export async function deleteProject(id: string): Promise<void> {
     throw new Error("Supabase is not configured.");
   }
 
+  // Collect file paths first - the rows go with the project (ON DELETE CASCADE)
+  const { data: images } = await supabase
+    .from("generated_images")
+    .select("image_url, storage_path, thumbnail_url, preview_url")
+    .eq("project_id", id);
+
   const { error } = await supabase.from("projects").delete().eq("id", id);
 
   if (error) {
     throw new Error(`Failed to delete project: ${error.message}`);
   }
+
+  const paths = (images || []).flatMap(getGeneratedImagePaths);
+  if (paths.length > 0) {
+    try {
+      await getClientStorage().delete(paths);
+    } catch (e) {
+      // Storage deletion is best-effort; the storage GC picks up anything left
+      console.warn("Could not delete project files from storage:", e);
+    }
+  }
 }
 
 // ============================================
@@ -209,6 +246,17 @@ export async function saveGeneratedImage(data: {
   };
   inputImageUrls?: string[];
   model?: string;
+  parentImageIds?: string[];
+  // Defaults to the path parsed from imageUrl when we host the file
+  storagePath?: string | null;
+  thumbnailUrl?: string | null;
+  previewUrl?: string | null;
+  // Seed the provider used, and the exact call for re-runs
+  seed?: number | null;
+  providerRequest?: ProviderRequest | null;
+  // Model comparison run this image belongs to, and how long its model took
+  comparisonGroupId?: string | null;
+  latencyMs?: number | null;
 }): Promise<GeneratedImage> {
   if (!supabaseUrl || !supabasePublicKey) {
     throw new Error(
@@ -228,6 +276,14 @@ export async function saveGeneratedImage(data: {
       safety_filter: data.settings?.safetyFilter || "moderate",
       input_image_urls: data.inputImageUrls || [],
       model: data.model || null,
+      parent_image_ids: data.parentImageIds || [],
+      storage_path: data.storagePath ?? getPathFromStorageUrl(data.imageUrl),
+      thumbnail_url: data.thumbnailUrl || null,
+      preview_url: data.previewUrl || null,
+      seed: data.seed ?? null,
+      provider_request: (data.providerRequest as unknown as Json) ?? null,
+      comparison_group_id: data.comparisonGroupId || null,
+      latency_ms: data.latencyMs ?? null,
     })
     .select()
     .single();
@@ -250,6 +306,15 @@ export type GeneratedImage = {
   safety_filter: string;
   input_image_urls: string[];
   model: string | null;
+  parent_image_ids: string[];
+  storage_path: string | null;
+  thumbnail_url: string | null;
+  preview_url: string | null;
+  seed: number | null;
+  provider_request: Json | null;
+  comparison_group_id: string | null;
+  latency_ms: number | null;
+  is_comparison_winner: boolean;
 };
 
 export async function getGeneratedImages(projectId?: string | null, limit = 50): Promise<GeneratedImage[]> {
@@ -272,11 +337,82 @@ export async function getGeneratedImages(projectId?: string | null, limit = 50):
   return (data || []) as GeneratedImage[];
 }
 
+export async function getGeneratedImage(id: string): Promise<GeneratedImage | null> {
+  const { data, error } = await supabase
+    .from("generated_images")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") return null; // Not found
+    throw error;
+  }
+  return data as GeneratedImage;
+}
+
+// Every image from one model comparison run, oldest first
+export async function getComparisonImages(groupId: string): Promise<GeneratedImage[]> {
+  const { data, error } = await supabase
+    .from("generated_images")
+    .select("*")
+    .eq("comparison_group_id", groupId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Mark one image as the comparison's winner (clearing any previous pick in the same statement)
+export async function setComparisonWinner(groupId: string, imageId: string): Promise<void> {
+  const { error } = await supabase.rpc("set_comparison_winner", {
+    group_id: groupId,
+    image_id: imageId,
+  });
+  if (error) throw error;
+}
+
+// Resolve image URLs back to generated_images rows (used to record lineage)
+export async function findGeneratedImageIdsByUrl(urls: string[]): Promise<string[]> {
+  // Data URLs are never stored; everything else may be a Supabase or local storage URL
+  const storedUrls = urls.filter((url) => !url.startsWith("data:"));
+  if (storedUrls.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("generated_images")
+    .select("id, image_url")
+    .in("image_url", storedUrls);
+
+  if (error) throw error;
+
+  // Keep the input order so the first parent is the primary one
+  const ids = storedUrls
+    .map((url) => data?.find((row) => row.image_url === url)?.id)
+    .filter((id): id is string => !!id);
+  return [...new Set(ids)];
+}
+
+// Storage paths owned by a generated image: the original plus its derivatives
+function getGeneratedImagePaths(image: {
+  image_url: string;
+  storage_path: string | null;
+  thumbnail_url: string | null;
+  preview_url: string | null;
+}): string[] {
+  // Older rows predate storage_path - fall back to parsing the URL
+  const paths = [
+    image.storage_path || getPathFromStorageUrl(image.image_url),
+    image.thumbnail_url && getPathFromStorageUrl(image.thumbnail_url),
+    image.preview_url && getPathFromStorageUrl(image.preview_url),
+  ];
+  return paths.filter((path): path is string => !!path);
+}
+
 export async function deleteGeneratedImage(id: string) {
-  // First get the image to extract the filename from URL
+  // First get the row so we know which files it owns
   const { data: image, error: fetchError } = await supabase
     .from("generated_images")
-    .select("image_url")
+    .select("image_url, storage_path, thumbnail_url, preview_url")
     .eq("id", id)
     .single();
 
@@ -290,22 +426,22 @@ export async function deleteGeneratedImage(id: string) {
 
   if (error) throw error;
 
-  // Try to delete from storage (extract filename from URL)
-  if (image?.image_url) {
-    try {
-      const url = new URL(image.image_url);
-      const pathParts = url.pathname.split("/");
-      const fileName = pathParts[pathParts.length - 1];
-      
-      if (fileName) {
-        await supabase.storage
-          .from("generated-images")
-          .remove([fileName]);
-      }
-    } catch (e) {
-      // Storage deletion is best-effort, don't fail if it doesn't work
-      console.warn("Could not delete from storage:", e);
+  const paths = image ? getGeneratedImagePaths(image) : [];
+  if (paths.length === 0) return;
+
+  try {
+    // Keep the files if another row still points at the same original
+    const { count } = await supabase
+      .from("generated_images")
+      .select("id", { count: "exact", head: true })
+      .eq("storage_path", paths[0]);
+
+    if (!count) {
+      await getClientStorage().delete(paths);
     }
+  } catch (e) {
+    // Storage deletion is best-effort, don't fail if it doesn't work
+    console.warn("Could not delete from storage:", e);
   }
 }
 
@@ -380,12 +516,14 @@ export type VideoFlow = {
   duration: string;
   resolution: string;
   status: "pending" | "generating" | "completed" | "failed";
+  thumbnail_url: string | null;
 };
 
 export async function createVideoFlow(data: {
   projectId?: string | null;
   beforeImageUrl: string;
   afterImageUrl: string;
+  thumbnailUrl?: string | null;
   prompt: string;
   videoPrompt?: string;
   duration?: string;
@@ -397,6 +535,7 @@ export async function createVideoFlow(data: {
       project_id: data.projectId || null,
       before_image_url: data.beforeImageUrl,
       after_image_url: data.afterImageUrl,
+      thumbnail_url: data.thumbnailUrl || null,
       prompt: data.prompt,
       video_prompt: data.videoPrompt || "make a timelapse of this construction, camera stays stationary",
       duration: data.duration || "8s",
@@ -462,3 +601,282 @@ export async function deleteVideoFlow(id: string) {
 
   if (error) throw error;
 }
+
+// ============================================
+// GENERATION JOB FUNCTIONS
+// ============================================
+
+export type { GenerationJob };
+
+export async function createGenerationJob(data: {
+  projectId?: string | null;
+  model: string;
+  prompt: string;
+  request: Json;
+}) {
+  const { data: job, error } = await supabase
+    .from("generation_jobs")
+    .insert({
+      project_id: data.projectId || null,
+      model: data.model,
+      prompt: data.prompt,
+      request: data.request,
+      status: "queued",
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create generation job: ${error.message} (code: ${error.code})`);
+  }
+  return job as GenerationJob;
+}
+
+export async function getGenerationJob(id: string): Promise<GenerationJob | null> {
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as GenerationJob | null;
+}
+
+export async function updateGenerationJob(
+  id: string,
+  data: {
+    status?: GenerationJob["status"];
+    result?: Json;
+    error?: string | null;
+    generatedImageIds?: string[];
+    startedAt?: string;
+    completedAt?: string;
+  },
+  // Only update a job that is still in one of these states; returns null otherwise
+  fromStatuses?: GenerationJob["status"][]
+) {
+  let query = supabase
+    .from("generation_jobs")
+    .update({
+      status: data.status,
+      result: data.result,
+      error: data.error,
+      generated_image_ids: data.generatedImageIds,
+      started_at: data.startedAt,
+      completed_at: data.completedAt,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id);
+  if (fromStatuses) {
+    query = query.in("status", fromStatuses);
+  }
+
+  const { data: job, error } = await query.select().maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update generation job: ${error.message} (code: ${error.code})`);
+  }
+  return job as GenerationJob | null;
+}
+
+export async function getGenerationJobs(
+  projectId?: string | null,
+  options: { statuses?: GenerationJob["status"][]; since?: string; limit?: number } = {}
+) {
+  let query = supabase
+    .from("generation_jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(options.limit || 50);
+
+  if (projectId) {
+    query = query.eq("project_id", projectId);
+  } else if (projectId === null) {
+    query = query.is("project_id", null);
+  }
+  if (options.statuses?.length) {
+    query = query.in("status", options.statuses);
+  }
+  if (options.since) {
+    query = query.gte("created_at", options.since);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data as GenerationJob[];
+}
+
+// Cancel a job that hasn't finished yet. Returns null if it already finished.
+export async function cancelGenerationJob(id: string) {
+  const { data: job, error } = await supabase
+    .from("generation_jobs")
+    .update({
+      status: "cancelled",
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .in("status", ["queued", "running"])
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return job as GenerationJob | null;
+}
+
+export async function deleteGenerationJob(id: string) {
+  const { error } = await supabase
+    .from("generation_jobs")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+// Delete finished jobs created before `before` - their images live on in generated_images
+export async function deleteFinishedGenerationJobs(before: string) {
+  const { error } = await supabase
+    .from("generation_jobs")
+    .delete()
+    .in("status", ["completed", "failed", "cancelled"])
+    .lt("created_at", before);
+
+  if (error) throw error;
+}
+
+// ============================================
+// ANNOTATION FUNCTIONS
+// ============================================
+
+export async function saveAnnotation(data: {
+  projectId?: string | null;
+  sourceImageUrl?: string | null;
+  sourceImageId?: string | null;
+  annotatedImageUrl: string;
+  document: AnnotationDocument;
+}): Promise<Annotation> {
+  const { data: annotation, error } = await supabase
+    .from("annotations")
+    .insert({
+      project_id: data.projectId || null,
+      source_image_url: data.sourceImageUrl || null,
+      source_image_id: data.sourceImageId || null,
+      annotated_image_url: data.annotatedImageUrl,
+      format_version: data.document.version,
+      data: data.document as unknown as Json,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save annotation: ${error.message} (code: ${error.code})`);
+  }
+  return annotation;
+}
+
+/**
+ * Latest annotation layer for an image - either the annotated copy itself
+ * or the image it was drawn on.
+ */
+export async function getLatestAnnotation(imageUrl: string): Promise<Annotation | null> {
+  if (imageUrl.startsWith("data:")) return null;
+
+  for (const column of ["annotated_image_url", "source_image_url"] as const) {
+    const { data, error } = await supabase
+      .from("annotations")
+      .select("*")
+      .eq(column, imageUrl)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data;
+  }
+  return null;
+}
+
+// ============================================
+// NORMALIZED INPUT FUNCTIONS
+// ============================================
+
+// Normalized input path recorded for a source key, or null if it hasn't been seen
+export async function getNormalizedInputPath(sourceKey: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("normalized_inputs")
+    .select("input_path")
+    .eq("source_key", sourceKey)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.input_path ?? null;
+}
+
+export async function saveNormalizedInputPath(sourceKey: string, inputPath: string) {
+  const { error } = await supabase
+    .from("normalized_inputs")
+    .upsert({ source_key: sourceKey, input_path: inputPath }, { onConflict: "source_key" });
+
+  if (error) throw error;
+}
+
+// ============================================
+// USAGE FUNCTIONS
+// ============================================
+
+export async function saveUsageEvent(data: {
+  projectId?: string | null;
+  route: string;
+  provider: string;
+  model: string;
+  resolution?: string | null;
+  imageCount?: number;
+  videoSeconds?: number | null;
+  durationMs?: number | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  estimatedCostUsd: number;
+}): Promise<UsageEvent> {
+  const { data: event, error } = await supabase
+    .from("usage_events")
+    .insert({
+      project_id: data.projectId || null,
+      route: data.route,
+      provider: data.provider,
+      model: data.model,
+      resolution: data.resolution || null,
+      image_count: data.imageCount ?? 0,
+      video_seconds: data.videoSeconds ?? null,
+      duration_ms: data.durationMs ?? null,
+      input_tokens: data.inputTokens ?? null,
+      output_tokens: data.outputTokens ?? null,
+      estimated_cost_usd: data.estimatedCostUsd,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save usage event: ${error.message} (code: ${error.code})`);
+  }
+  return event;
+}
+
+// Usage totals per day (in `timeZone`), project and model since `since`, newest day first.
+// Summed in the database; the groups are paged so none are cut off.
+export async function getUsageSummary(since: string, timeZone = "UTC"): Promise<UsageSummaryRow[]> {
+  const rows: UsageSummaryRow[] = [];
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .rpc("get_usage_summary", { since, time_zone: timeZone })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize) break;
+  }
+  return rows;
+}
@@ -0,0 +1,49 @@
+/**
+ * Image upscaling
+ *
+ * Shared constants and the client helper for /api/upscale. The route runs
+ * Real-ESRGAN on FAL, or a sharp Lanczos resize when providers are offline,
+ * and saves the result as a child of the source image.
+ */
+
+import type { GeneratedImage } from "./database.types";
+
+export const UPSCALE_FACTORS = [2, 4] as const;
+export type UpscaleFactor = (typeof UPSCALE_FACTORS)[number];
+
+// Longest edge an upscaled image may have
+export const MAX_UPSCALED_DIMENSION = 8192;
+
+export type UpscaleMethod = "esrgan" | "lanczos";
+
+export type UpscaleResult = {
+  image: GeneratedImage;
+  method: UpscaleMethod;
+  width: number;
+  height: number;
+};
+
+export function isUpscaleFactor(value: unknown): value is UpscaleFactor {
+  return UPSCALE_FACTORS.includes(value as UpscaleFactor);
+}
+
+/**
+ * Upscale a generated image (by row id, or by URL for images without a row)
+ * and return the new generated_images row
+ */
+export async function requestUpscale(
+  source: { imageId?: string; imageUrl?: string; projectId?: string | null },
+  factor: UpscaleFactor
+): Promise<UpscaleResult> {
+  const response = await fetch("/api/upscale", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...source, factor }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to upscale image");
+  }
+  return data;
+}
@@ -0,0 +1,180 @@
+/**
+ * Usage metering
+ *
+ * Routes that call a paid provider (FAL, Replicate, OpenAI) record a
+ * usage_events row per call: what was asked for, the tokens OpenAI reported
+ * and an estimated cost. Prices are estimates of the providers' list prices
+ * in USD. Set USAGE_PRICES to a JSON object keyed by model to change or add
+ * entries, e.g. `{"google/nano-banana": {"perImage": 0.04}}`.
+ */
+
+import type { ImageProvider } from "./image-models";
+import type { UsageSummaryRow } from "./database.types";
+import { saveUsageEvent } from "./supabase";
+
+export type UsageProvider = ImageProvider | "openai" | "mock";
+
+// API route that made the call
+export type UsageRoute = "generate" | "generate-video" | "designer" | "launch-kit";
+
+export type UsagePrice = {
+  perImage?: number;
+  // Overrides perImage for specific resolutions (e.g. "4K")
+  perImageByResolution?: Record<string, number>;
+  perVideoSecond?: number;
+  perVideoSecondWithAudio?: number;
+  perMillionInputTokens?: number;
+  perMillionOutputTokens?: number;
+};
+
+// Keyed by FAL endpoint, Replicate model ref or OpenAI model
+export const DEFAULT_USAGE_PRICES: Record<string, UsagePrice> = {
+  "fal-ai/nano-banana-pro/edit": { perImage: 0.15, perImageByResolution: { "4K": 0.3 } },
+  "fal-ai/bytedance/seedream/v4.5/edit": { perImage: 0.04 },
+  "fal-ai/bytedance/seedream/v4.5/text-to-image": { perImage: 0.04 },
+  "fal-ai/flux-pro/v1/fill": { perImage: 0.05 },
+  "fal-ai/veo3.1/fast/first-last-frame-to-video": { perVideoSecond: 0.1, perVideoSecondWithAudio: 0.15 },
+  "google/nano-banana": { perImage: 0.039 },
+  "gpt-4o-2024-08-06": { perMillionInputTokens: 2.5, perMillionOutputTokens: 10 },
+};
+
+export type UsageMeasurement = {
+  model: string;
+  resolution?: string | null;
+  imageCount?: number;
+  videoSeconds?: number | null;
+  videoAudio?: boolean;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+};
+
+let cachedPrices: Record<string, UsagePrice> | null = null;
+
+// Defaults merged with USAGE_PRICES (read once per server process)
+export function getUsagePrices(): Record<string, UsagePrice> {
+  if (cachedPrices) return cachedPrices;
+
+  let overrides: Record<string, UsagePrice> = {};
+  if (process.env.USAGE_PRICES) {
+    try {
+      const parsed = JSON.parse(process.env.USAGE_PRICES);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        overrides = parsed;
+      } else {
+        console.warn("USAGE_PRICES must be a JSON object - using default prices");
+      }
+    } catch {
+      console.warn("USAGE_PRICES is not valid JSON - using default prices");
+    }
+  }
+
+  cachedPrices = { ...DEFAULT_USAGE_PRICES, ...overrides };
+  return cachedPrices;
+}
+
+// Estimated cost in USD; models missing from the price table count as 0
+export function estimateUsageCost(
+  usage: UsageMeasurement,
+  prices: Record<string, UsagePrice> = getUsagePrices()
+): number {
+  const price = prices[usage.model];
+  if (!price) return 0;
+
+  const perImage =
+    (usage.resolution ? price.perImageByResolution?.[usage.resolution] : undefined) ?? price.perImage ?? 0;
+  const perVideoSecond =
+    (usage.videoAudio ? price.perVideoSecondWithAudio : undefined) ?? price.perVideoSecond ?? 0;
+
+  return (
+    (usage.imageCount ?? 0) * perImage +
+    (usage.videoSeconds ?? 0) * perVideoSecond +
+    ((usage.inputTokens ?? 0) / 1_000_000) * (price.perMillionInputTokens ?? 0) +
+    ((usage.outputTokens ?? 0) / 1_000_000) * (price.perMillionOutputTokens ?? 0)
+  );
+}
+
+// Token counts from an OpenAI Chat Completions response body
+export function parseOpenAIUsage(response: unknown): { inputTokens: number | null; outputTokens: number | null } {
+  const usage = (response as { usage?: { prompt_tokens?: unknown; completion_tokens?: unknown } } | null)?.usage;
+  return {
+    inputTokens: typeof usage?.prompt_tokens === "number" ? usage.prompt_tokens : null,
+    outputTokens: typeof usage?.completion_tokens === "number" ? usage.completion_tokens : null,
+  };
+}
+
+/**
+ * Estimate and save one provider call. Metering must never fail the request
+ * it measures, so errors are only logged. Mock calls are recorded at no cost.
+ */
+export async function recordUsage(
+  event: UsageMeasurement & {
+    route: UsageRoute;
+    provider: UsageProvider;
+    projectId?: string | null;
+    durationMs?: number;
+  }
+): Promise<void> {
+  try {
+    await saveUsageEvent({
+      ...event,
+      estimatedCostUsd: event.provider === "mock" ? 0 : estimateUsageCost(event),
+    });
+  } catch (error) {
+    console.warn("Failed to record usage:", error);
+  }
+}
+
+// ============================================
+// Dashboard totals
+// ============================================
+
+export type UsageTotals = {
+  events: number;
+  images: number;
+  videoSeconds: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+function emptyTotals(): UsageTotals {
+  return { events: 0, images: 0, videoSeconds: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+// BIGINT and NUMERIC aggregates can come back as strings
+function addRow(totals: UsageTotals, row: UsageSummaryRow) {
+  totals.events += Number(row.events);
+  totals.images += Number(row.images);
+  totals.videoSeconds += Number(row.video_seconds);
+  totals.inputTokens += Number(row.input_tokens);
+  totals.outputTokens += Number(row.output_tokens);
+  totals.costUsd += Number(row.estimated_cost_usd);
+}
+
+export function sumUsage(rows: UsageSummaryRow[]): UsageTotals {
+  const totals = emptyTotals();
+  for (const row of rows) addRow(totals, row);
+  return totals;
+}
+
+// Totals per key (e.g. project id or day), in first-seen order
+export function groupUsage(
+  rows: UsageSummaryRow[],
+  keyOf: (row: UsageSummaryRow) => string
+): Map<string, UsageTotals> {
+  const groups = new Map<string, UsageTotals>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    let totals = groups.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      groups.set(key, totals);
+    }
+    addRow(totals, row);
+  }
+  return groups;
+}
+
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
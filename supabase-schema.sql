@@ -76,7 +76,16 @@ CREATE TABLE IF NOT EXISTS generated_images (
   output_format TEXT NOT NULL DEFAULT 'png',
   safety_filter TEXT NOT NULL DEFAULT 'block_only_high',
   input_image_urls TEXT[] DEFAULT '{}',
-  model TEXT DEFAULT NULL
+  model TEXT DEFAULT NULL,
+  parent_image_ids UUID[] DEFAULT '{}',
+  storage_path TEXT,
+  thumbnail_url TEXT,
+  preview_url TEXT,
+  seed BIGINT,
+  provider_request JSONB,
+  comparison_group_id UUID,
+  latency_ms INTEGER,
+  is_comparison_winner BOOLEAN NOT NULL DEFAULT FALSE
 );
 
 -- Migration: Add model column if it doesn't exist
@@ -90,6 +99,79 @@ BEGIN
   END IF;
 END $$;
 
+-- Migration: Add lineage column (generated images this one was made from)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'generated_images' AND column_name = 'parent_image_ids'
+  ) THEN
+    ALTER TABLE generated_images ADD COLUMN parent_image_ids UUID[] DEFAULT '{}';
+  END IF;
+END $$;
+
+-- Migration: Add storage path column (object path in the generated-images bucket)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'generated_images' AND column_name = 'storage_path'
+  ) THEN
+    ALTER TABLE generated_images ADD COLUMN storage_path TEXT;
+    -- Backfill from existing public URLs
+    UPDATE generated_images
+    SET storage_path = substring(image_url from '/storage/v1/object/public/generated-images/(.*)$')
+    WHERE storage_path IS NULL;
+  END IF;
+END $$;
+
+-- Migration: Add derivative columns (256px thumbnail, 768px preview - WebP)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'generated_images' AND column_name = 'thumbnail_url'
+  ) THEN
+    ALTER TABLE generated_images ADD COLUMN thumbnail_url TEXT;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'generated_images' AND column_name = 'preview_url'
+  ) THEN
+    ALTER TABLE generated_images ADD COLUMN preview_url TEXT;
+  END IF;
+END $$;
+
+-- Migration: Add reproducibility columns (seed used, exact provider request for re-runs)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'generated_images' AND column_name = 'seed'
+  ) THEN
+    ALTER TABLE generated_images ADD COLUMN seed BIGINT;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'generated_images' AND column_name = 'provider_request'
+  ) THEN
+    ALTER TABLE generated_images ADD COLUMN provider_request JSONB;
+  END IF;
+END $$;
+
+-- Migration: Add model comparison columns (shared group id per comparison run, latency, picked winner)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'generated_images' AND column_name = 'comparison_group_id'
+  ) THEN
+    ALTER TABLE generated_images ADD COLUMN comparison_group_id UUID;
+    ALTER TABLE generated_images ADD COLUMN latency_ms INTEGER;
+    ALTER TABLE generated_images ADD COLUMN is_comparison_winner BOOLEAN NOT NULL DEFAULT FALSE;
+  END IF;
+END $$;
+
 -- Reference Images Table (for uploaded input images)
 CREATE TABLE IF NOT EXISTS reference_images (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -112,9 +194,21 @@ CREATE TABLE IF NOT EXISTS video_flows (
   video_prompt TEXT DEFAULT 'make a timelapse of this construction, camera stays stationary',
   duration TEXT DEFAULT '8s',
   resolution TEXT DEFAULT '720p',
-  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'generating', 'completed', 'failed'))
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'generating', 'completed', 'failed')),
+  thumbnail_url TEXT
 );
 
+-- Migration: Add thumbnail column to video_flows (derivative of the after image)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'video_flows' AND column_name = 'thumbnail_url'
+  ) THEN
+    ALTER TABLE video_flows ADD COLUMN thumbnail_url TEXT;
+  END IF;
+END $$;
+
 -- Rooms Table (for organizing designs within a project)
 CREATE TABLE IF NOT EXISTS rooms (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -136,7 +230,12 @@ CREATE TABLE IF NOT EXISTS room_designs (
   prompt TEXT,
   reference_image_urls TEXT[] DEFAULT '{}',
   before_image_url TEXT,
-  rendered_image_url TEXT
+  rendered_image_url TEXT,
+  -- Set by the assign_room_design_version trigger
+  version_number INTEGER NOT NULL,
+  label TEXT,
+  source TEXT CHECK (source IN ('generate', 'render', 'manual', 'restore')),
+  restored_from_id UUID REFERENCES room_designs(id) ON DELETE SET NULL
 );
 
 -- Migration: Add image columns to room_designs if they don't exist
@@ -156,6 +255,114 @@ BEGIN
   END IF;
 END $$;
 
+-- Migration: Add version columns (designs are immutable versions; each save adds a row)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'room_designs' AND column_name = 'version_number'
+  ) THEN
+    ALTER TABLE room_designs ADD COLUMN version_number INTEGER;
+    -- Number existing designs per room, oldest first
+    UPDATE room_designs SET version_number = numbered.version_number
+    FROM (
+      SELECT id, ROW_NUMBER() OVER (PARTITION BY room_id ORDER BY created_at, id) AS version_number
+      FROM room_designs
+    ) AS numbered
+    WHERE room_designs.id = numbered.id;
+    ALTER TABLE room_designs ALTER COLUMN version_number SET NOT NULL;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'room_designs' AND column_name = 'label'
+  ) THEN
+    ALTER TABLE room_designs ADD COLUMN label TEXT;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'room_designs' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE room_designs ADD COLUMN source TEXT CHECK (source IN ('generate', 'render', 'manual', 'restore'));
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'room_designs' AND column_name = 'restored_from_id'
+  ) THEN
+    ALTER TABLE room_designs ADD COLUMN restored_from_id UUID REFERENCES room_designs(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Generation Jobs Table (server-side image generation queue; /api/generate prunes finished jobs after 7 days)
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  model TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  request JSONB NOT NULL DEFAULT '{}',
+  result JSONB,
+  error TEXT,
+  generated_image_ids UUID[] DEFAULT '{}',
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Annotations Table (editable shapes behind an annotated image)
+CREATE TABLE IF NOT EXISTS annotations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  source_image_url TEXT,
+  source_image_id UUID REFERENCES generated_images(id) ON DELETE CASCADE,
+  annotated_image_url TEXT NOT NULL,
+  format_version INTEGER NOT NULL DEFAULT 1,
+  data JSONB NOT NULL
+);
+
+-- Usage Events Table (one row per provider call, with its estimated cost)
+CREATE TABLE IF NOT EXISTS usage_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Kept when the project is deleted so past spend still adds up
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  route TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  resolution TEXT,
+  image_count INTEGER NOT NULL DEFAULT 0,
+  -- Length of generated video
+  video_seconds NUMERIC,
+  -- Wall-clock time of the provider call
+  duration_ms INTEGER,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  estimated_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0
+);
+
+-- Design Messages Table (designer chat thread per room)
+CREATE TABLE IF NOT EXISTS design_messages (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Change the assistant proposed (see src/lib/design-patch.ts)
+  patch JSONB,
+  -- Version saved after the patch was applied
+  design_id UUID REFERENCES room_designs(id) ON DELETE SET NULL
+);
+
+-- Normalized Inputs Table (input source -> its normalized PNG under inputs/, so /api/generate
+-- skips sharp and the upload for inputs it has seen before, on any instance)
+CREATE TABLE IF NOT EXISTS normalized_inputs (
+  -- "path:<storage path>" for stored files, "sha256:<hash of the raw bytes>" otherwise
+  source_key TEXT PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  input_path TEXT NOT NULL
+);
+
 -- Prompt Categories Table
 CREATE TABLE IF NOT EXISTS prompt_categories (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -186,10 +393,62 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Usage totals per calendar day (in time_zone), project and model for the
+-- /usage dashboard, so long ranges are summed in the database
+CREATE OR REPLACE FUNCTION get_usage_summary(since TIMESTAMP WITH TIME ZONE, time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (
+  day DATE,
+  project_id UUID,
+  provider TEXT,
+  model TEXT,
+  events BIGINT,
+  images BIGINT,
+  video_seconds NUMERIC,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  estimated_cost_usd NUMERIC
+) AS $$
+  SELECT
+    (e.created_at AT TIME ZONE time_zone)::DATE,
+    e.project_id,
+    e.provider,
+    e.model,
+    COUNT(*),
+    COALESCE(SUM(e.image_count), 0),
+    COALESCE(SUM(e.video_seconds), 0),
+    COALESCE(SUM(e.input_tokens), 0),
+    COALESCE(SUM(e.output_tokens), 0),
+    COALESCE(SUM(e.estimated_cost_usd), 0)
+  FROM usage_events e
+  WHERE e.created_at >= since
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1 DESC, 2, 3, 4;
+$$ LANGUAGE sql STABLE;
+
+-- Pick a model comparison's winner, clearing the rest of the group in the same
+-- statement. SECURITY DEFINER because generated_images has no public UPDATE policy.
+CREATE OR REPLACE FUNCTION set_comparison_winner(group_id UUID, image_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM generated_images WHERE id = image_id AND comparison_group_id = group_id
+  ) THEN
+    RAISE EXCEPTION 'Image % is not part of comparison %', image_id, group_id;
+  END IF;
+
+  UPDATE generated_images
+  SET is_comparison_winner = (id = image_id)
+  WHERE comparison_group_id = group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_generated_images_created_at ON generated_images(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_generated_images_project ON generated_images(project_id);
+CREATE INDEX IF NOT EXISTS idx_generated_images_parents ON generated_images USING GIN (parent_image_ids);
+CREATE INDEX IF NOT EXISTS idx_generated_images_storage_path ON generated_images(storage_path);
+CREATE INDEX IF NOT EXISTS idx_generated_images_comparison_group ON generated_images(comparison_group_id);
 CREATE INDEX IF NOT EXISTS idx_reference_images_project ON reference_images(project_id);
 CREATE INDEX IF NOT EXISTS idx_prompt_templates_category ON prompt_templates(category_id);
 CREATE INDEX IF NOT EXISTS idx_prompt_templates_use_count ON prompt_templates(use_count DESC);
@@ -199,6 +458,16 @@ CREATE INDEX IF NOT EXISTS idx_rooms_project ON rooms(project_id);
 CREATE INDEX IF NOT EXISTS idx_rooms_created_at ON rooms(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_room_designs_room ON room_designs(room_id);
 CREATE INDEX IF NOT EXISTS idx_room_designs_created_at ON room_designs(created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_room_designs_room_version ON room_designs(room_id, version_number);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_project ON generation_jobs(project_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON generation_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_created_at ON generation_jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_annotations_source_url ON annotations(source_image_url);
+CREATE INDEX IF NOT EXISTS idx_annotations_annotated_url ON annotations(annotated_image_url);
+CREATE INDEX IF NOT EXISTS idx_annotations_source_image ON annotations(source_image_id);
+CREATE INDEX IF NOT EXISTS idx_usage_events_created_at ON usage_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_events_project ON usage_events(project_id);
+CREATE INDEX IF NOT EXISTS idx_design_messages_room ON design_messages(room_id, created_at);
 
 -- Function to update project updated_at timestamp
 CREATE OR REPLACE FUNCTION update_project_timestamp()
@@ -240,6 +509,48 @@ CREATE TRIGGER update_room_on_design
   FOR EACH ROW
   EXECUTE FUNCTION update_room_timestamp();
 
+-- Function to number a new room design as the room's next version
+CREATE OR REPLACE FUNCTION assign_room_design_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.version_number IS NULL THEN
+    SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number
+    FROM room_designs WHERE room_id = NEW.room_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_room_design_version ON room_designs;
+CREATE TRIGGER assign_room_design_version
+  BEFORE INSERT ON room_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_room_design_version();
+
+-- Function to keep saved versions immutable (only the label can change)
+CREATE OR REPLACE FUNCTION prevent_room_design_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.design_json IS DISTINCT FROM OLD.design_json
+    OR NEW.prompt IS DISTINCT FROM OLD.prompt
+    OR NEW.reference_image_urls IS DISTINCT FROM OLD.reference_image_urls
+    OR NEW.before_image_url IS DISTINCT FROM OLD.before_image_url
+    OR NEW.rendered_image_url IS DISTINCT FROM OLD.rendered_image_url
+    OR NEW.room_id IS DISTINCT FROM OLD.room_id
+    OR NEW.version_number IS DISTINCT FROM OLD.version_number
+  THEN
+    RAISE EXCEPTION 'Room design versions are immutable - save a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_room_design_changes ON room_designs;
+CREATE TRIGGER prevent_room_design_changes
+  BEFORE UPDATE ON room_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_room_design_changes();
+
 -- Function to update project timestamp from room changes
 CREATE OR REPLACE FUNCTION update_project_from_room_timestamp()
 RETURNS TRIGGER AS $$
@@ -269,6 +580,11 @@ ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
 ALTER TABLE video_flows ENABLE ROW LEVEL SECURITY;
 ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE room_designs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE annotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE design_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE normalized_inputs ENABLE ROW LEVEL SECURITY;
 
 -- Drop existing policies if they exist (makes script idempotent)
 DROP POLICY IF EXISTS "Allow public access to projects" ON projects;
@@ -277,6 +593,7 @@ DROP POLICY IF EXISTS "Allow public update to projects" ON projects;
 DROP POLICY IF EXISTS "Allow public delete from projects" ON projects;
 DROP POLICY IF EXISTS "Allow public read access to generated_images" ON generated_images;
 DROP POLICY IF EXISTS "Allow public insert to generated_images" ON generated_images;
+DROP POLICY IF EXISTS "Allow public update to generated_images" ON generated_images;
 DROP POLICY IF EXISTS "Allow public delete from generated_images" ON generated_images;
 DROP POLICY IF EXISTS "Allow public access to reference_images" ON reference_images;
 DROP POLICY IF EXISTS "Allow public insert to reference_images" ON reference_images;
@@ -394,6 +711,91 @@ CREATE POLICY "Allow public delete from room_designs"
 ON room_designs FOR DELETE
 USING (true);
 
+-- Generation jobs policies (full public access)
+DROP POLICY IF EXISTS "Allow public access to generation_jobs" ON generation_jobs;
+DROP POLICY IF EXISTS "Allow public insert to generation_jobs" ON generation_jobs;
+DROP POLICY IF EXISTS "Allow public update to generation_jobs" ON generation_jobs;
+DROP POLICY IF EXISTS "Allow public delete from generation_jobs" ON generation_jobs;
+
+CREATE POLICY "Allow public access to generation_jobs"
+ON generation_jobs FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to generation_jobs"
+ON generation_jobs FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Allow public update to generation_jobs"
+ON generation_jobs FOR UPDATE
+USING (true);
+
+CREATE POLICY "Allow public delete from generation_jobs"
+ON generation_jobs FOR DELETE
+USING (true);
+
+-- Annotations policies (full public access)
+DROP POLICY IF EXISTS "Allow public access to annotations" ON annotations;
+DROP POLICY IF EXISTS "Allow public insert to annotations" ON annotations;
+DROP POLICY IF EXISTS "Allow public update to annotations" ON annotations;
+DROP POLICY IF EXISTS "Allow public delete from annotations" ON annotations;
+
+CREATE POLICY "Allow public access to annotations"
+ON annotations FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to annotations"
+ON annotations FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Allow public update to annotations"
+ON annotations FOR UPDATE
+USING (true);
+
+CREATE POLICY "Allow public delete from annotations"
+ON annotations FOR DELETE
+USING (true);
+
+-- Usage events policies (append-only)
+DROP POLICY IF EXISTS "Allow public access to usage_events" ON usage_events;
+DROP POLICY IF EXISTS "Allow public insert to usage_events" ON usage_events;
+
+CREATE POLICY "Allow public access to usage_events"
+ON usage_events FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to usage_events"
+ON usage_events FOR INSERT
+WITH CHECK (true);
+
+-- Design messages policies (append-only; removed with their room)
+DROP POLICY IF EXISTS "Allow public access to design_messages" ON design_messages;
+DROP POLICY IF EXISTS "Allow public insert to design_messages" ON design_messages;
+
+CREATE POLICY "Allow public access to design_messages"
+ON design_messages FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to design_messages"
+ON design_messages FOR INSERT
+WITH CHECK (true);
+
+-- Normalized inputs policies (a mapping is replaced when its file was removed by the storage GC)
+DROP POLICY IF EXISTS "Allow public access to normalized_inputs" ON normalized_inputs;
+DROP POLICY IF EXISTS "Allow public insert to normalized_inputs" ON normalized_inputs;
+DROP POLICY IF EXISTS "Allow public update to normalized_inputs" ON normalized_inputs;
+
+CREATE POLICY "Allow public access to normalized_inputs"
+ON normalized_inputs FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to normalized_inputs"
+ON normalized_inputs FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Allow public update to normalized_inputs"
+ON normalized_inputs FOR UPDATE
+USING (true);
+
 -- Allow public read access to prompt_categories
 CREATE POLICY "Allow public read access to prompt_categories"
 ON prompt_categories FOR SELECT